@@ -0,0 +1,268 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource, Equal, IsNull, LessThan, MoreThan, Not } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  createInMemoryRepository,
+  IDomainEventPublisher,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const ItemSchema = Schema.Struct({
+  rank: Schema.Number,
+});
+
+type ItemProps = Schema.Schema.Type<typeof ItemSchema>;
+type Item = AggregateRoot<ItemProps>;
+
+const ItemTrait = AggGenericTrait.createAggregateRootTrait<
+  Item,
+  ItemProps,
+  ItemProps
+>((raw) => Schema.decodeUnknown(ItemSchema)(raw), 'Item');
+
+const publisher: IDomainEventPublisher = {
+  publish: () => Effect.void,
+  publishAll: () => Effect.void,
+};
+
+const item = (id: string, rank: number) =>
+  Effect.runSync(
+    ItemTrait.parse({
+      id,
+      rank,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+describe('Cursor pagination', () => {
+  it('walks all pages in order without a count', async () => {
+    const repository = createInMemoryRepository<Item>({
+      publisher,
+      initial: [item('a', 1), item('b', 3), item('c', 3), item('d', 2)],
+    });
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await Effect.runPromise(
+        repository.findManyByCursor({
+          cursor,
+          limit: 3,
+          orderBy: { rank: 'DESC' },
+        }),
+      );
+      seen.push(...page.data.map((i) => i.id));
+      expect(page.count).toBeUndefined();
+      cursor = page.nextCursor;
+      pages++;
+      if (!page.hasNext) break;
+    } while (cursor);
+
+    expect(pages).toBe(2);
+    expect(seen).toEqual(['b', 'c', 'd', 'a']);
+  });
+
+  it('counts on request and rejects malformed cursors', async () => {
+    const repository = createInMemoryRepository<Item>({
+      publisher,
+      initial: [item('a', 1), item('b', 2)],
+    });
+
+    const page = await Effect.runPromise(
+      repository.findManyByCursor({ limit: 5, withCount: true }),
+    );
+    const invalid = await Effect.runPromise(
+      Effect.either(repository.findManyByCursor({ cursor: 'not-a-cursor' })),
+    );
+
+    expect(page).toMatchObject({ count: 2, hasNext: false });
+    expect(page.nextCursor).toBeUndefined();
+    expect(invalid._tag).toBe('Left');
+    if (invalid._tag === 'Left') {
+      expect(invalid.left).toMatchObject({ code: 'INVALID_CURSOR' });
+    }
+  });
+
+  it('reads past the cursor with a keyset condition in TypeORM', async () => {
+    const rows = [
+      { id: 'b', rank: 3 },
+      { id: 'c', rank: 3 },
+      { id: 'd', rank: 2 },
+    ];
+    const ormRepository = {
+      metadata: { findColumnWithPropertyName: () => undefined },
+      find: jest.fn().mockResolvedValue(rows),
+      count: jest.fn(),
+    };
+    const repository = createTypeormRepository<Item, any>({
+      dataSource: {
+        manager: { getRepository: () => ormRepository },
+      } as unknown as DataSource,
+      publisher,
+      entityClass: class ItemEntity {},
+      relations: [],
+      toDomain: (entity) => Effect.succeed(item(entity.id, entity.rank)),
+      toOrm: () => Effect.succeed({}),
+      prepareQuery: (params) => params,
+    });
+
+    const first = await Effect.runPromise(
+      repository.findManyByCursor({
+        params: { active: true },
+        limit: 2,
+        orderBy: { rank: 'DESC' },
+      }),
+    );
+    await Effect.runPromise(
+      repository.findManyByCursor({
+        params: { active: true },
+        cursor: first.nextCursor,
+        limit: 2,
+        orderBy: { rank: 'DESC' },
+      }),
+    );
+
+    expect(first.data.map((i) => i.id)).toEqual(['b', 'c']);
+    expect(first.hasNext).toBe(true);
+    expect(ormRepository.count).not.toHaveBeenCalled();
+    expect(ormRepository.find).toHaveBeenLastCalledWith({
+      where: [
+        { active: true, rank: LessThan(3) },
+        { active: true, rank: Equal(3), id: MoreThan('c') },
+      ],
+      order: {
+        rank: { direction: 'DESC', nulls: 'FIRST' },
+        id: { direction: 'ASC', nulls: 'LAST' },
+      },
+      take: 3,
+      relations: [],
+    });
+  });
+
+  it('keeps timestamp sort keys at the precision stored in the database', async () => {
+    const stored = '2024-01-01 10:00:00.123456+00';
+    const createdAt = new Date('2024-01-01T10:00:00.123Z');
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      withDeleted: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn().mockResolvedValue({ id: 'b', key0: stored }),
+    };
+    const find = jest.fn();
+    const repository = createTypeormRepository<Item, any>({
+      dataSource: {
+        manager: {
+          getRepository: () => ({
+            metadata: { findColumnWithPropertyName: () => undefined },
+            find,
+            createQueryBuilder: () => query,
+          }),
+        },
+      } as unknown as DataSource,
+      publisher,
+      entityClass: class ItemEntity {},
+      relations: [],
+      toDomain: (entity) => Effect.succeed(item(entity.id, 0)),
+      toOrm: () => Effect.succeed({}),
+      prepareQuery: (params) => params,
+    });
+
+    find.mockResolvedValueOnce([
+      { id: 'b', createdAt },
+      { id: 'a', createdAt },
+    ]);
+    const first = await Effect.runPromise(
+      repository.findManyByCursor({ limit: 1, orderBy: { createdAt: 'DESC' } }),
+    );
+    find.mockResolvedValueOnce([]);
+    await Effect.runPromise(
+      repository.findManyByCursor({
+        cursor: first.nextCursor,
+        limit: 1,
+        orderBy: { createdAt: 'DESC' },
+      }),
+    );
+
+    expect(query.where).toHaveBeenCalledWith('row.id = :id', { id: 'b' });
+    expect(query.addSelect).toHaveBeenCalledWith(
+      'CAST(row.createdAt AS text)',
+      'key0',
+    );
+    expect(find.mock.lastCall[0].where).toEqual([
+      { createdAt: LessThan(stored) },
+      { createdAt: Equal(stored), id: MoreThan('b') },
+    ]);
+  });
+
+  it('sorts NULL keys as the largest value and reads past them', async () => {
+    const find = jest.fn();
+    const repository = createTypeormRepository<Item, any>({
+      dataSource: {
+        manager: {
+          getRepository: () => ({
+            metadata: { findColumnWithPropertyName: () => undefined },
+            find,
+          }),
+        },
+      } as unknown as DataSource,
+      publisher,
+      entityClass: class ItemEntity {},
+      relations: [],
+      toDomain: (entity) => Effect.succeed(item(entity.id, entity.rank ?? 0)),
+      toOrm: () => Effect.succeed({}),
+      prepareQuery: (params) => params,
+    });
+    const pageAfter = async (rows: object[], rank: 'ASC' | 'DESC') => {
+      find.mockResolvedValueOnce(rows);
+      const first = await Effect.runPromise(
+        repository.findManyByCursor({ limit: 1, orderBy: { rank } }),
+      );
+      find.mockResolvedValueOnce([]);
+      await Effect.runPromise(
+        repository.findManyByCursor({
+          cursor: first.nextCursor,
+          limit: 1,
+          orderBy: { rank },
+        }),
+      );
+      return find.mock.lastCall[0].where;
+    };
+
+    const afterRank = await pageAfter(
+      [
+        { id: 'a', rank: 1 },
+        { id: 'b', rank: null },
+      ],
+      'ASC',
+    );
+    const afterNullAscending = await pageAfter(
+      [
+        { id: 'b', rank: null },
+        { id: 'c', rank: null },
+      ],
+      'ASC',
+    );
+    const afterNullDescending = await pageAfter(
+      [
+        { id: 'b', rank: null },
+        { id: 'a', rank: 1 },
+      ],
+      'DESC',
+    );
+
+    expect(afterRank).toEqual([
+      { rank: MoreThan(1) },
+      { rank: IsNull() },
+      { rank: Equal(1), id: MoreThan('a') },
+    ]);
+    expect(afterNullAscending).toEqual([{ rank: IsNull(), id: MoreThan('b') }]);
+    expect(afterNullDescending).toEqual([
+      { rank: Not(IsNull()) },
+      { rank: IsNull(), id: MoreThan('b') },
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { Context, Effect, Layer, Option, pipe, Schema } from 'effect';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  createInMemoryRepository,
+  createInMemoryRepositoryLayer,
+  DomainEventPublisherContext,
+  DomainEventTrait,
+  IDomainEvent,
+  IDomainEventPublisher,
+  RepositoryPort,
+} from 'src';
+
+const TaskSchema = Schema.Struct({
+  title: Schema.String,
+  priority: Schema.Number,
+});
+
+type TaskProps = Schema.Schema.Type<typeof TaskSchema>;
+type Task = AggregateRoot<TaskProps>;
+
+const TaskTrait = AggGenericTrait.createAggregateRootTrait<
+  Task,
+  TaskProps,
+  TaskProps
+>((raw) => Schema.decodeUnknown(TaskSchema)(raw), 'Task');
+
+const rename = TaskTrait.asCommand(
+  (title: string, props, aggregate, correlationId) =>
+    Effect.succeed({
+      props: { ...props, title },
+      domainEvents: [
+        DomainEventTrait.create({
+          name: 'TaskRenamed',
+          payload: { title },
+          correlationId,
+          aggregate,
+        }),
+      ],
+    }),
+);
+
+const collectingPublisher = () => {
+  const published: IDomainEvent[] = [];
+  const publisher: IDomainEventPublisher = {
+    publish: (event) => Effect.sync(() => void published.push(event)),
+    publishAll: (events) => Effect.sync(() => void published.push(...events)),
+  };
+  return { publisher, published };
+};
+
+const newTask = (title: string, priority: number) =>
+  Effect.runPromise(TaskTrait.new({ title, priority }));
+
+describe('In-memory repository', () => {
+  it('stores aggregates and publishes their events', async () => {
+    const { publisher, published } = collectingPublisher();
+    const repository = createInMemoryRepository<Task>({ publisher });
+    const task = await newTask('draft', 1);
+
+    await Effect.runPromise(
+      pipe(rename('final')(task), Effect.flatMap(repository.save)),
+    );
+    const stored = await Effect.runPromise(
+      repository.findOneByIdOrThrow(task.id),
+    );
+
+    expect(published.map((e) => e.name)).toEqual(['TaskRenamed']);
+    expect(stored.props.title).toBe('final');
+    expect(stored.domainEvents).toEqual([]);
+    expect(stored.persistedVersion).toBe(stored.version);
+  });
+
+  it('finds aggregates by field equality or a custom predicate', async () => {
+    const { publisher } = collectingPublisher();
+    const tasks = [await newTask('a', 1), await newTask('b', 2)];
+    const byField = createInMemoryRepository<Task>({
+      publisher,
+      initial: tasks,
+    });
+    const byPredicate = createInMemoryRepository<Task, { minPriority: number }>(
+      {
+        publisher,
+        initial: tasks,
+        prepareQuery: (params) => (task) =>
+          task.props.priority >= params.minPriority,
+      },
+    );
+
+    const found = await Effect.runPromise(byField.findOne({ title: 'b' }));
+    const missing = await Effect.runPromise(
+      Effect.either(byField.findOneOrThrow({ title: 'c' })),
+    );
+    const urgent = await Effect.runPromise(
+      byPredicate.findMany({ minPriority: 2 }),
+    );
+
+    expect(Option.map(found, (t) => t.id)).toEqual(Option.some(tasks[1].id));
+    expect(missing._tag).toBe('Left');
+    if (missing._tag === 'Left') {
+      expect(missing.left).toMatchObject({ code: 'ENTITY_NOT_FOUND' });
+    }
+    expect(urgent.map((t) => t.props.title)).toEqual(['b']);
+  });
+
+  it('sorts and paginates', async () => {
+    const { publisher } = collectingPublisher();
+    const repository = createInMemoryRepository<Task>({
+      publisher,
+      initial: [
+        await newTask('a', 2),
+        await newTask('b', 3),
+        await newTask('c', 1),
+      ],
+    });
+
+    const page = await Effect.runPromise(
+      repository.findManyPaginated({
+        pagination: { page: 2, limit: 2 },
+        orderBy: { priority: 'DESC' },
+      }),
+    );
+
+    expect(page.count).toBe(3);
+    expect(page.page).toBe(2);
+    expect(page.data.map((t) => t.props.title)).toEqual(['c']);
+  });
+
+  it('rejects stale writes and duplicate adds', async () => {
+    const { publisher } = collectingPublisher();
+    const repository = createInMemoryRepository<Task>({ publisher });
+    const task = await newTask('draft', 1);
+    await Effect.runPromise(repository.add(task));
+
+    await Effect.runPromise(
+      pipe(rename('first')(task), Effect.flatMap(repository.save)),
+    );
+    const stale = await Effect.runPromise(
+      Effect.either(
+        pipe(rename('second')(task), Effect.flatMap(repository.save)),
+      ),
+    );
+    const duplicate = await Effect.runPromise(
+      Effect.either(repository.add(task)),
+    );
+
+    expect(stale._tag).toBe('Left');
+    if (stale._tag === 'Left') {
+      expect(stale.left._tag).toBe('Concurrency');
+    }
+    expect(duplicate._tag).toBe('Left');
+  });
+
+  it('deletes aggregates', async () => {
+    const { publisher } = collectingPublisher();
+    const task = await newTask('draft', 1);
+    const repository = createInMemoryRepository<Task>({
+      publisher,
+      initial: [task],
+    });
+
+    await Effect.runPromise(repository.delete(task));
+
+    expect(await Effect.runPromise(repository.findMany({}))).toEqual([]);
+  });
+
+  it('is provided as a Layer', async () => {
+    class TaskRepository extends Context.Tag('TaskRepository')<
+      TaskRepository,
+      RepositoryPort<Task>
+    >() {}
+    const { publisher, published } = collectingPublisher();
+    const layer = pipe(
+      createInMemoryRepositoryLayer(TaskRepository),
+      Layer.provide(Layer.succeed(DomainEventPublisherContext, publisher)),
+    );
+    const task = await newTask('draft', 1);
+
+    const titles = await Effect.runPromise(
+      pipe(
+        Effect.gen(function* () {
+          const repository = yield* TaskRepository;
+          yield* repository.save(yield* rename('final')(task));
+          return yield* repository.findMany({});
+        }),
+        Effect.map((tasks) => tasks.map((t) => t.props.title)),
+        Effect.provide(layer),
+      ),
+    );
+
+    expect(titles).toEqual(['final']);
+    expect(published).toHaveLength(1);
+  });
+});
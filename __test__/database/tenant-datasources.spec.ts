@@ -0,0 +1,79 @@
+import { createTenantDataSources } from 'src/ports/database/typeorm/datasource';
+
+const mockOpen = jest.fn();
+const mockDestroy = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('typeorm', () => ({
+  ...jest.requireActual('typeorm'),
+  DataSource: class {
+    constructor(readonly options: unknown) {
+      mockOpen(options);
+    }
+    initialize() {
+      return Promise.resolve(this);
+    }
+    destroy() {
+      return mockDestroy(this);
+    }
+  },
+}));
+
+const setup = () =>
+  createTenantDataSources(
+    (tenantId) => ({ type: 'postgres', schema: `tenant_${tenantId}` }),
+    {
+      isKnownTenant: (tenantId) => ['acme', 'globex'].includes(tenantId),
+      maxDataSources: 1,
+    },
+  );
+
+describe('Tenant DataSources', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('opens no DataSource for an unknown tenant', async () => {
+    const tenants = setup();
+
+    await expect(tenants.acquire('unknown')).rejects.toThrow(
+      'Unknown tenant unknown',
+    );
+    expect(mockOpen).not.toHaveBeenCalled();
+  });
+
+  it('destroys the least recently used DataSource beyond the limit', async () => {
+    const tenants = setup();
+
+    const acme = await tenants.use('acme', async (dataSource) => dataSource);
+    expect(await tenants.use('acme', async (dataSource) => dataSource)).toBe(
+      acme,
+    );
+    await tenants.use('globex', async () => undefined);
+    await settle();
+
+    expect(mockDestroy).toHaveBeenCalledTimes(1);
+    expect(mockDestroy).toHaveBeenCalledWith(acme);
+    expect(
+      await tenants.use('acme', async (dataSource) => dataSource),
+    ).not.toBe(acme);
+  });
+
+  it('keeps a leased DataSource open until it is released', async () => {
+    const tenants = setup();
+
+    const acme = await tenants.acquire('acme');
+    const globex = await tenants.acquire('globex');
+    await settle();
+    expect(mockDestroy).not.toHaveBeenCalled();
+
+    acme.release();
+    acme.release();
+    await settle();
+    expect(mockDestroy).toHaveBeenCalledTimes(1);
+    expect(mockDestroy).toHaveBeenCalledWith(acme.dataSource);
+
+    globex.release();
+    await settle();
+    expect(mockDestroy).toHaveBeenCalledTimes(1);
+  });
+});
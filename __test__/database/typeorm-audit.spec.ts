@@ -0,0 +1,217 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  AuditEntry,
+  IAuditLogRepository,
+  IDomainEventPublisher,
+  RepositoryWriteOptions,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const ArticleSchema = Schema.Struct({
+  title: Schema.String,
+  body: Schema.String,
+});
+
+type ArticleProps = Schema.Schema.Type<typeof ArticleSchema>;
+type Article = AggregateRoot<ArticleProps>;
+
+const ArticleTrait = AggGenericTrait.createAggregateRootTrait<
+  Article,
+  ArticleProps,
+  ArticleProps
+>((raw) => Schema.decodeUnknown(ArticleSchema)(raw), 'Article');
+
+const publisher: IDomainEventPublisher = {
+  publish: () => Effect.void,
+  publishAll: () => Effect.void,
+};
+
+// Request context of a command, as from CommandTrait.correlationContext
+const by = (userId: string): RepositoryWriteOptions => ({
+  correlation: { correlationId: `c-${userId}`, userId },
+});
+
+const article = (props: ArticleProps): Article =>
+  Effect.runSync(
+    ArticleTrait.parse({
+      id: 'a-1',
+      ...props,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+const setup = (existing: Record<string, unknown> | null = null) => {
+  const entries: AuditEntry[] = [];
+  let inTransaction = false;
+  const appendedInTransaction: boolean[] = [];
+  const log: IAuditLogRepository = {
+    append: (appended) =>
+      Effect.sync(() => {
+        entries.push(...appended);
+        appendedInTransaction.push(inTransaction);
+      }),
+  };
+  const ormRepository = {
+    metadata: { findColumnWithPropertyName: () => undefined },
+    find: jest.fn().mockResolvedValue(existing ? [existing] : []),
+    findOne: jest.fn().mockResolvedValue(existing),
+    save: jest.fn().mockImplementation(async (row) => row),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const repository = createTypeormRepository<Article, any>({
+    dataSource: {
+      manager: { getRepository: () => ormRepository },
+      transaction: async (work: (manager: unknown) => Promise<unknown>) => {
+        inTransaction = true;
+        try {
+          return await work({ getRepository: () => ormRepository });
+        } finally {
+          inTransaction = false;
+        }
+      },
+    } as unknown as DataSource,
+    publisher,
+    entityClass: class ArticleEntity {},
+    relations: [],
+    toDomain: (row) => Effect.succeed(article(row)),
+    // Updates the loaded row in place, as mappers often do
+    toOrm: (domain, existingRow) =>
+      Effect.succeed(
+        Object.assign(
+          Option.getOrElse(existingRow, () => ({})),
+          { id: domain.id },
+          domain.props,
+        ),
+      ),
+    prepareQuery: (params) => params,
+    audit: { log },
+  });
+  return { repository, ormRepository, entries, appendedInTransaction };
+};
+
+describe('Audit capture', () => {
+  it('records the creator and logs every prop of a new aggregate', async () => {
+    const { repository, ormRepository, entries } = setup();
+
+    await Effect.runPromise(
+      repository.add(article({ title: 'Hello', body: 'World' }), by('u-1')),
+    );
+
+    expect(ormRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ createdBy: 'u-1', updatedBy: 'u-1' }),
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      aggregateId: 'a-1',
+      aggregateType: 'Article',
+      action: 'create',
+      userId: 'u-1',
+      correlationId: 'c-u-1',
+      changes: {
+        title: { before: undefined, after: 'Hello' },
+        body: { before: undefined, after: 'World' },
+      },
+    });
+  });
+
+  it('keeps the creator and logs only the changed props', async () => {
+    const { repository, ormRepository, entries } = setup({
+      id: 'a-1',
+      title: 'Hello',
+      body: 'World',
+      createdBy: 'u-1',
+      updatedBy: 'u-1',
+    });
+
+    await Effect.runPromise(
+      repository.save(article({ title: 'Hi', body: 'World' }), by('u-2')),
+    );
+
+    expect(ormRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ createdBy: 'u-1', updatedBy: 'u-2' }),
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      action: 'update',
+      userId: 'u-2',
+      changes: { title: { before: 'Hello', after: 'Hi' } },
+    });
+  });
+
+  it('logs nothing when a save changes no prop', async () => {
+    const { repository, entries } = setup({
+      id: 'a-1',
+      title: 'Hello',
+      body: 'World',
+    });
+
+    await Effect.runPromise(
+      repository.save(article({ title: 'Hello', body: 'World' })),
+    );
+
+    expect(entries).toHaveLength(0);
+  });
+
+  it('diffs a batch against the rows as loaded', async () => {
+    const { repository, entries } = setup({
+      id: 'a-1',
+      title: 'Hello',
+      body: 'World',
+    });
+
+    await Effect.runPromise(
+      repository.saveMultiple(
+        [article({ title: 'Hi', body: 'World' })],
+        by('u-2'),
+      ),
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      action: 'update',
+      userId: 'u-2',
+      changes: { title: { before: 'Hello', after: 'Hi' } },
+    });
+  });
+
+  it('logs a delete only when a row was deleted, in its transaction', async () => {
+    const { repository, ormRepository, entries, appendedInTransaction } =
+      setup();
+    ormRepository.delete.mockResolvedValueOnce({ affected: 0 });
+
+    await Effect.runPromise(
+      repository.delete(article({ title: 'Hello', body: 'World' }), by('u-1')),
+    );
+    await Effect.runPromise(
+      repository.delete(article({ title: 'Hello', body: 'World' }), by('u-1')),
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      action: 'delete',
+      userId: 'u-1',
+      correlationId: 'c-u-1',
+    });
+    expect(appendedInTransaction).toEqual([true]);
+  });
+
+  it('records no user without a request context', async () => {
+    const { repository, ormRepository, entries } = setup();
+
+    await Effect.runPromise(
+      repository.add(article({ title: 'Hello', body: 'World' })),
+    );
+
+    expect(ormRepository.save).toHaveBeenCalledWith(
+      expect.not.objectContaining({ createdBy: expect.anything() }),
+    );
+    expect(entries[0]).toMatchObject({
+      userId: undefined,
+      correlationId: undefined,
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource, In } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  DomainEventTrait,
+  IDomainEventPublisher,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const ProductSchema = Schema.Struct({
+  sku: Schema.String,
+});
+
+type ProductProps = Schema.Schema.Type<typeof ProductSchema>;
+type Product = AggregateRoot<ProductProps>;
+
+const ProductTrait = AggGenericTrait.createAggregateRootTrait<
+  Product,
+  ProductProps,
+  ProductProps
+>((raw) => Schema.decodeUnknown(ProductSchema)(raw), 'Product');
+
+const imported = (sku: string): Product => {
+  const product = Effect.runSync(ProductTrait.new({ sku }));
+  return {
+    ...product,
+    domainEvents: [
+      DomainEventTrait.create({
+        name: 'ProductImported',
+        payload: { sku },
+        correlationId: 'import-1',
+        aggregate: product,
+      }),
+    ],
+  };
+};
+
+describe('Batch saveMultiple', () => {
+  it('preloads, saves and publishes per batch instead of per aggregate', async () => {
+    const products = ['a', 'b', 'c', 'd', 'e'].map(imported);
+    const existingRow = { id: products[0].id, sku: 'old', note: 'kept' };
+    const ormRepository = {
+      metadata: { findColumnWithPropertyName: () => undefined },
+      find: jest
+        .fn()
+        .mockResolvedValueOnce([existingRow])
+        .mockResolvedValue([]),
+      findOne: jest.fn(),
+      save: jest.fn().mockImplementation(async (entities) => entities),
+    };
+    const publisher: IDomainEventPublisher = {
+      publish: jest.fn(() => Effect.void),
+      publishAll: jest.fn(() => Effect.void),
+    };
+    const repository = createTypeormRepository<Product, any>({
+      dataSource: {
+        manager: { getRepository: () => ormRepository },
+        transaction: (work: (manager: unknown) => Promise<unknown>) =>
+          work({ getRepository: () => ormRepository }),
+      } as unknown as DataSource,
+      publisher,
+      entityClass: class ProductEntity {},
+      relations: [],
+      toDomain: () => Effect.succeed(products[0]),
+      toOrm: (domain, existing) =>
+        Effect.succeed({
+          ...Option.getOrElse(existing, () => ({})),
+          id: domain.id,
+          sku: domain.props.sku,
+        }),
+      prepareQuery: (params) => params,
+      batchSize: 2,
+    });
+
+    await Effect.runPromise(repository.saveMultiple(products));
+
+    expect(ormRepository.findOne).not.toHaveBeenCalled();
+    expect(ormRepository.find).toHaveBeenCalledTimes(3);
+    expect(ormRepository.find).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        where: { id: In([products[0].id, products[1].id]) },
+      }),
+    );
+    expect(ormRepository.save).toHaveBeenCalledTimes(3);
+    expect(ormRepository.save.mock.calls[0][0]).toEqual([
+      { id: products[0].id, sku: 'a', note: 'kept' },
+      { id: products[1].id, sku: 'b' },
+    ]);
+    expect(publisher.publishAll).toHaveBeenCalledTimes(1);
+    expect(
+      (publisher.publishAll as jest.Mock).mock.calls[0][0].map(
+        (event: { payload: ProductProps }) => event.payload.sku,
+      ),
+    ).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  describe('with a versioned entity', () => {
+    const setup = (rows: Array<{ id: string; version: number }>) => {
+      const updateBuilder = {
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        setParameters: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ affected: rows.length }),
+      };
+      const ormRepository = {
+        metadata: {
+          findColumnWithPropertyName: (property: string) =>
+            property === 'version' ? { propertyName: 'version' } : undefined,
+        },
+        manager: {
+          connection: { driver: { escape: (n: string) => `"${n}"` } },
+        },
+        find: jest.fn().mockResolvedValue(rows),
+        update: jest.fn(),
+        save: jest.fn().mockImplementation(async (entities) => entities),
+        createQueryBuilder: jest.fn(() => updateBuilder),
+      };
+      const transaction = jest.fn(
+        (work: (manager: unknown) => Promise<unknown>) =>
+          work({ getRepository: () => ormRepository }),
+      );
+      const publisher: IDomainEventPublisher = {
+        publish: jest.fn(() => Effect.void),
+        publishAll: jest.fn(() => Effect.void),
+      };
+      const repository = createTypeormRepository<Product, any>({
+        dataSource: {
+          manager: { getRepository: () => ormRepository },
+          transaction,
+        } as unknown as DataSource,
+        publisher,
+        entityClass: class ProductEntity {},
+        relations: [],
+        toDomain: () => Effect.succeed(imported('x')),
+        toOrm: (domain) =>
+          Effect.succeed({ id: domain.id, sku: domain.props.sku }),
+        prepareQuery: (params) => params,
+        batchSize: 10,
+      });
+      return {
+        ormRepository,
+        updateBuilder,
+        transaction,
+        publisher,
+        repository,
+      };
+    };
+    const stored = (sku: string): Product => ({
+      ...imported(sku),
+      version: 4,
+      persistedVersion: 3,
+    });
+
+    it('claims the versions of a chunk with one UPDATE in the batch transaction', async () => {
+      const products = [stored('a'), stored('b'), imported('c')];
+      const { ormRepository, updateBuilder, transaction, repository } = setup(
+        products.slice(0, 2).map(({ id }) => ({ id, version: 3 })),
+      );
+
+      const saved = await Effect.runPromise(repository.saveMultiple(products));
+
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(ormRepository.update).not.toHaveBeenCalled();
+      expect(updateBuilder.execute).toHaveBeenCalledTimes(1);
+      expect(updateBuilder.where).toHaveBeenCalledWith([
+        { id: products[0].id, version: 3 },
+        { id: products[1].id, version: 3 },
+      ]);
+      expect(updateBuilder.set.mock.calls[0][0].version()).toBe(
+        'CASE "id" WHEN :claimId0 THEN 4 WHEN :claimId1 THEN 4 END',
+      );
+      expect(updateBuilder.setParameters).toHaveBeenCalledWith({
+        claimId0: products[0].id,
+        claimId1: products[1].id,
+      });
+      expect(saved.map((product) => product.persistedVersion)).toEqual([
+        4, 4, 0,
+      ]);
+    });
+
+    it('fails the whole batch without publishing when a row was modified', async () => {
+      const products = [stored('a'), stored('b')];
+      const { ormRepository, updateBuilder, publisher, repository } = setup(
+        products.map(({ id }) => ({ id, version: 3 })),
+      );
+      updateBuilder.execute.mockResolvedValue({ affected: 1 });
+
+      const result = await Effect.runPromise(
+        Effect.either(repository.saveMultiple(products)),
+      );
+
+      expect(result._tag === 'Left' && result.left).toMatchObject({
+        code: 'VERSION_CONFLICT',
+      });
+      expect(ormRepository.save).not.toHaveBeenCalled();
+      expect(publisher.publishAll).not.toHaveBeenCalled();
+    });
+  });
+});
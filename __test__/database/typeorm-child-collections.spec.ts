@@ -0,0 +1,161 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  Entity,
+  EntityGenericTrait,
+  IDomainEventPublisher,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const LineSchema = Schema.Struct({
+  sku: Schema.String,
+  quantity: Schema.Number,
+});
+
+type LineProps = Schema.Schema.Type<typeof LineSchema>;
+type Line = Entity<LineProps>;
+
+const LineTrait = EntityGenericTrait.createEntityTrait<
+  Line,
+  LineProps,
+  LineProps
+>((raw) => Schema.decodeUnknown(LineSchema)(raw), 'Line');
+
+type BasketProps = { lines: ReadonlyArray<Line> };
+type Basket = AggregateRoot<BasketProps>;
+
+const BasketTrait = AggGenericTrait.createAggregateRootTrait<
+  Basket,
+  BasketProps,
+  BasketProps
+>((raw) => Effect.succeed({ lines: raw.lines }), 'Basket');
+
+const line = (id: string, quantity: number): Line =>
+  Effect.runSync(
+    LineTrait.parse({
+      id,
+      sku: id.toUpperCase(),
+      quantity,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+const basket = (lines: ReadonlyArray<Line>): Basket =>
+  Effect.runSync(
+    BasketTrait.parse({
+      id: 'b-1',
+      lines,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+class BasketEntity {}
+class BasketLineEntity {}
+
+const publisher: IDomainEventPublisher = {
+  publish: () => Effect.void,
+  publishAll: () => Effect.void,
+};
+
+const setup = (existingLines: ReadonlyArray<{ id: string }> | null) => {
+  const basketRepository = {
+    metadata: { findColumnWithPropertyName: () => undefined },
+    findOne: jest
+      .fn()
+      .mockResolvedValue(
+        existingLines ? { id: 'b-1', lines: existingLines } : null,
+      ),
+    find: jest.fn().mockResolvedValue([]),
+    save: jest.fn().mockImplementation(async (entity) => entity),
+  };
+  const lineRepository = {
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    save: jest.fn().mockImplementation(async (rows) => rows),
+  };
+  const manager = {
+    getRepository: (target: unknown) =>
+      target === BasketLineEntity ? lineRepository : basketRepository,
+  };
+  const repository = createTypeormRepository<Basket, any>({
+    dataSource: {
+      manager,
+      transaction: (work: (manager: unknown) => Promise<unknown>) =>
+        work(manager),
+    } as unknown as DataSource,
+    publisher,
+    entityClass: BasketEntity,
+    relations: [],
+    toDomain: () => Effect.succeed(basket([])),
+    toOrm: (domain, existing) =>
+      Effect.succeed({
+        ...Option.getOrElse(existing, () => ({})),
+        id: domain.id,
+      }),
+    prepareQuery: (params) => params,
+    childCollections: [
+      {
+        relation: 'lines',
+        entityClass: BasketLineEntity,
+        children: (aggregate) => aggregate.props.lines,
+        toOrm: (child: Line, parent, existingRow) =>
+          Effect.succeed({
+            ...Option.getOrElse(existingRow, () => ({})),
+            id: child.id,
+            basketId: parent.id,
+            sku: child.props.sku,
+            quantity: child.props.quantity,
+          }),
+      },
+    ],
+  });
+  return { repository, basketRepository, lineRepository };
+};
+
+describe('Child collections', () => {
+  it('loads children with the aggregate and diffs them by id on save', async () => {
+    const { repository, basketRepository, lineRepository } = setup([
+      { id: 'l-1' },
+      { id: 'l-2' },
+    ]);
+
+    await Effect.runPromise(
+      repository.save(basket([line('l-1', 5), line('l-3', 1)])),
+    );
+
+    expect(basketRepository.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ relations: ['lines'] }),
+    );
+    expect(basketRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'b-1', lines: undefined }),
+    );
+    expect(lineRepository.delete).toHaveBeenCalledWith(['l-2']);
+    expect(lineRepository.save).toHaveBeenCalledWith([
+      { id: 'l-1', basketId: 'b-1', sku: 'L-1', quantity: 5 },
+      { id: 'l-3', basketId: 'b-1', sku: 'L-3', quantity: 1 },
+    ]);
+  });
+
+  it('inserts all children when the aggregate is added', async () => {
+    const { repository, lineRepository } = setup(null);
+
+    await Effect.runPromise(repository.add(basket([line('l-1', 2)])));
+
+    expect(lineRepository.delete).not.toHaveBeenCalled();
+    expect(lineRepository.save).toHaveBeenCalledWith([
+      { id: 'l-1', basketId: 'b-1', sku: 'L-1', quantity: 2 },
+    ]);
+  });
+
+  it('deletes every row when the collection is emptied', async () => {
+    const { repository, lineRepository } = setup([{ id: 'l-1' }]);
+
+    await Effect.runPromise(repository.save(basket([])));
+
+    expect(lineRepository.delete).toHaveBeenCalledWith(['l-1']);
+    expect(lineRepository.save).not.toHaveBeenCalled();
+  });
+});
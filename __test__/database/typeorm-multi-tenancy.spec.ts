@@ -0,0 +1,130 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource } from 'typeorm';
+import { AggGenericTrait, AggregateRoot, IDomainEventPublisher } from 'src';
+import { runWithTenant } from 'src/infra/nestjs/cls.middleware';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const InvoiceSchema = Schema.Struct({
+  number: Schema.String,
+});
+
+type InvoiceProps = Schema.Schema.Type<typeof InvoiceSchema>;
+type Invoice = AggregateRoot<InvoiceProps>;
+
+const InvoiceTrait = AggGenericTrait.createAggregateRootTrait<
+  Invoice,
+  InvoiceProps,
+  InvoiceProps
+>((raw) => Schema.decodeUnknown(InvoiceSchema)(raw), 'Invoice');
+
+const publisher: IDomainEventPublisher = {
+  publish: () => Effect.void,
+  publishAll: () => Effect.void,
+};
+
+const invoice = (id: string) =>
+  Effect.runSync(
+    InvoiceTrait.parse({
+      id,
+      number: id,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+const setup = (existing: Record<string, unknown> | null = null) => {
+  const ormRepository = {
+    metadata: { findColumnWithPropertyName: () => undefined },
+    find: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn().mockResolvedValue(existing),
+    save: jest.fn().mockImplementation(async (row) => row),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const repository = createTypeormRepository<Invoice, any>({
+    dataSource: {
+      manager: { getRepository: () => ormRepository },
+      transaction: (work: (manager: unknown) => Promise<unknown>) =>
+        work({ getRepository: () => ormRepository }),
+    } as unknown as DataSource,
+    publisher,
+    entityClass: class InvoiceEntity {},
+    relations: [],
+    toDomain: (entity) => Effect.succeed(invoice(entity.id)),
+    toOrm: (domain) => Effect.succeed({ id: domain.id }),
+    prepareQuery: (params) => params,
+    tenancy: { column: 'tenantId' },
+  });
+  return { repository, ormRepository };
+};
+
+describe('Multi-tenancy', () => {
+  it('scopes reads and deletes to the tenant of the current context', async () => {
+    const { repository, ormRepository } = setup();
+
+    await runWithTenant('acme', () =>
+      Effect.runPromise(
+        Effect.all([
+          repository.findMany({ number: 'INV-1' }),
+          repository.delete(invoice('i-1')),
+        ]),
+      ),
+    );
+
+    expect(ormRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { number: 'INV-1', tenantId: 'acme' },
+      }),
+    );
+    expect(ormRepository.delete).toHaveBeenCalledWith({
+      id: 'i-1',
+      tenantId: 'acme',
+    });
+  });
+
+  it('stamps new rows with the current tenant', async () => {
+    const { repository, ormRepository } = setup();
+
+    await runWithTenant('acme', () =>
+      Effect.runPromise(repository.add(invoice('i-1'))),
+    );
+
+    expect(ormRepository.save).toHaveBeenCalledWith({
+      id: 'i-1',
+      tenantId: 'acme',
+    });
+  });
+
+  it('refuses to overwrite a row of another tenant', async () => {
+    const { repository, ormRepository } = setup({
+      id: 'i-1',
+      tenantId: 'globex',
+    });
+
+    const result = await runWithTenant('acme', () =>
+      Effect.runPromise(Effect.either(repository.save(invoice('i-1')))),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left).toMatchObject({
+        _tag: 'Forbidden',
+        code: 'CROSS_TENANT_WRITE',
+      });
+    }
+    expect(ormRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('fails outside of a tenant context', async () => {
+    const { repository, ormRepository } = setup();
+
+    const result = await Effect.runPromise(
+      Effect.either(repository.findMany({})),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left).toMatchObject({ code: 'TENANT_REQUIRED' });
+    }
+    expect(ormRepository.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource, Repository } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  ConcurrencyException,
+  IDomainEventPublisher,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+import {
+  ENTITY_MANAGER_KEY,
+  getNamespaceInstance,
+} from 'src/infra/nestjs/cls.middleware';
+
+const NoteSchema = Schema.Struct({
+  text: Schema.String,
+});
+
+type NoteProps = Schema.Schema.Type<typeof NoteSchema>;
+type Note = AggregateRoot<NoteProps>;
+
+const NoteTrait = AggGenericTrait.createAggregateRootTrait<
+  Note,
+  NoteProps,
+  NoteProps
+>((raw) => Schema.decodeUnknown(NoteSchema)(raw), 'Note');
+
+const edit = NoteTrait.asCommand((text: string, props) =>
+  Effect.succeed({ props: { ...props, text }, domainEvents: [] }),
+);
+
+class NoteEntity {
+  id: string;
+  text: string;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const setup = (stored: NoteEntity) => {
+  const ormRepository = {
+    metadata: {
+      findColumnWithPropertyName: (name: string) =>
+        name === 'version' ? {} : undefined,
+    },
+    findOne: jest.fn().mockResolvedValue(stored),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+    save: jest.fn().mockImplementation(async (entity) => entity),
+  };
+  const manager = { getRepository: () => ormRepository };
+  const transaction = jest.fn(
+    async (work: (manager: unknown) => Promise<unknown>) => work(manager),
+  );
+  const dataSource = { manager, transaction } as unknown as DataSource;
+  const publisher: IDomainEventPublisher = {
+    publish: () => Effect.void,
+    publishAll: () => Effect.void,
+  };
+
+  const repository = createTypeormRepository<Note, NoteEntity>({
+    dataSource,
+    publisher,
+    entityClass: NoteEntity,
+    relations: [],
+    toDomain: (entity) =>
+      NoteTrait.parse({
+        id: entity.id,
+        text: entity.text,
+        createdAt: Option.some(entity.createdAt),
+        updatedAt: Option.some(entity.updatedAt),
+      }),
+    toOrm: (domain, existing) =>
+      Effect.succeed({
+        ...Option.getOrElse(existing, () => new NoteEntity()),
+        id: domain.id,
+        text: domain.props.text,
+      }),
+    prepareQuery: (params) => ({ id: params.id }),
+  });
+
+  return {
+    repository,
+    manager,
+    transaction,
+    ormRepository: ormRepository as unknown as jest.Mocked<
+      Repository<NoteEntity>
+    >,
+  };
+};
+
+const storedNote = (version: number): NoteEntity => ({
+  id: 'note-1',
+  text: 'draft',
+  version,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('TypeORM repository optimistic concurrency', () => {
+  it('increments the version on every command', async () => {
+    const note = await Effect.runPromise(NoteTrait.new({ text: 'a' }));
+    const edited = await Effect.runPromise(
+      edit('b')(note).pipe(Effect.flatMap(edit('c'))),
+    );
+
+    expect(note.version).toBe(0);
+    expect(edited.version).toBe(2);
+    expect(edited.persistedVersion).toBe(0);
+  });
+
+  it('loads the stored version and writes the new one on save', async () => {
+    const { repository, ormRepository } = setup(storedNote(3));
+
+    const note = await Effect.runPromise(
+      repository.findOneByIdOrThrow('note-1'),
+    );
+    expect(note.version).toBe(3);
+    expect(note.persistedVersion).toBe(3);
+
+    await Effect.runPromise(
+      edit('final')(note).pipe(Effect.flatMap(repository.save)),
+    );
+
+    expect(ormRepository.update).toHaveBeenCalledWith(
+      { id: 'note-1', version: 3 },
+      { version: 4 },
+    );
+    expect(ormRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ text: 'final', version: 4 }),
+    );
+  });
+
+  it('returns the saved aggregate as persisted', async () => {
+    const { repository } = setup(storedNote(3));
+    const note = await Effect.runPromise(
+      repository.findOneByIdOrThrow('note-1'),
+    );
+
+    const saved = await Effect.runPromise(
+      edit('final')(note).pipe(Effect.flatMap(repository.save)),
+    );
+
+    expect(saved.version).toBe(4);
+    expect(saved.persistedVersion).toBe(4);
+    expect(saved.domainEvents).toEqual([]);
+  });
+
+  it('rolls the version claim back when the write fails', async () => {
+    const { repository, ormRepository, transaction } = setup(storedNote(3));
+    const note = await Effect.runPromise(
+      repository.findOneByIdOrThrow('note-1'),
+    );
+    ormRepository.save.mockRejectedValue(new Error('connection lost'));
+
+    const result = await Effect.runPromise(
+      Effect.either(edit('late')(note).pipe(Effect.flatMap(repository.save))),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left).toMatchObject({ code: 'FAILED_TO_SAVE_ENTITY' });
+    }
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(ormRepository.update).toHaveBeenCalled();
+    await expect(transaction.mock.results[0].value).rejects.toBeDefined();
+  });
+
+  it('joins the transaction already bound to the context', async () => {
+    const { repository, manager, transaction } = setup(storedNote(3));
+    const note = await Effect.runPromise(
+      repository.findOneByIdOrThrow('note-1'),
+    );
+    const namespace = getNamespaceInstance();
+
+    await namespace.runAndReturn(() => {
+      namespace.set(ENTITY_MANAGER_KEY, manager);
+      return Effect.runPromise(
+        edit('final')(note).pipe(Effect.flatMap(repository.save)),
+      );
+    });
+
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('fails when the stored version moved since the aggregate was loaded', async () => {
+    const { repository, ormRepository } = setup(storedNote(3));
+    const note = await Effect.runPromise(
+      repository.findOneByIdOrThrow('note-1'),
+    );
+    ormRepository.findOne.mockResolvedValue(storedNote(4));
+
+    const result = await Effect.runPromise(
+      Effect.either(edit('late')(note).pipe(Effect.flatMap(repository.save))),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left).toBeInstanceOf(ConcurrencyException);
+      expect((result.left as ConcurrencyException).content).toMatchObject({
+        expectedVersion: 3,
+        actualVersion: 4,
+      });
+    }
+    expect(ormRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('fails when a concurrent writer claims the version first', async () => {
+    const { repository, ormRepository } = setup(storedNote(3));
+    const note = await Effect.runPromise(
+      repository.findOneByIdOrThrow('note-1'),
+    );
+    ormRepository.update.mockResolvedValue({
+      affected: 0,
+      raw: [],
+      generatedMaps: [],
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(edit('late')(note).pipe(Effect.flatMap(repository.save))),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left._tag).toBe('Concurrency');
+    }
+    expect(ormRepository.save).not.toHaveBeenCalled();
+  });
+});
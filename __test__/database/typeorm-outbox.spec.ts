@@ -0,0 +1,208 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  createOutboxRelay,
+  DomainEventTrait,
+  IDomainEvent,
+  IDomainEventPublisher,
+  IOutboxRepository,
+  OperationException,
+  OutboxMessage,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+import { createOutboxEventSource } from 'src/ports/database/typeorm/outbox.repository';
+
+const TaskSchema = Schema.Struct({
+  title: Schema.String,
+});
+
+type TaskProps = Schema.Schema.Type<typeof TaskSchema>;
+type Task = AggregateRoot<TaskProps>;
+
+const TaskTrait = AggGenericTrait.createAggregateRootTrait<
+  Task,
+  TaskProps,
+  TaskProps
+>((raw) => Schema.decodeUnknown(TaskSchema)(raw), 'Task');
+
+const rename = TaskTrait.asCommand(
+  (title: string, props, aggregate, correlationId) =>
+    Effect.succeed({
+      props: { ...props, title },
+      domainEvents: [
+        DomainEventTrait.create({
+          name: 'TaskRenamed',
+          payload: { title },
+          correlationId,
+          aggregate,
+        }),
+      ],
+    }),
+);
+
+const createInMemoryOutbox = () => {
+  const messages: Array<OutboxMessage & { dispatched: boolean }> = [];
+  const outbox: IOutboxRepository = {
+    save: (event) => outbox.saveAll([event]),
+    saveAll: (events) =>
+      Effect.sync(() => {
+        events.forEach((event) =>
+          messages.push({
+            id: `${messages.length + 1}`,
+            event,
+            dispatched: false,
+          }),
+        );
+      }),
+    getUnhandledEvents: () =>
+      Effect.sync(() =>
+        messages.filter((m) => !m.dispatched).map((m) => m.event),
+      ),
+    getPendingMessages: (limit) =>
+      Effect.sync(() => messages.filter((m) => !m.dispatched).slice(0, limit)),
+    markAsHandled: (eventId) =>
+      Effect.sync(() => {
+        const message = messages.find((m) => m.id === eventId);
+        if (message) message.dispatched = true;
+      }),
+  };
+  return { outbox, messages };
+};
+
+const event = (title: string): IDomainEvent =>
+  DomainEventTrait.create({
+    name: 'TaskRenamed',
+    payload: { title },
+    correlationId: 'c-1',
+  });
+
+describe('Transactional outbox', () => {
+  it('writes events to the outbox instead of publishing them', async () => {
+    const { outbox, messages } = createInMemoryOutbox();
+    const publisher: IDomainEventPublisher = {
+      publish: jest.fn(() => Effect.void),
+      publishAll: jest.fn(() => Effect.void),
+    };
+    const ormRepository = {
+      metadata: { findColumnWithPropertyName: () => undefined },
+      findOne: jest.fn().mockResolvedValue(null),
+      save: jest.fn().mockImplementation(async (entity) => entity),
+    };
+    const repository = createTypeormRepository<Task, any>({
+      dataSource: {
+        manager: { getRepository: () => ormRepository },
+        transaction: (work: (manager: unknown) => Promise<unknown>) =>
+          work({ getRepository: () => ormRepository }),
+      } as unknown as DataSource,
+      publisher,
+      outbox,
+      entityClass: class TaskEntity {},
+      relations: [],
+      toDomain: (entity) =>
+        TaskTrait.parse({
+          ...entity,
+          createdAt: Option.none(),
+          updatedAt: Option.none(),
+        }),
+      toOrm: (domain) =>
+        Effect.succeed({ id: domain.id, title: domain.props.title }),
+      prepareQuery: (params) => params,
+    });
+
+    await Effect.runPromise(
+      TaskTrait.new({ title: 'draft' }).pipe(
+        Effect.flatMap(rename('final')),
+        Effect.flatMap(repository.save),
+      ),
+    );
+
+    expect(publisher.publishAll).not.toHaveBeenCalled();
+    expect(messages.map((m) => m.event.name)).toEqual(['TaskRenamed']);
+  });
+
+  it('relays pending events in order and marks them as dispatched', async () => {
+    const { outbox, messages } = createInMemoryOutbox();
+    const published: string[] = [];
+    const publisher: IDomainEventPublisher = {
+      publish: (e) => Effect.sync(() => published.push(e.payload.title)),
+      publishAll: () => Effect.void,
+    };
+    await Effect.runPromise(outbox.saveAll([event('a'), event('b')]));
+
+    const relay = createOutboxRelay(outbox, publisher);
+    const first = await Effect.runPromise(relay.relayOnce);
+    const second = await Effect.runPromise(relay.relayOnce);
+
+    expect(first).toBe(2);
+    expect(second).toBe(0);
+    expect(published).toEqual(['a', 'b']);
+    expect(messages.every((m) => m.dispatched)).toBe(true);
+  });
+
+  it('leaves events pending when publishing fails', async () => {
+    const { outbox } = createInMemoryOutbox();
+    const publisher: IDomainEventPublisher = {
+      publish: (e) =>
+        e.payload.title === 'b'
+          ? Effect.fail(OperationException.new('BROKER_DOWN', 'Broker down'))
+          : Effect.void,
+      publishAll: () => Effect.void,
+    };
+    await Effect.runPromise(
+      outbox.saveAll([event('a'), event('b'), event('c')]),
+    );
+
+    const relay = createOutboxRelay(outbox, publisher);
+    const result = await Effect.runPromise(Effect.either(relay.relayOnce));
+    const pending = await Effect.runPromise(outbox.getUnhandledEvents());
+
+    expect(result._tag).toBe('Left');
+    expect(pending.map((e) => e.payload.title)).toEqual(['b', 'c']);
+  });
+
+  it('reads projection events in commit-safe order after the checkpoint', async () => {
+    const query = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([
+        {
+          id: 'e-2',
+          name: 'TaskRenamed',
+          version: 1,
+          payload: { title: 'b' },
+          metadata: { timestamp: 0, correlationId: 'c-1' },
+          sequence: 7,
+          transactionId: 42,
+        },
+      ]),
+    };
+    const dataSource = {
+      manager: { getRepository: () => ({ createQueryBuilder: () => query }) },
+    } as unknown as DataSource;
+
+    const read = await Effect.runPromise(
+      createOutboxEventSource(dataSource).readAfter(
+        Option.some({ eventId: 'e-1', position: [42, 5] }),
+        10,
+      ),
+    );
+
+    expect(query.where).toHaveBeenCalledWith(
+      'event.transactionId < pg_snapshot_xmin(pg_current_snapshot())::text::bigint',
+    );
+    expect(query.andWhere).toHaveBeenCalledWith(
+      '(event.transactionId, event.sequence) > (:transactionId, :sequence)',
+      { transactionId: 42, sequence: 5 },
+    );
+    expect(query.orderBy).toHaveBeenCalledWith('event.transactionId', 'ASC');
+    expect(query.addOrderBy).toHaveBeenCalledWith('event.sequence', 'ASC');
+    expect(read.map(({ event, position }) => [event.id, position])).toEqual([
+      ['e-2', [42, 7]],
+    ]);
+  });
+});
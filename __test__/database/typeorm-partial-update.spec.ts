@@ -0,0 +1,182 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource } from 'typeorm';
+import { AggGenericTrait, AggregateRoot, IDomainEventPublisher } from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const ProductSchema = Schema.Struct({
+  name: Schema.String,
+  price: Schema.Number,
+});
+
+type ProductProps = Schema.Schema.Type<typeof ProductSchema>;
+type Product = AggregateRoot<ProductProps>;
+
+const ProductTrait = AggGenericTrait.createAggregateRootTrait<
+  Product,
+  ProductProps,
+  ProductProps
+>((raw) => Schema.decodeUnknown(ProductSchema)(raw), 'Product');
+
+const publisher: IDomainEventPublisher = {
+  publish: () => Effect.void,
+  publishAll: () => Effect.void,
+};
+
+const product = (props: ProductProps) =>
+  Effect.runSync(
+    ProductTrait.parse({
+      id: 'p-1',
+      ...props,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+const setup = (
+  version?: number,
+  fieldMap: Record<string, string> = { price: 'unitPrice' },
+) => {
+  const stored = { id: 'p-1', name: 'Lamp', unitPrice: 10, version };
+  const ormRepository = {
+    metadata: {
+      findColumnWithPropertyName: (property: string) =>
+        version !== undefined && property === 'version' ? {} : undefined,
+    },
+    findOne: jest.fn().mockResolvedValue(stored),
+    find: jest.fn().mockResolvedValue([stored]),
+    save: jest.fn().mockImplementation(async (row) => row),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const repository = createTypeormRepository<Product, any>({
+    dataSource: {
+      manager: { getRepository: () => ormRepository },
+      transaction: (work: (manager: unknown) => Promise<unknown>) =>
+        work({ getRepository: () => ormRepository }),
+    } as unknown as DataSource,
+    publisher,
+    entityClass: class ProductEntity {},
+    relations: [],
+    toDomain: (row) =>
+      Effect.succeed(product({ ...row, price: row.unitPrice })),
+    toOrm: (domain) =>
+      Effect.succeed({
+        id: domain.id,
+        name: domain.props.name,
+        unitPrice: domain.props.price,
+      }),
+    prepareQuery: (params) => params,
+    specification: { fieldMap },
+    partialUpdates: true,
+  });
+  return { repository, ormRepository };
+};
+
+describe('Partial updates', () => {
+  it('updates only the columns of changed props', async () => {
+    const { repository, ormRepository } = setup();
+
+    await Effect.runPromise(
+      repository.save(product({ name: 'Lamp', price: 12 })),
+    );
+
+    expect(ormRepository.update).toHaveBeenCalledWith(
+      { id: 'p-1' },
+      { unitPrice: 12 },
+    );
+    expect(ormRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('skips the write when no prop changed', async () => {
+    const { repository, ormRepository } = setup();
+
+    await Effect.runPromise(
+      repository.save(product({ name: 'Lamp', price: 10 })),
+    );
+
+    expect(ormRepository.update).not.toHaveBeenCalled();
+    expect(ormRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('saves the whole row when a changed prop has no column of its own', async () => {
+    // `price` is stored as `unitPrice`, but the field map does not say so
+    const { repository, ormRepository } = setup(undefined, {});
+
+    await Effect.runPromise(
+      repository.save(product({ name: 'Lamp', price: 12 })),
+    );
+
+    expect(ormRepository.update).not.toHaveBeenCalled();
+    expect(ormRepository.save).toHaveBeenCalledWith({
+      id: 'p-1',
+      name: 'Lamp',
+      unitPrice: 12,
+    });
+  });
+
+  it('handles batch saves like single saves', async () => {
+    const { repository, ormRepository } = setup();
+
+    await Effect.runPromise(
+      repository.saveMultiple([product({ name: 'Lamp', price: 10 })]),
+    );
+    expect(ormRepository.update).not.toHaveBeenCalled();
+    expect(ormRepository.save).not.toHaveBeenCalled();
+
+    await Effect.runPromise(
+      repository.saveMultiple([product({ name: 'Lamp', price: 12 })]),
+    );
+    expect(ormRepository.update).toHaveBeenCalledWith(
+      { id: 'p-1' },
+      { unitPrice: 12 },
+    );
+    expect(ormRepository.save).not.toHaveBeenCalled();
+  });
+
+  describe('with a versioned entity', () => {
+    // A command ran on the aggregate loaded at version 3
+    const commanded = (props: ProductProps): Product => ({
+      ...product(props),
+      version: 4,
+      persistedVersion: 3,
+    });
+
+    it('keeps the stored version when no prop changed', async () => {
+      const { repository, ormRepository } = setup(3);
+
+      const saved = await Effect.runPromise(
+        repository.save(commanded({ name: 'Lamp', price: 10 })),
+      );
+
+      expect(ormRepository.update).not.toHaveBeenCalled();
+      expect(ormRepository.save).not.toHaveBeenCalled();
+      expect(saved).toMatchObject({ version: 3, persistedVersion: 3 });
+    });
+
+    it('claims the next version when a prop changed', async () => {
+      const { repository, ormRepository } = setup(3);
+
+      const saved = await Effect.runPromise(
+        repository.save(commanded({ name: 'Lamp', price: 12 })),
+      );
+
+      expect(ormRepository.update).toHaveBeenCalledWith(
+        { id: 'p-1', version: 3 },
+        { version: 4 },
+      );
+      expect(saved).toMatchObject({ version: 4, persistedVersion: 4 });
+    });
+
+    it('still detects a stale aggregate when no prop changed', async () => {
+      const { repository } = setup(5);
+
+      const result = await Effect.runPromise(
+        Effect.either(repository.save(commanded({ name: 'Lamp', price: 10 }))),
+      );
+
+      expect(result._tag).toBe('Left');
+      if (result._tag === 'Left') {
+        expect(result.left).toMatchObject({ code: 'VERSION_CONFLICT' });
+      }
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { Effect, Option, pipe, Schema } from 'effect';
+import { DataSource, Repository } from 'typeorm';
+import {
+  AggregateRoot,
+  buildAggregateRoot,
+  createAggregateRoot,
+  IDomainEventPublisher,
+  withSchema,
+} from 'src';
+import {
+  AggregateTypeORMEntityBase,
+  columnName,
+  createRepositoryWithConventions,
+  createSchemaMappers,
+} from 'src/typeorm';
+
+const Sku = Schema.String.pipe(Schema.brand('Sku'));
+
+const ShipmentSchema = Schema.Struct({
+  carrier: Schema.String,
+  shippedAt: Schema.Date,
+});
+
+const ParcelSchema = Schema.Struct({
+  sku: Sku,
+  total: Schema.Number.pipe(columnName('totalAmount')),
+  note: Schema.Option(Schema.String),
+  deliveredAt: Schema.OptionFromNullOr(Schema.Date),
+  shipment: ShipmentSchema,
+  tags: Schema.optional(Schema.Array(Schema.String)),
+});
+
+type ParcelProps = Schema.Schema.Type<typeof ParcelSchema>;
+type Parcel = AggregateRoot<ParcelProps>;
+
+const ParcelTrait = pipe(
+  createAggregateRoot<Parcel, typeof ParcelSchema.Encoded>('Parcel'),
+  withSchema(ParcelSchema),
+  buildAggregateRoot,
+);
+
+class ParcelEntity extends AggregateTypeORMEntityBase {
+  sku!: string;
+  totalAmount!: number;
+  note!: string | null;
+  deliveredAt!: Date | null;
+  shipment!: { carrier: string; shippedAt: string };
+  tags!: string[] | null;
+}
+
+const shippedAt = new Date('2024-03-01T10:00:00.000Z');
+
+const parcel = (note: Option.Option<string>) =>
+  Effect.runSync(
+    ParcelTrait.parse({
+      id: 'p-1',
+      createdAt: Option.some(new Date('2024-03-01T09:00:00.000Z')),
+      updatedAt: Option.none(),
+      sku: 'SKU-1',
+      total: 42,
+      note: Option.match(note, {
+        onNone: () => ({ _tag: 'None' }),
+        onSome: (value) => ({ _tag: 'Some', value }),
+      }),
+      deliveredAt: null,
+      shipment: { carrier: 'DHL', shippedAt: shippedAt.toISOString() },
+    }),
+  );
+
+const mappers = createSchemaMappers<Parcel, ParcelEntity>(
+  ParcelTrait,
+  ParcelSchema,
+);
+
+describe('Schema-driven ORM mapping', () => {
+  it('writes props to columns, flattening Options and renaming fields', async () => {
+    const row = await Effect.runPromise(
+      mappers.toOrm(
+        parcel(Option.some('fragile')),
+        Option.none(),
+        {} as Repository<ParcelEntity>,
+      ),
+    );
+
+    expect(row).toMatchObject({
+      id: 'p-1',
+      sku: 'SKU-1',
+      totalAmount: 42,
+      note: 'fragile',
+      deliveredAt: null,
+      shipment: { carrier: 'DHL', shippedAt: shippedAt.toISOString() },
+      tags: null,
+    });
+    expect(row).not.toHaveProperty('total');
+    expect(mappers.fieldMap).toEqual({ total: 'totalAmount' });
+  });
+
+  it('reads rows back into parsed aggregates', async () => {
+    const deliveredAt = new Date('2024-03-02T10:00:00.000Z');
+    const restored = await Effect.runPromise(
+      mappers.toDomain({
+        id: 'p-1',
+        createdAt: new Date('2024-03-01T09:00:00.000Z'),
+        updatedAt: null,
+        version: 3,
+        deletedAt: null,
+        sku: 'SKU-1',
+        totalAmount: 42,
+        note: null,
+        deliveredAt,
+        shipment: { carrier: 'DHL', shippedAt: shippedAt.toISOString() },
+        tags: ['express'],
+      } as unknown as ParcelEntity),
+    );
+
+    expect(restored.id).toBe('p-1');
+    expect(restored.version).toBe(3);
+    expect(restored.props.total).toBe(42);
+    expect(Option.isNone(restored.props.note)).toBe(true);
+    expect(restored.props.deliveredAt).toEqual(Option.some(deliveredAt));
+    expect(restored.props.shipment.shippedAt).toEqual(shippedAt);
+    expect(restored.props.tags).toEqual(['express']);
+  });
+
+  it('round-trips an aggregate', async () => {
+    const original = parcel(Option.some('fragile'));
+    const restored = await Effect.runPromise(
+      pipe(
+        mappers.toOrm(original, Option.none(), {} as Repository<ParcelEntity>),
+        Effect.flatMap(mappers.toDomain),
+      ),
+    );
+
+    expect(restored.props).toEqual(original.props);
+  });
+
+  it('fails on rows the schema rejects', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(
+        mappers.toDomain({
+          id: 'p-1',
+          createdAt: new Date(),
+          version: 0,
+          sku: 'SKU-1',
+          totalAmount: 'many',
+          shipment: { carrier: 'DHL', shippedAt: shippedAt.toISOString() },
+        } as unknown as ParcelEntity),
+      ),
+    );
+
+    expect(result._tag).toBe('Left');
+  });
+
+  it('uses the trait schema in createRepositoryWithConventions', async () => {
+    const ormRepository = {
+      metadata: { findColumnWithPropertyName: () => undefined },
+      find: jest.fn().mockResolvedValue([
+        {
+          id: 'p-1',
+          createdAt: new Date(),
+          updatedAt: null,
+          version: 1,
+          sku: 'SKU-1',
+          totalAmount: 42,
+          note: 'fragile',
+          deliveredAt: null,
+          shipment: { carrier: 'DHL', shippedAt: shippedAt.toISOString() },
+          tags: null,
+        },
+      ]),
+    };
+    const publisher: IDomainEventPublisher = {
+      publish: () => Effect.void,
+      publishAll: () => Effect.void,
+    };
+
+    const repository = createRepositoryWithConventions(
+      { entityClass: ParcelEntity, domainTrait: ParcelTrait },
+      {
+        dataSource: {
+          manager: { getRepository: () => ormRepository },
+        } as unknown as DataSource,
+        publisher,
+      },
+    );
+
+    const parcels = await Effect.runPromise(repository.findMany({}));
+
+    expect(parcels).toHaveLength(1);
+    expect(parcels[0].props.total).toBe(42);
+    expect(parcels[0].props.note).toEqual(Option.some('fragile'));
+  });
+});
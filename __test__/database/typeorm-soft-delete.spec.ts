@@ -0,0 +1,120 @@
+import { Effect, Option, Schema } from 'effect';
+import { DataSource } from 'typeorm';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  createInMemoryRepository,
+  IDomainEventPublisher,
+} from 'src';
+import { createTypeormRepository } from 'src/ports/database/typeorm/effect-repository.factory';
+
+const DocumentSchema = Schema.Struct({
+  title: Schema.String,
+});
+
+type DocumentProps = Schema.Schema.Type<typeof DocumentSchema>;
+type Document = AggregateRoot<DocumentProps>;
+
+const DocumentTrait = AggGenericTrait.createAggregateRootTrait<
+  Document,
+  DocumentProps,
+  DocumentProps
+>((raw) => Schema.decodeUnknown(DocumentSchema)(raw), 'Document');
+
+const publisher: IDomainEventPublisher = {
+  publish: () => Effect.void,
+  publishAll: () => Effect.void,
+};
+
+const document = (id: string) =>
+  Effect.runSync(
+    DocumentTrait.parse({
+      id,
+      title: id,
+      createdAt: Option.none(),
+      updatedAt: Option.none(),
+    }),
+  );
+
+const setup = (softDelete: boolean) => {
+  const ormRepository = {
+    metadata: { findColumnWithPropertyName: () => undefined },
+    find: jest.fn().mockResolvedValue([]),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    softDelete: jest.fn().mockResolvedValue({ affected: 1 }),
+    restore: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const repository = createTypeormRepository<Document, any>({
+    dataSource: {
+      manager: { getRepository: () => ormRepository },
+    } as unknown as DataSource,
+    publisher,
+    entityClass: class DocumentEntity {},
+    relations: [],
+    toDomain: (entity) => Effect.succeed(document(entity.id)),
+    toOrm: () => Effect.succeed({}),
+    prepareQuery: (params) => params,
+    softDelete,
+  });
+  return { repository, ormRepository };
+};
+
+describe('Soft delete', () => {
+  it('soft-deletes and restores through TypeORM', async () => {
+    const { repository, ormRepository } = setup(true);
+
+    await Effect.runPromise(repository.delete(document('d-1')));
+    await Effect.runPromise(repository.restore(document('d-1')));
+    await Effect.runPromise(repository.findMany({}, { includeDeleted: true }));
+
+    expect(ormRepository.softDelete).toHaveBeenCalledWith('d-1');
+    expect(ormRepository.delete).not.toHaveBeenCalled();
+    expect(ormRepository.restore).toHaveBeenCalledWith('d-1');
+    expect(ormRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({ withDeleted: true }),
+    );
+  });
+
+  it('hard-deletes and refuses to restore by default', async () => {
+    const { repository, ormRepository } = setup(false);
+
+    await Effect.runPromise(repository.delete(document('d-1')));
+    const restored = await Effect.runPromise(
+      Effect.either(repository.restore(document('d-1'))),
+    );
+
+    expect(ormRepository.delete).toHaveBeenCalledWith('d-1');
+    expect(restored._tag).toBe('Left');
+    if (restored._tag === 'Left') {
+      expect(restored.left).toMatchObject({ code: 'SOFT_DELETE_DISABLED' });
+    }
+  });
+
+  it('hides soft-deleted aggregates in memory unless asked for', async () => {
+    const kept = document('kept');
+    const removed = document('removed');
+    const repository = createInMemoryRepository<Document>({
+      publisher,
+      softDelete: true,
+      initial: [kept, removed],
+    });
+
+    await Effect.runPromise(repository.delete(removed));
+    const visible = await Effect.runPromise(repository.findMany({}));
+    const all = await Effect.runPromise(
+      repository.findMany({}, { includeDeleted: true }),
+    );
+    const byId = await Effect.runPromise(
+      Effect.either(repository.findOneByIdOrThrow('removed')),
+    );
+    await Effect.runPromise(repository.restore(removed));
+    const restored = await Effect.runPromise(
+      repository.findOneByIdOrThrow('removed'),
+    );
+
+    expect(visible.map((d) => d.id)).toEqual(['kept']);
+    expect(all.map((d) => d.id)).toEqual(['kept', 'removed']);
+    expect(byId._tag).toBe('Left');
+    expect(restored.id).toBe('removed');
+  });
+});
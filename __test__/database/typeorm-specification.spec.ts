@@ -0,0 +1,146 @@
+import {
+  And,
+  Equal,
+  In,
+  IsNull,
+  LessThan,
+  Like,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { AggregateRoot, SpecificationTrait } from 'src';
+import {
+  applySpecification,
+  specificationToFindOptions,
+  specificationToSql,
+} from 'src/ports/database/typeorm/specification.compiler';
+
+type Order = AggregateRoot<{
+  status: string;
+  total: number;
+  customer: { name: string };
+}>;
+
+const Spec = SpecificationTrait.forAggregate<Order>();
+const { and, or, not } = SpecificationTrait;
+
+describe('TypeORM specification compiler', () => {
+  it('compiles AND into a single condition object', () => {
+    const where = specificationToFindOptions(
+      and(
+        Spec.eq('status', 'open'),
+        Spec.gte('total', 100),
+        Spec.lt('total', 500),
+        Spec.like('customer.name', 'A%'),
+      ),
+    );
+
+    expect(where).toEqual([
+      {
+        status: Equal('open'),
+        total: And(MoreThanOrEqual(100), LessThan(500)),
+        customer: { name: Like('A%') },
+      },
+    ]);
+  });
+
+  it('distributes OR and pushes NOT down to the fields', () => {
+    const where = specificationToFindOptions(
+      and(
+        or(Spec.eq('status', 'open'), Spec.eq('status', 'shipped')),
+        not(or(Spec.isNull('total'), Spec.in('total', [0]))),
+      ),
+      { fieldMap: { status: 'state' } },
+    );
+
+    expect(where).toEqual([
+      { state: Equal('open'), total: And(Not(IsNull()), Not(In([0]))) },
+      { state: Equal('shipped'), total: And(Not(IsNull()), Not(In([0]))) },
+    ]);
+  });
+
+  it('matches nothing for an empty OR', () => {
+    expect(specificationToFindOptions(or())).toEqual([{ id: In([]) }]);
+  });
+
+  it('compiles to a parameterized SQL condition', () => {
+    const { sql, parameters } = specificationToSql(
+      or(
+        and(Spec.eq('status', 'open'), Spec.in('total', [1, 2])),
+        not(Spec.like('customer.name', 'A%')),
+      ),
+      'order',
+    );
+
+    const [first, second, third] = Object.keys(parameters);
+
+    expect(sql).toBe(
+      `((order.status = :${first} AND order.total IN (:...${second})) OR (NOT (customer.name LIKE :${third}) OR customer.name IS NULL))`,
+    );
+    expect(Object.values(parameters)).toEqual(['open', [1, 2], 'A%']);
+  });
+
+  it('gives each specification in one query its own parameter names', () => {
+    const parameters: Record<string, unknown> = {};
+    const queryBuilder = {
+      alias: 'order',
+      getParameters: () => parameters,
+      andWhere: jest.fn((_sql: string, added: Record<string, unknown>) => {
+        Object.assign(parameters, added);
+        return queryBuilder;
+      }),
+    } as unknown as SelectQueryBuilder<any>;
+
+    applySpecification(queryBuilder, Spec.eq('status', 'open'));
+    applySpecification(queryBuilder, Spec.eq('status', 'shipped'));
+
+    expect(parameters).toEqual({
+      order_spec0_0: 'open',
+      order_spec1_0: 'shipped',
+    });
+    expect(
+      specificationToSql(Spec.eq('status', 'open'), 'order', {}, 'mine')
+        .parameters,
+    ).toEqual({ mine_0: 'open' });
+  });
+
+  it('matches NULL fields in ne and negated comparisons, as in memory', () => {
+    const withoutStatus = {
+      props: { status: null, total: 10, customer: { name: 'Ann' } },
+    } as unknown as Order;
+    const rejectsNull = and(
+      Spec.eq('status', 'open'),
+      not(Spec.ne('total', 1)),
+    );
+    const acceptsNull = or(
+      Spec.ne('status', 'open'),
+      not(Spec.gt('status', 'a')),
+    );
+
+    expect(SpecificationTrait.isSatisfiedBy(acceptsNull)(withoutStatus)).toBe(
+      true,
+    );
+    expect(SpecificationTrait.isSatisfiedBy(rejectsNull)(withoutStatus)).toBe(
+      false,
+    );
+    expect(specificationToSql(acceptsNull, 'order').sql).toMatch(
+      /^\(\(order\.status <> :\w+ OR order\.status IS NULL\) OR \(NOT \(order\.status > :\w+\) OR order\.status IS NULL\)\)$/,
+    );
+    expect(specificationToSql(rejectsNull, 'order').sql).toMatch(
+      /^\(order\.status = :\w+ AND NOT \(order\.total <> :\w+\)\)$/,
+    );
+    expect(specificationToFindOptions(acceptsNull)).toEqual([
+      { status: Not(Equal('open')) },
+      { status: IsNull() },
+      { status: Not(MoreThan('a')) },
+      { status: IsNull() },
+    ]);
+    expect(
+      specificationToFindOptions(
+        and(Spec.ne('status', 'open'), not(Spec.isNull('status'))),
+      ),
+    ).toEqual([{ status: And(Not(Equal('open')), Not(IsNull())) }]);
+  });
+});
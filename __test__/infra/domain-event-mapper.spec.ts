@@ -0,0 +1,115 @@
+import { Effect, Either, Schema } from 'effect';
+import {
+  createEventUpcasterRegistry,
+  defineDomainEvent,
+  DomainEventTrait,
+  nestjs,
+} from 'src';
+
+class OrderPlacedEvent {
+  constructor(
+    readonly aggregateId: string,
+    readonly aggregateType: string,
+    readonly name: string,
+    readonly metadata: unknown,
+    readonly payload: unknown,
+  ) {}
+}
+
+const OrderPlaced = defineDomainEvent(
+  'OrderPlaced',
+  Schema.Struct({ orderId: Schema.String, currency: Schema.String }),
+  { version: 2 },
+);
+
+const mapperFor = (definition = OrderPlaced) => {
+  const mapper = nestjs.createDomainEventMapper({
+    OrderPlaced: OrderPlacedEvent,
+  });
+  mapper.registerEventDefinitions([definition]);
+  return mapper;
+};
+
+describe('DomainEventMapper', () => {
+  it('encodes and decodes registered events', async () => {
+    const mapper = mapperFor();
+    const event = OrderPlaced.create({
+      payload: { orderId: 'o-1', currency: 'EUR' },
+      correlationId: 'c-1',
+    });
+
+    const wire = await Effect.runPromise(mapper.encode(event));
+    const decoded = await Effect.runPromise(mapper.decode(wire));
+
+    expect(wire).toMatchObject({ name: 'OrderPlaced', version: 2 });
+    expect(decoded.payload).toEqual({ orderId: 'o-1', currency: 'EUR' });
+    expect(mapper.toNestEvent(event)).toBeInstanceOf(OrderPlacedEvent);
+  });
+
+  it('rejects events without a registered definition', async () => {
+    const mapper = mapperFor();
+
+    const result = await Effect.runPromise(
+      Effect.either(mapper.decode({ name: 'OrderShipped', payload: {} })),
+    );
+
+    expect(Either.isLeft(result) && result.left).toMatchObject({
+      code: 'UNKNOWN_DOMAIN_EVENT',
+    });
+  });
+
+  it('rejects events whose version differs from the definition', async () => {
+    const mapper = mapperFor();
+    const older = DomainEventTrait.create({
+      name: 'OrderPlaced',
+      payload: { orderId: 'o-1', currency: 'EUR' },
+      correlationId: 'c-1',
+      version: 1,
+    });
+
+    const encoded = await Effect.runPromise(
+      Effect.either(mapper.encode(older)),
+    );
+    const decoded = await Effect.runPromise(
+      Effect.either(mapper.decode({ ...older, getPayload: undefined })),
+    );
+
+    expect(Either.isLeft(encoded) && encoded.left).toMatchObject({
+      code: 'EVENT_VERSION_MISMATCH',
+    });
+    expect(Either.isLeft(decoded) && decoded.left).toMatchObject({
+      code: 'EVENT_VERSION_MISMATCH',
+    });
+    expect(() => mapper.toNestEvent(older)).toThrow(/version 1/);
+  });
+
+  it('accepts older versions the definition can upcast', async () => {
+    const mapper = mapperFor(
+      defineDomainEvent(
+        'OrderPlaced',
+        Schema.Struct({ orderId: Schema.String, currency: Schema.String }),
+        {
+          version: 2,
+          upcasters: createEventUpcasterRegistry().register(
+            'OrderPlaced',
+            1,
+            (payload: { orderId: string }) => ({ ...payload, currency: 'USD' }),
+          ),
+        },
+      ),
+    );
+    const older = DomainEventTrait.create({
+      name: 'OrderPlaced',
+      payload: { orderId: 'o-1' },
+      correlationId: 'c-1',
+      version: 1,
+    });
+
+    const decoded = await Effect.runPromise(
+      mapper.decode(JSON.parse(JSON.stringify(older))),
+    );
+
+    expect(decoded.version).toBe(2);
+    expect(decoded.payload).toEqual({ orderId: 'o-1', currency: 'USD' });
+  });
+});
@@ -0,0 +1,165 @@
+import { Effect, Schema, pipe } from 'effect';
+import {
+  AggregateRoot,
+  buildAggregateRoot,
+  buildEventSourcedAggregateRoot,
+  createAggregateRoot,
+  DomainEventTrait,
+  EventSourcedAggregateRoot,
+  IDomainEvent,
+  withAggregateCommand,
+  withEventHandler,
+  withInvariant,
+  withSchema,
+} from 'src';
+
+const CartSchema = Schema.Struct({
+  items: Schema.Array(Schema.String),
+  checkedOut: Schema.Boolean,
+});
+
+type CartProps = Schema.Schema.Type<typeof CartSchema>;
+type Cart = EventSourcedAggregateRoot<CartProps>;
+
+const addItem = (
+  item: string,
+  props: CartProps,
+  aggregate: AggregateRoot,
+  correlationId: string,
+) =>
+  Effect.succeed({
+    props,
+    domainEvents: [
+      DomainEventTrait.create({
+        name: 'ItemAdded',
+        payload: { item },
+        correlationId,
+        aggregate,
+      }),
+    ],
+  });
+
+const itemAdded = (
+  props: CartProps,
+  event: IDomainEvent<{ item: string }>,
+) => ({
+  ...props,
+  items: [...props.items, event.payload.item],
+});
+
+const CartTrait = pipe(
+  createAggregateRoot<Cart, CartProps>('Cart'),
+  withSchema(CartSchema),
+  withInvariant(
+    (props: CartProps) => props.items.length <= 2,
+    'Cart is full',
+    'CART_FULL',
+  ),
+  withAggregateCommand('addItem', addItem),
+  withEventHandler('ItemAdded', itemAdded),
+  withEventHandler('CheckedOut', (props: CartProps) => ({
+    ...props,
+    checkedOut: true,
+  })),
+  buildEventSourcedAggregateRoot,
+);
+
+describe('Aggregate builder event handlers', () => {
+  it('applies handlers for events emitted by commands', async () => {
+    const cart = await Effect.runPromise(
+      CartTrait.new({ items: [], checkedOut: false }),
+    );
+
+    const updated = await Effect.runPromise(CartTrait.addItem('apple')(cart));
+
+    expect(updated.props.items).toEqual(['apple']);
+    expect(updated.domainEvents).toHaveLength(1);
+    expect(updated.eventVersion).toBe(1);
+  });
+
+  it('applies an event once when the command also changed the props', async () => {
+    const EagerCartTrait = pipe(
+      createAggregateRoot<Cart, CartProps>('Cart'),
+      withSchema(CartSchema),
+      withAggregateCommand(
+        'addItem',
+        (item: string, props: CartProps, aggregate: Cart, correlationId) =>
+          addItem(
+            item,
+            { ...props, items: [...props.items, item] },
+            aggregate,
+            correlationId,
+          ),
+      ),
+      withEventHandler('ItemAdded', itemAdded),
+      buildEventSourcedAggregateRoot,
+    );
+    const cart = await Effect.runPromise(
+      EagerCartTrait.new({ items: [], checkedOut: false }),
+    );
+
+    const updated = await Effect.runPromise(
+      EagerCartTrait.addItem('apple')(cart),
+    );
+
+    expect(updated.props.items).toEqual(['apple']);
+  });
+
+  it('leaves plain builder aggregates to their command reducers', async () => {
+    const PlainCartTrait = pipe(
+      createAggregateRoot<AggregateRoot<CartProps>, CartProps>('Cart'),
+      withSchema(CartSchema),
+      withAggregateCommand('addItem', addItem),
+      withEventHandler('ItemAdded', itemAdded),
+      buildAggregateRoot,
+    );
+    const cart = await Effect.runPromise(
+      PlainCartTrait.new({ items: [], checkedOut: false }),
+    );
+
+    const updated = await Effect.runPromise(
+      PlainCartTrait.addItem('apple')(cart),
+    );
+
+    expect(updated.props.items).toEqual([]);
+    expect(updated.domainEvents).toHaveLength(1);
+    expect('replay' in PlainCartTrait).toBe(false);
+  });
+
+  it('validates the props produced by handlers', async () => {
+    const cart = await Effect.runPromise(
+      CartTrait.new({ items: ['a', 'b'], checkedOut: false }),
+    );
+
+    const result = await Effect.runPromise(
+      Effect.either(CartTrait.addItem('c')(cart)),
+    );
+
+    expect(result._tag).toBe('Left');
+  });
+
+  it('replays events through the same handlers', async () => {
+    const cart = await Effect.runPromise(
+      CartTrait.new({ items: [], checkedOut: false }),
+    );
+    const events = [
+      DomainEventTrait.create({
+        name: 'ItemAdded',
+        payload: { item: 'pear' },
+        correlationId: 'c-1',
+        aggregate: cart,
+      }),
+      DomainEventTrait.create({
+        name: 'CheckedOut',
+        payload: {},
+        correlationId: 'c-1',
+        aggregate: cart,
+      }),
+    ];
+
+    const replayed = CartTrait.replay(events)(cart);
+
+    expect(replayed.props).toEqual({ items: ['pear'], checkedOut: true });
+    expect(replayed.domainEvents).toHaveLength(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { Effect, Option, Schema } from 'effect';
+import {
+  CommandOf,
+  CommandTrait,
+  createCommandBus,
+  defineCommand,
+  defineQuery,
+  LifeCycleMetaMod,
+  ValidationException,
+} from 'src';
+
+const PlaceOrder = defineCommand(
+  'PlaceOrder',
+  Schema.Struct({
+    sku: Schema.NonEmptyString,
+    quantity: Schema.Int.pipe(Schema.positive()),
+    placedAt: Schema.DateFromString,
+  }),
+);
+
+const GetOrder = defineQuery(
+  'GetOrder',
+  Schema.Struct({ orderId: Schema.NumberFromString }),
+);
+
+describe('defineCommand / defineQuery', () => {
+  it('decodes input into a command carrying the lifecycle', async () => {
+    const lifecycle = LifeCycleMetaMod.factory(
+      Option.some('c-1'),
+      Option.none(),
+    );
+
+    const command = await Effect.runPromise(
+      PlaceOrder.decode(
+        { sku: 'A-1', quantity: 2, placedAt: '2024-01-01T00:00:00.000Z' },
+        Option.some(lifecycle),
+      ),
+    );
+
+    expect(command.props).toEqual({
+      sku: 'A-1',
+      quantity: 2,
+      placedAt: new Date('2024-01-01T00:00:00.000Z'),
+    });
+    expect(CommandTrait.correlationId(command)).toBe('c-1');
+  });
+
+  it('gives made and decoded commands a fresh lifecycle by default', async () => {
+    const input = { sku: 'A-1', quantity: 2, placedAt: '2024-01-01' };
+
+    const first = await Effect.runPromise(PlaceOrder.decode(input));
+    const second = await Effect.runPromise(PlaceOrder.decode(input));
+    const made = PlaceOrder.make(first.props);
+
+    for (const command of [first, made]) {
+      expect(command.lifecycle).toEqual({
+        createdTimestamp: expect.any(Number),
+        correlationId: expect.any(String),
+        context: {},
+      });
+    }
+    expect(
+      new Set([first, second, made].map(CommandTrait.correlationId)).size,
+    ).toBe(3);
+  });
+
+  it('reports every invalid field', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(PlaceOrder.decode({ sku: '', quantity: 0 })),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      const error = result.left as ValidationException;
+      expect(error.code).toBe('INVALID_COMMAND');
+      expect(
+        error.content?.parseError.map((issue: { path: string[] }) =>
+          issue.path.join('.'),
+        ),
+      ).toEqual(['sku', 'quantity', 'placedAt']);
+    }
+  });
+
+  it('decodes queries', async () => {
+    const query = await Effect.runPromise(GetOrder.decode({ orderId: '42' }));
+    const invalid = await Effect.runPromise(
+      Effect.either(GetOrder.decode({ orderId: 'x' })),
+    );
+
+    expect(query.props).toEqual({ orderId: 42 });
+    expect(invalid._tag).toBe('Left');
+    if (invalid._tag === 'Left') {
+      expect(invalid.left).toMatchObject({ code: 'INVALID_QUERY' });
+    }
+  });
+
+  it('registers handlers under the definition tag', async () => {
+    const bus = createCommandBus({
+      [PlaceOrder.tag]: (command: CommandOf<typeof PlaceOrder>) =>
+        Effect.succeed(command.props.quantity),
+    });
+
+    const quantity = await Effect.runPromise(
+      bus.execute(
+        PlaceOrder.tag,
+        PlaceOrder.make({ sku: 'A-1', quantity: 3, placedAt: new Date() }),
+      ),
+    );
+
+    expect(quantity).toBe(3);
+  });
+});
@@ -0,0 +1,125 @@
+import { Effect, Schema } from 'effect';
+import {
+  createEventUpcasterRegistry,
+  defineDomainEvent,
+  DomainEventTrait,
+} from 'src';
+
+const OrderPlaced = defineDomainEvent(
+  'OrderPlaced',
+  Schema.Struct({
+    orderId: Schema.String,
+    placedAt: Schema.DateFromString,
+  }),
+);
+
+describe('defineDomainEvent', () => {
+  it('creates typed events with the definition name and version', () => {
+    const placedAt = new Date('2024-01-01T00:00:00.000Z');
+    const event = OrderPlaced.create({
+      payload: { orderId: 'o-1', placedAt },
+      correlationId: 'c-1',
+    });
+
+    expect(event.name).toBe('OrderPlaced');
+    expect(event.version).toBe(1);
+    expect(event.getPayload().placedAt).toBe(placedAt);
+  });
+
+  it('guards on name and payload shape', () => {
+    const valid = OrderPlaced.create({
+      payload: { orderId: 'o-1', placedAt: new Date() },
+      correlationId: 'c-1',
+    });
+    const wrongPayload = DomainEventTrait.create({
+      name: 'OrderPlaced',
+      payload: { orderId: 1 },
+      correlationId: 'c-1',
+    });
+    const otherEvent = DomainEventTrait.create({
+      name: 'OrderShipped',
+      payload: valid.payload,
+      correlationId: 'c-1',
+    });
+
+    expect(OrderPlaced.is(valid)).toBe(true);
+    expect(OrderPlaced.is(wrongPayload)).toBe(false);
+    expect(OrderPlaced.is(otherEvent)).toBe(false);
+  });
+
+  it('round-trips through the wire format', async () => {
+    const event = OrderPlaced.create({
+      payload: {
+        orderId: 'o-1',
+        placedAt: new Date('2024-01-01T00:00:00.000Z'),
+      },
+      correlationId: 'c-1',
+    });
+
+    const wire = await Effect.runPromise(OrderPlaced.encode(event));
+    expect(wire.payload.placedAt).toBe('2024-01-01T00:00:00.000Z');
+
+    const decoded = await Effect.runPromise(
+      OrderPlaced.decode(JSON.parse(JSON.stringify(wire))),
+    );
+    expect(decoded.id).toBe(event.id);
+    expect(decoded.payload.placedAt).toEqual(event.payload.placedAt);
+    expect(decoded.getPayload()).toEqual(decoded.payload);
+  });
+
+  it('rejects invalid payloads and foreign event names', async () => {
+    const event = OrderPlaced.create({
+      payload: { orderId: 'o-1', placedAt: new Date() },
+      correlationId: 'c-1',
+    });
+    const wire = await Effect.runPromise(OrderPlaced.encode(event));
+
+    const invalid = await Effect.runPromise(
+      Effect.either(
+        OrderPlaced.decode({ ...wire, payload: { orderId: 'o-1' } }),
+      ),
+    );
+    const foreign = await Effect.runPromise(
+      Effect.either(OrderPlaced.decode({ ...wire, name: 'OrderShipped' })),
+    );
+
+    expect(invalid._tag).toBe('Left');
+    if (invalid._tag === 'Left') {
+      expect(invalid.left.code).toBe('INVALID_DOMAIN_EVENT');
+    }
+    expect(foreign._tag).toBe('Left');
+  });
+
+  it('upcasts older wire versions before validating', async () => {
+    const OrderPlacedV2 = defineDomainEvent(
+      'OrderPlaced',
+      Schema.Struct({ orderId: Schema.String, currency: Schema.String }),
+      {
+        version: 2,
+        upcasters: createEventUpcasterRegistry().register(
+          'OrderPlaced',
+          1,
+          (payload) => ({ ...payload, currency: 'USD' }),
+        ),
+      },
+    );
+    const v1 = {
+      id: 'e-1',
+      name: 'OrderPlaced',
+      version: 1,
+      metadata: { timestamp: 0, correlationId: 'c-1' },
+      payload: { orderId: 'o-1' },
+    };
+
+    const { version, ...legacy } = v1;
+
+    const decoded = await Effect.runPromise(OrderPlacedV2.decode(v1));
+    const decodedLegacy = await Effect.runPromise(OrderPlacedV2.decode(legacy));
+
+    expect(decoded.version).toBe(2);
+    expect(decoded.payload).toEqual({ orderId: 'o-1', currency: 'USD' });
+    expect(version).toBe(1);
+    expect(decodedLegacy.version).toBe(2);
+    expect(decodedLegacy.payload).toEqual(decoded.payload);
+  });
+});
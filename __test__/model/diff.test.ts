@@ -0,0 +1,123 @@
+import { Effect, Option, pipe, Schema } from 'effect';
+import {
+  AggregateRoot,
+  buildAggregateRoot,
+  createAggregateRoot,
+  DiffTrait,
+  Entity,
+  ValueObject,
+  withAggregateCommand,
+  withSchema,
+} from 'src';
+
+const address = (city: string): ValueObject<{ city: string; zip: string }> => ({
+  _tag: 'Address',
+  props: { city, zip: '75001' },
+  createdAt: new Date(),
+});
+
+const line = (
+  id: string,
+  quantity: number,
+): Entity<{ sku: string; quantity: number }> => ({
+  _tag: 'OrderLine',
+  id,
+  props: { sku: `sku-${id}`, quantity },
+  createdAt: new Date(),
+  updatedAt: Option.none(),
+  version: 0,
+});
+
+describe('Props diff', () => {
+  it('reports nothing for equal props built at different times', () => {
+    const props = () => ({
+      address: address('Paris'),
+      note: Option.some('fragile'),
+      lines: [line('l-1', 1)],
+      placedAt: new Date(0),
+    });
+
+    expect(DiffTrait.diff(props(), props())).toEqual([]);
+  });
+
+  it('goes through value objects, child entities and options', () => {
+    const changes = DiffTrait.diff(
+      {
+        address: address('Paris'),
+        note: Option.some('fragile'),
+        coupon: Option.none(),
+        lines: [line('l-1', 1), line('l-2', 1)],
+      },
+      {
+        address: address('Lyon'),
+        note: Option.some('handle with care'),
+        coupon: Option.some('WELCOME'),
+        lines: [line('l-3', 1), line('l-1', 2)],
+      },
+    );
+
+    expect(changes).toEqual([
+      {
+        _tag: 'Changed',
+        path: ['address', 'city'],
+        before: 'Paris',
+        after: 'Lyon',
+      },
+      {
+        _tag: 'Changed',
+        path: ['note'],
+        before: 'fragile',
+        after: 'handle with care',
+      },
+      {
+        _tag: 'Changed',
+        path: ['coupon'],
+        before: Option.none(),
+        after: Option.some('WELCOME'),
+      },
+      {
+        _tag: 'Removed',
+        path: ['lines', 'l-2'],
+        before: expect.objectContaining({ id: 'l-2' }),
+      },
+      {
+        _tag: 'Added',
+        path: ['lines', 'l-3'],
+        after: expect.objectContaining({ id: 'l-3' }),
+      },
+      {
+        _tag: 'Changed',
+        path: ['lines', 'l-1', 'quantity'],
+        before: 1,
+        after: 2,
+      },
+    ]);
+    expect(DiffTrait.changedProps(changes)).toEqual([
+      'address',
+      'note',
+      'coupon',
+      'lines',
+    ]);
+  });
+
+  it('keeps updatedAt when a command changes nothing', async () => {
+    const CounterSchema = Schema.Struct({ value: Schema.Number });
+    type Counter = AggregateRoot<Schema.Schema.Type<typeof CounterSchema>>;
+    const CounterTrait = pipe(
+      createAggregateRoot<Counter, Counter['props']>('Counter'),
+      withSchema(CounterSchema),
+      withAggregateCommand('set', (value: number, props: Counter['props']) =>
+        Effect.succeed({ props: { ...props, value }, domainEvents: [] }),
+      ),
+      buildAggregateRoot,
+    );
+    const counter = await Effect.runPromise(CounterTrait.new({ value: 1 }));
+
+    const unchanged = await Effect.runPromise(CounterTrait.set(1)(counter));
+    const changed = await Effect.runPromise(CounterTrait.set(2)(counter));
+
+    expect(unchanged.updatedAt).toEqual(counter.updatedAt);
+    expect(Option.isSome(changed.updatedAt)).toBe(true);
+    expect(changed.updatedAt).not.toEqual(counter.updatedAt);
+  });
+});
@@ -0,0 +1,176 @@
+import { Effect, Schema } from 'effect';
+import {
+  AggGenericTrait,
+  createEventUpcasterRegistry,
+  DomainEventTrait,
+  EventAppliers,
+  EventSourcedAggregateRoot,
+  IDomainEvent,
+  ValidationException,
+} from 'src';
+
+const CounterSchema = Schema.Struct({
+  value: Schema.Number,
+});
+
+type CounterProps = Schema.Schema.Type<typeof CounterSchema>;
+type Counter = EventSourcedAggregateRoot<CounterProps>;
+
+const appliers: EventAppliers<Counter> = {
+  Incremented: (props, event: IDomainEvent<{ by: number }>) => ({
+    value: props.value + event.payload.by,
+  }),
+  Reset: () => ({ value: 0 }),
+};
+
+const CounterTrait = AggGenericTrait.createEventSourcedAggregateRootTrait<
+  Counter,
+  CounterProps,
+  CounterProps
+>(
+  (raw) => Schema.decodeUnknown(CounterSchema)(raw),
+  'Counter',
+  appliers,
+  { autoGenId: true },
+  [
+    (props) =>
+      props.value > 10
+        ? Effect.fail(ValidationException.new('TOO_BIG', 'Counter too big'))
+        : Effect.succeed(props),
+  ],
+);
+
+const increment = CounterTrait.asCommand(
+  (by: number, props, aggregate, correlationId) =>
+    Effect.succeed({
+      props,
+      domainEvents: [
+        DomainEventTrait.create({
+          name: 'Incremented',
+          payload: { by },
+          correlationId,
+          aggregate,
+        }),
+      ],
+    }),
+);
+
+const touch = CounterTrait.asCommand((_: void, props) =>
+  Effect.succeed({ props: { value: props.value + 1 }, domainEvents: [] }),
+);
+
+describe('Event-sourced aggregate trait', () => {
+  it('folds emitted events into props and bumps the version', async () => {
+    const counter = await Effect.runPromise(CounterTrait.new({ value: 0 }));
+    expect(counter.version).toBe(0);
+
+    const once = await Effect.runPromise(increment(2)(counter));
+    const twice = await Effect.runPromise(increment(3)(once));
+
+    expect(twice.props.value).toBe(5);
+    expect(twice.version).toBe(2);
+    expect(twice.eventVersion).toBe(2);
+    expect(twice.domainEvents.map((e) => e.name)).toEqual([
+      'Incremented',
+      'Incremented',
+    ]);
+  });
+
+  it('moves the version, not the event version, on commands without events', async () => {
+    const counter = await Effect.runPromise(CounterTrait.new({ value: 0 }));
+    const touched = await Effect.runPromise(touch(undefined)(counter));
+
+    expect(touched.version).toBe(1);
+    expect(touched.eventVersion).toBe(0);
+    expect(touched.persistedVersion).toBe(0);
+  });
+
+  it('runs validators on the folded props', async () => {
+    const counter = await Effect.runPromise(CounterTrait.new({ value: 0 }));
+    const result = await Effect.runPromise(
+      Effect.either(increment(11)(counter)),
+    );
+
+    expect(result._tag).toBe('Left');
+  });
+
+  it('rehydrates an aggregate from its history', async () => {
+    const counter = await Effect.runPromise(CounterTrait.new({ value: 0 }));
+    const updated = await Effect.runPromise(
+      increment(4)(counter).pipe(Effect.flatMap(increment(1))),
+    );
+    const history = [
+      ...updated.domainEvents,
+      DomainEventTrait.create({
+        name: 'Reset',
+        payload: {},
+        correlationId: 'c-1',
+        aggregate: updated,
+      }),
+      DomainEventTrait.create({
+        name: 'Renamed',
+        payload: {},
+        correlationId: 'c-1',
+        aggregate: updated,
+      }),
+    ];
+
+    const rebuilt = await Effect.runPromise(
+      CounterTrait.rehydrate(history.slice(0, 2), { value: 0 }),
+    );
+    expect(rebuilt.id).toBe(counter.id);
+    expect(rebuilt.props.value).toBe(5);
+    expect(rebuilt.version).toBe(2);
+    expect(rebuilt.eventVersion).toBe(2);
+    expect(rebuilt.domainEvents).toHaveLength(0);
+
+    const replayed = CounterTrait.replay(history.slice(2))(rebuilt);
+    expect(replayed.props.value).toBe(0);
+    expect(replayed.version).toBe(4);
+  });
+
+  it('upcasts stored events before replaying them', async () => {
+    const UpcastingCounterTrait =
+      AggGenericTrait.createEventSourcedAggregateRootTrait<
+        Counter,
+        CounterProps,
+        CounterProps
+      >(
+        (raw) => Schema.decodeUnknown(CounterSchema)(raw),
+        'Counter',
+        appliers,
+        {
+          autoGenId: true,
+          upcasters: createEventUpcasterRegistry().register(
+            'Incremented',
+            1,
+            (payload: { amount: number }) => ({ by: payload.amount }),
+          ),
+        },
+      );
+    const counter = await Effect.runPromise(CounterTrait.new({ value: 0 }));
+    const legacy = {
+      ...DomainEventTrait.create({
+        name: 'Incremented',
+        payload: { amount: 3 },
+        correlationId: 'c-1',
+        aggregate: counter,
+      }),
+      version: undefined,
+    } as unknown as IDomainEvent;
+
+    const rebuilt = await Effect.runPromise(
+      UpcastingCounterTrait.rehydrate([legacy], { value: 0 }),
+    );
+
+    expect(rebuilt.props.value).toBe(3);
+  });
+
+  it('fails to rehydrate without events', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(CounterTrait.rehydrate([], { value: 0 })),
+    );
+
+    expect(result._tag).toBe('Left');
+  });
+});
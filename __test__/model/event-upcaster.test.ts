@@ -0,0 +1,97 @@
+import { Effect } from 'effect';
+import {
+  createEventUpcasterRegistry,
+  DomainEventTrait,
+  IDomainEvent,
+} from 'src';
+import { MockDomainEventRepository } from '@model/implementations/domain-event-repository.mock';
+
+const orderPlaced = (payload: unknown, version?: number) =>
+  DomainEventTrait.create({
+    name: 'OrderPlaced',
+    payload,
+    correlationId: 'c-1',
+    version,
+  });
+
+describe('Domain event identity and upcasting', () => {
+  it('gives every event a unique id and a default version', () => {
+    const first = orderPlaced({ total: 1 });
+    const second = orderPlaced({ total: 1 });
+
+    expect(first.id).toEqual(expect.any(String));
+    expect(first.id).not.toBe(second.id);
+    expect(first.version).toBe(1);
+  });
+
+  it('keeps events with the same name and timestamp apart', async () => {
+    const repository = new MockDomainEventRepository();
+    const first = orderPlaced({ total: 1 });
+    const second = { ...first, id: 'other-id' };
+
+    await Effect.runPromise(repository.save(first));
+    await Effect.runPromise(repository.save(second));
+    await Effect.runPromise(repository.markAsHandled(first.id));
+
+    const unhandled = await Effect.runPromise(repository.getUnhandledEvents());
+    expect(unhandled.map((e) => e.id)).toEqual(['other-id']);
+  });
+
+  it('migrates old payloads step by step to the latest version', () => {
+    const upcasters = createEventUpcasterRegistry()
+      .register('OrderPlaced', 1, (payload: { total: number }) => ({
+        ...payload,
+        currency: 'USD',
+      }))
+      .register(
+        'OrderPlaced',
+        2,
+        ({ total, ...payload }: { total: number; currency: string }) => ({
+          ...payload,
+          amount: total,
+        }),
+      );
+
+    const upcasted = upcasters.upcast(orderPlaced({ total: 10 }));
+
+    expect(upcasters.latestVersion('OrderPlaced')).toBe(3);
+    expect(upcasted.version).toBe(3);
+    expect(upcasted.payload).toEqual({ currency: 'USD', amount: 10 });
+    expect(upcasted.getPayload()).toEqual(upcasted.payload);
+  });
+
+  it('takes events stored without a version as version 1', () => {
+    const upcasters = createEventUpcasterRegistry().register(
+      'OrderPlaced',
+      1,
+      (payload: { total: number }) => ({ amount: payload.total }),
+    );
+    const legacy = {
+      ...orderPlaced({ total: 10 }),
+      version: undefined,
+    } as unknown as IDomainEvent;
+
+    const upcasted = upcasters.upcast(legacy);
+
+    expect(upcasted.version).toBe(2);
+    expect(upcasted.payload).toEqual({ amount: 10 });
+  });
+
+  it('leaves current and unknown events untouched', () => {
+    const upcasters = createEventUpcasterRegistry().register(
+      'OrderPlaced',
+      1,
+      (payload) => payload,
+    );
+    const current = orderPlaced({ amount: 1 }, 2);
+    const other = DomainEventTrait.create({
+      name: 'OrderShipped',
+      payload: {},
+      correlationId: 'c-1',
+    });
+
+    expect(upcasters.upcast(current)).toBe(current);
+    expect(upcasters.upcast(other)).toBe(other);
+    expect(upcasters.latestVersion('OrderShipped')).toBe(1);
+  });
+});
@@ -0,0 +1,198 @@
+import { Duration, Effect, Option, pipe } from 'effect';
+import {
+  Command,
+  CommandTrait,
+  ConcurrencyException,
+  createCommandBus,
+  idempotencyMiddleware,
+  LifeCycleMetaMod,
+  ValidationException,
+} from 'src';
+import { MockKeyValueRepository } from '../pubsub/mock/key-value-repository.mock';
+
+type PlaceOrder = Command<{ sku: string }>;
+
+const placeOrder = (
+  sku: string,
+  idempotencyKey?: string,
+  tenantId?: string,
+) => {
+  const lifecycle = LifeCycleMetaMod.factory(
+    Option.none(),
+    Option.some({ tenantId }),
+  );
+  return CommandTrait.factory<PlaceOrder>({
+    lifecycle: Option.some(
+      idempotencyKey === undefined
+        ? lifecycle
+        : pipe(lifecycle, LifeCycleMetaMod.withIdempotencyKey(idempotencyKey)),
+    ),
+    props: { sku },
+  });
+};
+
+const setup = (
+  handler: (command: PlaceOrder) => Effect.Effect<unknown, any>,
+  store = new MockKeyValueRepository(),
+  lockTtl: Duration.DurationInput = '30 seconds',
+) => {
+  let runs = 0;
+  const bus = createCommandBus(
+    {
+      PlaceOrder: (command: PlaceOrder) =>
+        Effect.suspend(() => {
+          runs += 1;
+          return handler(command);
+        }),
+    },
+    {
+      middleware: [
+        idempotencyMiddleware(store, { pollInterval: '5 millis', lockTtl }),
+      ],
+    },
+  );
+  return { bus, store, runs: () => runs };
+};
+
+describe('Idempotency middleware', () => {
+  it('returns the stored result for a duplicate key', async () => {
+    const { bus, runs } = setup((command) =>
+      Effect.succeed({ orderId: `order-${command.props.sku}` }),
+    );
+
+    const first = await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder('a', 'key-1')),
+    );
+    const duplicate = await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder('a', 'key-1')),
+    );
+
+    expect(first).toEqual({ orderId: 'order-a' });
+    expect(duplicate).toEqual({ orderId: 'order-a' });
+    expect(runs()).toBe(1);
+  });
+
+  it('replays stored failures', async () => {
+    const { bus, runs } = setup(() =>
+      Effect.fail(ValidationException.new('OUT_OF_STOCK', 'No stock left')),
+    );
+
+    await Effect.runPromise(
+      Effect.either(bus.execute('PlaceOrder', placeOrder('a', 'key-1'))),
+    );
+    const duplicate = await Effect.runPromise(
+      Effect.either(bus.execute('PlaceOrder', placeOrder('a', 'key-1'))),
+    );
+
+    expect(runs()).toBe(1);
+    expect(duplicate._tag).toBe('Left');
+    if (duplicate._tag === 'Left') {
+      expect(duplicate.left).toBeInstanceOf(ValidationException);
+      expect(duplicate.left).toMatchObject({ code: 'OUT_OF_STOCK' });
+    }
+  });
+
+  it('does not remember concurrency conflicts', async () => {
+    const { bus, runs } = setup(() =>
+      Effect.fail(ConcurrencyException.new('VERSION_CONFLICT', 'Conflict')),
+    );
+
+    await Effect.runPromise(
+      Effect.either(bus.execute('PlaceOrder', placeOrder('a', 'key-1'))),
+    );
+    await Effect.runPromise(
+      Effect.either(bus.execute('PlaceOrder', placeOrder('a', 'key-1'))),
+    );
+
+    expect(runs()).toBe(2);
+  });
+
+  it('makes concurrent duplicates wait for the first run', async () => {
+    const { bus, store, runs } = setup((command) =>
+      Effect.as(Effect.sleep('30 millis'), command.props.sku),
+    );
+
+    const results = await Effect.runPromise(
+      Effect.all(
+        [
+          bus.execute('PlaceOrder', placeOrder('a', 'key-1')),
+          bus.execute('PlaceOrder', placeOrder('a', 'key-1')),
+        ],
+        { concurrency: 'unbounded' },
+      ),
+    );
+
+    expect(results).toEqual(['a', 'a']);
+    expect(runs()).toBe(1);
+    expect(Object.keys(store.dict)).toEqual(['idempotency:PlaceOrder:::key-1']);
+  });
+
+  it('scopes keys by tenant', async () => {
+    const { bus, runs } = setup((command) => Effect.succeed(command.props.sku));
+
+    await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder('a', 'key-1', 't-1')),
+    );
+    const other = await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder('b', 'key-1', 't-2')),
+    );
+
+    expect(other).toBe('b');
+    expect(runs()).toBe(2);
+  });
+
+  it('checks for an outcome again once the lock is taken', async () => {
+    // The first run finishes and releases between the read and the lock
+    class LateStore extends MockKeyValueRepository {
+      public acquireLock(key: string, owner: string): Promise<boolean> {
+        this.dict['idempotency:PlaceOrder:::key-1'] = JSON.stringify({
+          _tag: 'Success',
+          value: 'first',
+        });
+        return super.acquireLock(key, owner);
+      }
+    }
+    const { bus, store, runs } = setup(
+      () => Effect.succeed('second'),
+      new LateStore(),
+    );
+
+    const result = await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder('a', 'key-1')),
+    );
+
+    expect(result).toBe('first');
+    expect(runs()).toBe(0);
+    expect(Object.keys(store.dict)).toEqual(['idempotency:PlaceOrder:::key-1']);
+  });
+
+  it('renews the lock while the command runs and releases only its own', async () => {
+    const store = new MockKeyValueRepository();
+    const renew = jest.spyOn(store, 'extendLock');
+    const { bus } = setup(
+      () =>
+        Effect.sync(() => {
+          // Another owner took over after the lock expired
+          store.dict['idempotency:PlaceOrder:::key-1:lock'] = 'other';
+        }).pipe(Effect.zipRight(Effect.sleep('40 millis'))),
+      store,
+      '30 millis',
+    );
+
+    await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder('a', 'key-1')),
+    );
+
+    expect(renew).toHaveBeenCalled();
+    expect(store.dict['idempotency:PlaceOrder:::key-1:lock']).toBe('other');
+  });
+
+  it('runs commands without a key every time', async () => {
+    const { bus, runs } = setup(() => Effect.succeed('ok'));
+
+    await Effect.runPromise(bus.execute('PlaceOrder', placeOrder('a')));
+    await Effect.runPromise(bus.execute('PlaceOrder', placeOrder('a')));
+
+    expect(runs()).toBe(2);
+  });
+});
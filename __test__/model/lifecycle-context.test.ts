@@ -0,0 +1,105 @@
+import { Effect, Option } from 'effect';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  Command,
+  CommandTrait,
+  DomainEventTrait,
+  LifeCycleMetaMod,
+} from 'src';
+
+type CounterProps = { count: number };
+type Counter = AggregateRoot<CounterProps>;
+
+const CounterTrait = AggGenericTrait.createAggregateRootTrait<
+  Counter,
+  CounterProps,
+  CounterProps
+>((raw) => Effect.succeed({ count: raw.count }), 'Counter');
+
+const increment = CounterTrait.asCommand<number>(
+  (by, props, aggregate, _correlationId, context) =>
+    Effect.succeed({
+      props: { count: props.count + by },
+      domainEvents: [
+        DomainEventTrait.create({
+          ...context,
+          name: 'CounterIncremented',
+          payload: { by },
+          aggregate,
+        }),
+      ],
+    }),
+);
+
+const counter = Effect.runSync(
+  CounterTrait.parse({
+    id: 'counter-1',
+    count: 0,
+    createdAt: Option.none(),
+    updatedAt: Option.none(),
+  }),
+);
+
+describe('Lifecycle context', () => {
+  it('flows from the command lifecycle into event metadata', async () => {
+    const command = CommandTrait.factory<Command<{ by: number }>>({
+      lifecycle: Option.some(
+        LifeCycleMetaMod.factory(
+          Option.some('c-1'),
+          Option.some({
+            causationId: 'e-0',
+            userId: 'u-1',
+            tenantId: 't-1',
+            traceparent:
+              '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+          }),
+        ),
+      ),
+      props: { by: 2 },
+    });
+
+    const updated = await Effect.runPromise(
+      increment(command.props.by)(
+        counter,
+        CommandTrait.correlationContext(command),
+      ),
+    );
+
+    expect(updated.props.count).toBe(2);
+    expect(updated.domainEvents[0].metadata).toMatchObject({
+      correlationId: 'c-1',
+      causationId: 'e-0',
+      userId: 'u-1',
+      tenantId: 't-1',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    });
+  });
+
+  it('still accepts a bare correlation id', async () => {
+    const updated = await Effect.runPromise(increment(1)(counter, 'c-2'));
+
+    expect(updated.domainEvents[0].metadata.correlationId).toBe('c-2');
+    expect(updated.domainEvents[0].metadata.tenantId).toBeUndefined();
+  });
+
+  it('chains causation from an event to the next command', () => {
+    const event = DomainEventTrait.create({
+      correlationId: 'c-3',
+      userId: 'u-1',
+      tenantId: 't-1',
+      name: 'CounterIncremented',
+      payload: { by: 1 },
+    });
+
+    const lifecycle = LifeCycleMetaMod.causedBy(event);
+
+    expect(lifecycle.correlationId).toBe('c-3');
+    expect(lifecycle.context).toEqual({
+      causationId: event.id,
+      userId: 'u-1',
+      tenantId: 't-1',
+      traceparent: undefined,
+    });
+  });
+});
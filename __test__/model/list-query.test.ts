@@ -0,0 +1,99 @@
+import { Effect, Schema } from 'effect';
+import { AggregateRoot, defineListQuery, SpecificationTrait } from 'src';
+import {
+  orderByToFindOptions,
+  specificationToFindOptions,
+} from 'src/ports/database/typeorm/specification.compiler';
+import { Equal, In, MoreThanOrEqual } from 'typeorm';
+
+const OrderSchema = Schema.Struct({
+  status: Schema.Literal('open', 'shipped', 'cancelled'),
+  total: Schema.Number,
+  customer: Schema.Struct({ name: Schema.String }),
+  secret: Schema.String,
+});
+
+type Order = AggregateRoot<Schema.Schema.Type<typeof OrderSchema>>;
+
+const OrderListQuery = defineListQuery<Order>(OrderSchema, {
+  filter: { status: true, total: true, 'customer.name': true, createdAt: true },
+  sort: ['total', 'createdAt'],
+  defaultSort: { createdAt: 'DESC' },
+});
+
+const parse = (input: Parameters<typeof OrderListQuery.parse>[0]) =>
+  Effect.runPromise(Effect.either(OrderListQuery.parse(input)));
+
+describe('List query DSL', () => {
+  it('decodes query-string filters against the props schema', async () => {
+    const result = await Effect.runPromise(
+      OrderListQuery.parse({
+        filter: {
+          status: { in: 'open,shipped' },
+          total: { gte: '100' },
+          'customer.name': { like: 'A%' },
+        },
+        sort: '-total,createdAt',
+      }),
+    );
+
+    expect(result.orderBy).toEqual({ total: 'DESC', createdAt: 'ASC' });
+    expect(specificationToFindOptions(result.filter)).toEqual([
+      {
+        status: In(['open', 'shipped']),
+        total: MoreThanOrEqual(100),
+        customer: { name: expect.objectContaining({ type: 'like' }) },
+      },
+    ]);
+  });
+
+  it('treats plain values as equality and falls back to the default sort', async () => {
+    const result = await Effect.runPromise(
+      OrderListQuery.parse({
+        filter: { status: 'open', createdAt: { lt: '2024-01-01T00:00:00Z' } },
+      }),
+    );
+    const order = {
+      props: { status: 'open' },
+      createdAt: new Date('2023-06-01T00:00:00Z'),
+    } as unknown as Order;
+
+    expect(result.orderBy).toEqual({ createdAt: 'DESC' });
+    expect(SpecificationTrait.isSatisfiedBy(result.filter)(order)).toBe(true);
+    expect(specificationToFindOptions(result.filter)[0].status).toEqual(
+      Equal('open'),
+    );
+  });
+
+  it('rejects fields, operators and values outside the whitelist', async () => {
+    const unknownField = await parse({ filter: { secret: 'x' } });
+    const unknownSort = await parse({ sort: 'secret' });
+    const badValue = await parse({ filter: { status: 'lost' } });
+    const badOperator = await parse({ filter: { total: { between: 1 } } });
+    const badDirection = await parse({ sort: { total: 'sideways' } });
+
+    const codes = [
+      unknownField,
+      unknownSort,
+      badValue,
+      badOperator,
+      badDirection,
+    ].map((result) => (result._tag === 'Left' ? result.left.code : 'none'));
+    expect(codes).toEqual([
+      'INVALID_FILTER_FIELD',
+      'INVALID_SORT_FIELD',
+      'INVALID_FILTER_VALUE',
+      'INVALID_FILTER_VALUE',
+      'INVALID_SORT_DIRECTION',
+    ]);
+  });
+
+  it('maps sort fields to nested TypeORM order', () => {
+    expect(
+      orderByToFindOptions<any>(
+        { 'customer.name': 'ASC', total: 'DESC' },
+        { fieldMap: { total: 'amount' } },
+      ),
+    ).toEqual({ customer: { name: 'ASC' }, amount: 'DESC' });
+  });
+});
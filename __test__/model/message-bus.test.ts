@@ -0,0 +1,156 @@
+import { Context, Effect, Option } from 'effect';
+import {
+  BusMiddleware,
+  Command,
+  CommandBus,
+  CommandTrait,
+  ConcurrencyException,
+  createCommandBus,
+  createCommandBusLayer,
+  createQueryBus,
+  OperationException,
+  Query,
+  QueryBus,
+  QueryTrait,
+  retryMiddleware,
+  ValidationException,
+} from 'src';
+
+type PlaceOrder = Command<{ sku: string; quantity: number }>;
+type GetOrder = Query<{ orderId: string }>;
+
+const placeOrder = (props: PlaceOrder['props']) =>
+  CommandTrait.factory<PlaceOrder>({ lifecycle: Option.none(), props });
+
+const handlers = {
+  PlaceOrder: (command: PlaceOrder) =>
+    Effect.succeed(`order-${command.props.sku}`),
+};
+
+describe('Message bus', () => {
+  it('dispatches commands and queries to the handler of their tag', async () => {
+    const commandBus = createCommandBus(handlers);
+    const queryBus = createQueryBus({
+      GetOrder: (query: GetOrder) =>
+        Effect.succeed({ id: query.props.orderId }),
+    });
+
+    const orderId = await Effect.runPromise(
+      commandBus.execute('PlaceOrder', placeOrder({ sku: 'a', quantity: 1 })),
+    );
+    const order = await Effect.runPromise(
+      queryBus.execute(
+        'GetOrder',
+        QueryTrait.factory<GetOrder>({ orderId: 'o-1' }),
+      ),
+    );
+
+    expect(orderId).toBe('order-a');
+    expect(order).toEqual({ id: 'o-1' });
+  });
+
+  it('fails for an unregistered tag', async () => {
+    const bus: CommandBus = createCommandBus(handlers);
+    const queryBus: QueryBus = createQueryBus({});
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        bus.execute('toString', placeOrder({ sku: 'a', quantity: 1 })),
+      ),
+    );
+    const query = await Effect.runPromise(
+      Effect.either(
+        queryBus.execute(
+          'GetOrder',
+          QueryTrait.factory<GetOrder>({ orderId: 'o-1' }),
+        ),
+      ),
+    );
+
+    for (const outcome of [result, query]) {
+      expect(outcome._tag).toBe('Left');
+      if (outcome._tag === 'Left') {
+        expect(outcome.left).toBeInstanceOf(OperationException);
+        expect(outcome.left).toMatchObject({ code: 'HANDLER_NOT_FOUND' });
+      }
+    }
+  });
+
+  it('runs middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): BusMiddleware =>
+      ({ tag }, next) =>
+        Effect.gen(function* () {
+          calls.push(`${name}:before:${tag}`);
+          const result = yield* next;
+          calls.push(`${name}:after`);
+          return result;
+        });
+    const validate: BusMiddleware = ({ message }, next) =>
+      (message.props as PlaceOrder['props']).quantity > 0
+        ? next
+        : Effect.fail(ValidationException.new('INVALID_QUANTITY', 'Too few'));
+    const bus = createCommandBus(handlers, {
+      middleware: [trace('outer'), trace('inner'), validate],
+    });
+
+    await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder({ sku: 'a', quantity: 1 })),
+    );
+    const rejected = await Effect.runPromise(
+      Effect.either(
+        bus.execute('PlaceOrder', placeOrder({ sku: 'a', quantity: 0 })),
+      ),
+    );
+
+    expect(calls).toEqual([
+      'outer:before:PlaceOrder',
+      'inner:before:PlaceOrder',
+      'inner:after',
+      'outer:after',
+      'outer:before:PlaceOrder',
+      'inner:before:PlaceOrder',
+    ]);
+    expect(rejected._tag).toBe('Left');
+  });
+
+  it('retries concurrency conflicts', async () => {
+    let attempts = 0;
+    const bus = createCommandBus(
+      {
+        PlaceOrder: () =>
+          Effect.suspend(() =>
+            ++attempts < 3
+              ? Effect.fail(ConcurrencyException.new('VERSION_CONFLICT', 'x'))
+              : Effect.succeed(attempts),
+          ),
+      },
+      { middleware: [retryMiddleware({ times: 3 })] },
+    );
+
+    const result = await Effect.runPromise(
+      bus.execute('PlaceOrder', placeOrder({ sku: 'a', quantity: 1 })),
+    );
+
+    expect(result).toBe(3);
+  });
+
+  it('is provided as a Layer', async () => {
+    class AppCommandBus extends Context.Tag('AppCommandBus')<
+      AppCommandBus,
+      CommandBus<typeof handlers>
+    >() {}
+
+    const result = await Effect.runPromise(
+      Effect.provide(
+        Effect.flatMap(AppCommandBus, (bus) =>
+          bus.execute('PlaceOrder', placeOrder({ sku: 'b', quantity: 1 })),
+        ),
+        createCommandBusLayer(AppCommandBus, handlers),
+      ),
+    );
+
+    expect(result).toBe('order-b');
+  });
+});
@@ -0,0 +1,135 @@
+import { Effect, Schema, pipe } from 'effect';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  buildAggregateRoot,
+  createAggregateRoot,
+  ForbiddenException,
+  PolicyTrait,
+  withAggregateCommand,
+  withSchema,
+} from 'src';
+
+const DocumentSchema = Schema.Struct({
+  ownerId: Schema.String,
+  title: Schema.String,
+});
+
+type DocumentProps = Schema.Schema.Type<typeof DocumentSchema>;
+type Document = AggregateRoot<DocumentProps>;
+
+const isOwner = PolicyTrait.fromPredicate<Document>(
+  (actor, document) => actor.userId === document.props.ownerId,
+  'Only the owner can rename the document',
+);
+
+const DocumentTrait = pipe(
+  createAggregateRoot<Document, DocumentProps>('Document'),
+  withSchema(DocumentSchema),
+  withAggregateCommand(
+    'rename',
+    (title: string, props: DocumentProps) =>
+      Effect.succeed({ props: { ...props, title }, domainEvents: [] }),
+    [PolicyTrait.anyOf(isOwner, PolicyTrait.hasRole('admin'))],
+  ),
+  buildAggregateRoot,
+);
+
+const document = Effect.runSync(
+  DocumentTrait.new({ ownerId: 'u-1', title: 'Draft' }),
+);
+
+const expectForbidden = async (
+  effect: Effect.Effect<unknown, unknown>,
+  reason: string,
+) => {
+  const result = await Effect.runPromise(Effect.either(effect));
+  expect(result._tag).toBe('Left');
+  if (result._tag === 'Left') {
+    expect(result.left).toBeInstanceOf(ForbiddenException);
+    expect(result.left).toMatchObject({
+      code: 'COMMAND_FORBIDDEN',
+      content: { reason },
+    });
+  }
+};
+
+describe('Policies', () => {
+  it('lets allowed actors run builder commands', async () => {
+    const byOwner = await Effect.runPromise(
+      DocumentTrait.rename('Final')(document, {
+        correlationId: 'c-1',
+        userId: 'u-1',
+      }),
+    );
+    const byAdmin = await Effect.runPromise(
+      DocumentTrait.rename('Reviewed')(document, {
+        correlationId: 'c-2',
+        userId: 'u-2',
+        roles: ['admin'],
+      }),
+    );
+
+    expect(byOwner.props.title).toBe('Final');
+    expect(byAdmin.props.title).toBe('Reviewed');
+  });
+
+  it('denies other actors with every reason', async () => {
+    await expectForbidden(
+      DocumentTrait.rename('Hijacked')(document, {
+        correlationId: 'c-1',
+        userId: 'u-2',
+      }),
+      'Only the owner can rename the document; Requires one of the roles: admin',
+    );
+  });
+
+  it('replaces the policies of a command added again', async () => {
+    const OpenTrait = pipe(
+      createAggregateRoot<Document, DocumentProps>('Document'),
+      withSchema(DocumentSchema),
+      withAggregateCommand(
+        'rename',
+        (title: string, props: DocumentProps) =>
+          Effect.succeed({ props: { ...props, title }, domainEvents: [] }),
+        [isOwner],
+      ),
+      withAggregateCommand('rename', (title: string, props: DocumentProps) =>
+        Effect.succeed({ props: { ...props, title }, domainEvents: [] }),
+      ),
+      buildAggregateRoot,
+    );
+
+    const renamed = await Effect.runPromise(
+      OpenTrait.rename('Shared')(document, {
+        correlationId: 'c-1',
+        userId: 'u-2',
+      }),
+    );
+
+    expect(renamed.props.title).toBe('Shared');
+  });
+
+  it('attaches policies to an asCommand call', async () => {
+    const BaseTrait = AggGenericTrait.createAggregateRootTrait<
+      Document,
+      DocumentProps,
+      DocumentProps
+    >((raw) => Schema.decodeUnknown(DocumentSchema)(raw), 'Document');
+    let ran = false;
+    const rename = PolicyTrait.authorize([isOwner])(
+      BaseTrait.asCommand((title: string, props) =>
+        Effect.sync(() => {
+          ran = true;
+          return { props: { ...props, title }, domainEvents: [] };
+        }),
+      ),
+    );
+
+    await expectForbidden(
+      rename('Anonymous')(document),
+      'Only the owner can rename the document',
+    );
+    expect(ran).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+import { Effect, Option } from 'effect';
+import {
+  Command,
+  CommandTrait,
+  createInMemoryProcessStateRepository,
+  createProcessManager,
+  IDomainEvent,
+  OperationException,
+} from 'src';
+
+type CheckoutState = { orderId: string; paid: boolean };
+
+const event = (name: string, correlationId = 'c-1'): IDomainEvent => ({
+  id: `${name}-${correlationId}`,
+  name,
+  version: 1,
+  aggregateId: 'o-1',
+  metadata: { timestamp: Date.now(), correlationId },
+  payload: {},
+  getPayload: () => ({}),
+});
+
+const setup = () => {
+  const repository = createInMemoryProcessStateRepository<CheckoutState>();
+  const sent: Array<{
+    name: string;
+    command: Command<unknown>;
+    status: Option.Option<string>;
+  }> = [];
+  // Correlation ids whose commands fail to dispatch
+  const failing = new Set<string>();
+  const manager = createProcessManager<CheckoutState>(
+    {
+      name: 'checkout',
+      startedBy: ['OrderPlaced'],
+      initialState: (e) => ({ orderId: e.aggregateId!, paid: false }),
+      handlers: {
+        OrderPlaced: (state) =>
+          Effect.succeed({
+            state,
+            commands: [{ name: 'ReserveStock', props: { id: state.orderId } }],
+            compensations: [
+              { name: 'ReleaseStock', props: { id: state.orderId } },
+            ],
+            timeout: '15 minutes',
+          }),
+        StockReserved: (state) =>
+          Effect.succeed({
+            state,
+            commands: [
+              { name: 'CapturePayment', props: { id: state.orderId } },
+            ],
+            compensations: [
+              { name: 'RefundPayment', props: { id: state.orderId } },
+            ],
+          }),
+        PaymentCaptured: (state) =>
+          Effect.succeed({ state: { ...state, paid: true }, complete: true }),
+        ShippingFailed: (state) => Effect.succeed({ state, compensate: true }),
+        PaymentDeclined: (state) =>
+          Effect.succeed({
+            state,
+            commands: [{ name: 'CancelOrder', props: { id: state.orderId } }],
+            compensate: true,
+          }),
+      },
+    },
+    {
+      repository,
+      // Record the saved status when each command is sent
+      dispatch: (name, command) =>
+        failing.has(CommandTrait.correlationId(command))
+          ? Effect.fail(OperationException.new('DISPATCH_FAILED', name))
+          : Effect.map(
+              repository.findOne(
+                'checkout',
+                CommandTrait.correlationId(command),
+              ),
+              (instance) => {
+                sent.push({
+                  name,
+                  command,
+                  status: Option.map(instance, (i) => i.status),
+                });
+              },
+            ),
+    },
+  );
+  const find = (correlationId = 'c-1') =>
+    Effect.runPromise(repository.findOne('checkout', correlationId)).then(
+      Option.getOrThrow,
+    );
+  return { manager, sent, find, failing };
+};
+
+describe('Process manager', () => {
+  it('starts on a starting event and sends commands with the correlation id', async () => {
+    const { manager, sent, find } = setup();
+
+    await Effect.runPromise(manager.handle(event('OrderPlaced')));
+
+    expect(sent.map((s) => s.name)).toEqual(['ReserveStock']);
+    expect(sent[0].command.props).toEqual({ id: 'o-1' });
+    expect(CommandTrait.correlationId(sent[0].command)).toBe('c-1');
+    const instance = await find();
+    expect(instance).toMatchObject({ status: 'running', version: 1 });
+    expect(Option.isSome(instance.deadline)).toBe(true);
+  });
+
+  it('ignores events without an instance or a handler', async () => {
+    const { manager, sent } = setup();
+
+    await Effect.runPromise(manager.handle(event('StockReserved')));
+    await Effect.runPromise(manager.handle(event('CustomerRenamed')));
+
+    expect(sent).toEqual([]);
+  });
+
+  it('completes and ignores later events', async () => {
+    const { manager, sent, find } = setup();
+
+    await Effect.runPromise(manager.handle(event('OrderPlaced')));
+    await Effect.runPromise(manager.handle(event('StockReserved')));
+    await Effect.runPromise(manager.handle(event('PaymentCaptured')));
+    await Effect.runPromise(manager.handle(event('ShippingFailed')));
+
+    expect(sent.map((s) => s.name)).toEqual(['ReserveStock', 'CapturePayment']);
+    const instance = await find();
+    expect(instance).toMatchObject({
+      status: 'completed',
+      state: { orderId: 'o-1', paid: true },
+      version: 3,
+    });
+    expect(instance.deadline).toEqual(Option.none());
+  });
+
+  it('runs compensations in reverse order', async () => {
+    const { manager, sent, find } = setup();
+
+    await Effect.runPromise(manager.handle(event('OrderPlaced')));
+    await Effect.runPromise(manager.handle(event('StockReserved')));
+    await Effect.runPromise(manager.handle(event('ShippingFailed')));
+
+    expect(sent.map((s) => s.name)).toEqual([
+      'ReserveStock',
+      'CapturePayment',
+      'RefundPayment',
+      'ReleaseStock',
+    ]);
+    expect((await find()).status).toBe('compensated');
+  });
+
+  it('saves the compensated state after sending the step commands', async () => {
+    const { manager, sent, find } = setup();
+
+    await Effect.runPromise(manager.handle(event('OrderPlaced')));
+    await Effect.runPromise(manager.handle(event('PaymentDeclined')));
+
+    expect(sent.slice(1).map((s) => [s.name, s.status])).toEqual([
+      ['CancelOrder', Option.some('running')],
+      ['ReleaseStock', Option.some('running')],
+    ]);
+    expect((await find()).status).toBe('compensated');
+  });
+
+  it('keeps the stored state when a dispatch fails, so the step runs again', async () => {
+    const { manager, sent, find, failing } = setup();
+    await Effect.runPromise(manager.handle(event('OrderPlaced')));
+
+    failing.add('c-1');
+    const failed = await Effect.runPromise(
+      Effect.either(manager.handle(event('StockReserved'))),
+    );
+    expect(failed._tag).toBe('Left');
+    expect(await find()).toMatchObject({ version: 1 });
+
+    failing.delete('c-1');
+    await Effect.runPromise(manager.handle(event('StockReserved')));
+
+    expect(sent.map((s) => s.name)).toEqual(['ReserveStock', 'CapturePayment']);
+    expect((await find()).compensations).toHaveLength(2);
+  });
+
+  it('compensates instances whose deadline has passed', async () => {
+    const { manager, sent, find } = setup();
+    await Effect.runPromise(manager.handle(event('OrderPlaced')));
+
+    expect(await Effect.runPromise(manager.checkTimeouts())).toBe(0);
+    const expired = await Effect.runPromise(
+      manager.checkTimeouts(new Date(Date.now() + 60 * 60 * 1000)),
+    );
+
+    expect(expired).toBe(1);
+    expect(sent.map((s) => s.name)).toEqual(['ReserveStock', 'ReleaseStock']);
+    expect((await find()).status).toBe('compensated');
+  });
+
+  it('handles each expired instance even when another one fails', async () => {
+    const { manager, find, failing } = setup();
+    await Effect.runPromise(manager.handle(event('OrderPlaced', 'c-1')));
+    await Effect.runPromise(manager.handle(event('OrderPlaced', 'c-2')));
+    failing.add('c-1');
+
+    const expired = await Effect.runPromise(
+      manager.checkTimeouts(new Date(Date.now() + 60 * 60 * 1000)),
+    );
+
+    expect(expired).toBe(1);
+    expect((await find('c-1')).status).toBe('running');
+    expect((await find('c-2')).status).toBe('compensated');
+  });
+});
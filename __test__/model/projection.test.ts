@@ -0,0 +1,156 @@
+import { Effect, Option } from 'effect';
+import {
+  createProjectionRunner,
+  IDomainEvent,
+  OperationException,
+  ProjectionCheckpoint,
+  ProjectionEventSource,
+  ProjectionStore,
+  Projector,
+} from 'src';
+
+type ReadModel = {
+  totals: Map<string, number>;
+  checkpoints: Map<string, ProjectionCheckpoint>;
+};
+
+const event = (
+  id: string,
+  name: string,
+  payload: { orderId: string; amount?: number },
+  timestamp: number,
+): IDomainEvent => ({
+  id,
+  name,
+  version: 1,
+  metadata: { timestamp, correlationId: 'c-1' },
+  payload,
+  getPayload: () => payload,
+});
+
+const events: IDomainEvent[] = [
+  event('e-1', 'OrderPlaced', { orderId: 'o-1', amount: 10 }, 1000),
+  event('e-2', 'CustomerRenamed', { orderId: 'o-1' }, 2000),
+  event('e-3', 'OrderPlaced', { orderId: 'o-2', amount: 5 }, 3000),
+  event('e-4', 'OrderCancelled', { orderId: 'o-1' }, 4000),
+];
+
+const source: ProjectionEventSource = {
+  readAfter: (checkpoint, limit) =>
+    Effect.sync(() => {
+      const start = Option.match(checkpoint, {
+        onNone: () => 0,
+        onSome: ({ position: [index] }) => index + 1,
+      });
+      return events
+        .slice(start, start + limit)
+        .map((e, index) => ({ event: e, position: [start + index] }));
+    }),
+};
+
+// Writes go to a copy that replaces the committed state only on success
+const createStore = () => {
+  let committed: ReadModel = { totals: new Map(), checkpoints: new Map() };
+  const store: ProjectionStore<ReadModel> = {
+    transaction: (work) => {
+      const staged: ReadModel = {
+        totals: new Map(committed.totals),
+        checkpoints: new Map(committed.checkpoints),
+      };
+      return Effect.tap(work(staged), () =>
+        Effect.sync(() => {
+          committed = staged;
+        }),
+      );
+    },
+    getCheckpoint: (context, projector) =>
+      Effect.succeed(Option.fromNullable(context.checkpoints.get(projector))),
+    saveCheckpoint: (context, projector, checkpoint) =>
+      Effect.sync(() =>
+        Option.match(checkpoint, {
+          onNone: () => context.checkpoints.delete(projector),
+          onSome: (value) => context.checkpoints.set(projector, value),
+        }),
+      ),
+  };
+  return { store, state: () => committed };
+};
+
+const OrderTotals: Projector<ReadModel> = {
+  name: 'order-totals',
+  events: ['OrderPlaced', 'OrderCancelled'],
+  handle: (e, context) =>
+    Effect.sync(() => {
+      if (e.name === 'OrderPlaced') {
+        context.totals.set(e.payload.orderId, e.payload.amount);
+      } else {
+        context.totals.delete(e.payload.orderId);
+      }
+    }),
+  reset: (context) => Effect.sync(() => context.totals.clear()),
+};
+
+describe('Projections', () => {
+  it('applies handled events in batches and advances the checkpoint', async () => {
+    const { store, state } = createStore();
+    const runner = createProjectionRunner([OrderTotals], source, store, {
+      batchSize: 3,
+    });
+
+    const read = await Effect.runPromise(runner.catchUp());
+
+    expect(read).toBe(4);
+    expect(Array.from(state().totals)).toEqual([['o-2', 5]]);
+    expect(state().checkpoints.get('order-totals')).toEqual({
+      eventId: 'e-4',
+      position: [3],
+    });
+    expect(await Effect.runPromise(runner.catchUp())).toBe(0);
+  });
+
+  it('keeps the checkpoint when a handler fails', async () => {
+    const { store, state } = createStore();
+    const failing: Projector<ReadModel> = {
+      ...OrderTotals,
+      handle: (e, context) =>
+        e.id === 'e-3'
+          ? Effect.fail(OperationException.new('PROJECTION_FAILED', 'boom'))
+          : OrderTotals.handle(e, context),
+    };
+    const runner = createProjectionRunner([failing], source, store, {
+      batchSize: 2,
+    });
+
+    const result = await Effect.runPromise(Effect.either(runner.catchUp()));
+
+    expect(result._tag).toBe('Left');
+    expect(state().checkpoints.get('order-totals')?.eventId).toBe('e-2');
+    expect(Array.from(state().totals)).toEqual([['o-1', 10]]);
+  });
+
+  it('rebuilds a read model from the start', async () => {
+    const { store, state } = createStore();
+    const runner = createProjectionRunner([OrderTotals], source, store);
+    await Effect.runPromise(runner.catchUp());
+    state().totals.set('stale', 99);
+
+    const read = await Effect.runPromise(runner.rebuild('order-totals'));
+
+    expect(read).toBe(4);
+    expect(Array.from(state().totals)).toEqual([['o-2', 5]]);
+  });
+
+  it('fails to rebuild an unknown projector', async () => {
+    const { store } = createStore();
+    const runner = createProjectionRunner([OrderTotals], source, store);
+
+    const result = await Effect.runPromise(
+      Effect.either(runner.rebuild('missing')),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left).toMatchObject({ code: 'PROJECTOR_NOT_FOUND' });
+    }
+  });
+});
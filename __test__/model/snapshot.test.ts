@@ -0,0 +1,122 @@
+import { Effect, Option, pipe, Schema } from 'effect';
+import {
+  AggregateRoot,
+  buildAggregateRoot,
+  buildEntity,
+  buildValueObject,
+  createAggregateRoot,
+  createEntity,
+  createSnapshotCodec,
+  createValueObject,
+  DiffTrait,
+  Entity,
+  snapshotSchema,
+  ValueObject,
+  valueObjectSchema,
+  withAggregateCommand,
+  withSchema,
+} from 'src';
+
+type Address = ValueObject<{ city: string; zip: string }>;
+
+const AddressTrait = pipe(
+  createValueObject<Address>('Address'),
+  withSchema(Schema.Struct({ city: Schema.String, zip: Schema.String })),
+  buildValueObject,
+);
+
+type OrderLine = Entity<{ sku: string; quantity: number }>;
+
+const OrderLineTrait = pipe(
+  createEntity<OrderLine>('OrderLine'),
+  withSchema(Schema.Struct({ sku: Schema.String, quantity: Schema.Number })),
+  buildEntity,
+);
+
+const OrderSchema = Schema.Struct({
+  shippingAddress: valueObjectSchema(AddressTrait),
+  lines: Schema.Array(snapshotSchema(OrderLineTrait)),
+  note: Schema.optionalWith(Schema.String, { as: 'Option' }),
+  placedAt: Schema.Date,
+});
+
+type Order = AggregateRoot<Schema.Schema.Type<typeof OrderSchema>>;
+
+const OrderTrait = pipe(
+  createAggregateRoot<Order, Schema.Schema.Encoded<typeof OrderSchema>>(
+    'Order',
+  ),
+  withSchema(OrderSchema),
+  withAggregateCommand('annotate', (note: string, props: Order['props']) =>
+    Effect.succeed({
+      props: { ...props, note: Option.some(note) },
+      domainEvents: [],
+    }),
+  ),
+  buildAggregateRoot,
+);
+
+const OrderSnapshot = createSnapshotCodec(OrderTrait);
+
+const anOrder = Effect.runSync(
+  Effect.gen(function* () {
+    const order = yield* OrderTrait.parse({
+      shippingAddress: { city: 'Paris', zip: '75001' },
+      lines: [
+        {
+          _tag: 'OrderLine',
+          id: 'line-1',
+          version: 0,
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: null,
+          props: { sku: 'lamp', quantity: 2 },
+        },
+      ],
+      placedAt: '2024-01-01T10:00:00.000Z',
+      createdAt: Option.some(new Date('2024-01-01T10:00:00.000Z')),
+      updatedAt: Option.none(),
+    });
+    return yield* OrderTrait.annotate('fragile')(order);
+  }),
+);
+
+describe('Snapshot codec', () => {
+  it('round-trips an aggregate through JSON', async () => {
+    const json = await Effect.runPromise(OrderSnapshot.toJson(anOrder));
+    const restored = await Effect.runPromise(OrderSnapshot.fromJson(json));
+
+    expect(JSON.parse(json)).toMatchObject({
+      _tag: 'Order',
+      id: anOrder.id,
+      version: anOrder.version,
+      createdAt: anOrder.createdAt.toISOString(),
+      props: {
+        shippingAddress: { city: 'Paris', zip: '75001' },
+        note: 'fragile',
+        placedAt: '2024-01-01T10:00:00.000Z',
+      },
+    });
+    expect(restored).toMatchObject({
+      _tag: 'Order',
+      id: anOrder.id,
+      version: anOrder.version,
+      persistedVersion: anOrder.version,
+      createdAt: anOrder.createdAt,
+      updatedAt: anOrder.updatedAt,
+    });
+    expect(DiffTrait.diff(anOrder.props, restored.props)).toEqual([]);
+  });
+
+  it('rejects a snapshot of another aggregate type', async () => {
+    const snapshot = await Effect.runPromise(OrderSnapshot.encode(anOrder));
+
+    const result = await Effect.runPromise(
+      Effect.either(OrderSnapshot.decode({ ...snapshot, _tag: 'Invoice' })),
+    );
+
+    expect(result._tag).toBe('Left');
+    if (result._tag === 'Left') {
+      expect(result.left).toMatchObject({ code: 'INVALID_SNAPSHOT' });
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { Effect, Option, Schema } from 'effect';
+import {
+  AggGenericTrait,
+  AggregateRoot,
+  createInMemoryRepository,
+  IDomainEventPublisher,
+  SpecificationTrait,
+} from 'src';
+
+const OrderSchema = Schema.Struct({
+  status: Schema.Literal('open', 'shipped', 'cancelled'),
+  total: Schema.Number,
+  reference: Schema.String,
+  note: Schema.OptionFromSelf(Schema.String),
+});
+
+type OrderProps = Schema.Schema.Type<typeof OrderSchema>;
+type Order = AggregateRoot<OrderProps>;
+
+const OrderTrait = AggGenericTrait.createAggregateRootTrait<
+  Order,
+  OrderProps,
+  OrderProps
+>((raw) => Schema.decodeUnknown(OrderSchema)(raw), 'Order');
+
+const Spec = SpecificationTrait.forAggregate<Order>();
+
+const order = (props: Partial<OrderProps>) =>
+  Effect.runSync(
+    OrderTrait.new({
+      status: 'open',
+      total: 0,
+      reference: 'ORD-1',
+      note: Option.none(),
+      ...props,
+    }),
+  );
+
+describe('Specification', () => {
+  const OpenLargeOrder = SpecificationTrait.and(
+    Spec.eq('status', 'open'),
+    Spec.gte('total', 100),
+  );
+
+  it('evaluates field comparisons and combinators', () => {
+    const isSatisfied = SpecificationTrait.isSatisfiedBy(OpenLargeOrder);
+
+    expect(isSatisfied(order({ total: 150 }))).toBe(true);
+    expect(isSatisfied(order({ total: 50 }))).toBe(false);
+    expect(isSatisfied(order({ status: 'shipped', total: 150 }))).toBe(false);
+    expect(
+      SpecificationTrait.isSatisfiedBy(SpecificationTrait.not(OpenLargeOrder))(
+        order({ total: 50 }),
+      ),
+    ).toBe(true);
+  });
+
+  it('supports in, like and null checks on Option props', () => {
+    const spec = SpecificationTrait.or(
+      Spec.in('status', ['shipped', 'cancelled']),
+      SpecificationTrait.and(
+        Spec.like('reference', 'ORD-%'),
+        SpecificationTrait.not(Spec.isNull('note')),
+      ),
+    );
+    const isSatisfied = SpecificationTrait.isSatisfiedBy(spec);
+
+    expect(isSatisfied(order({ status: 'cancelled' }))).toBe(true);
+    expect(isSatisfied(order({ note: Option.some('gift') }))).toBe(true);
+    expect(isSatisfied(order({}))).toBe(false);
+    expect(
+      isSatisfied(order({ reference: 'INV-1', note: Option.some('gift') })),
+    ).toBe(false);
+  });
+
+  it('treats empty combinators as always and never', () => {
+    const anyOrder = order({});
+
+    expect(
+      SpecificationTrait.isSatisfiedBy(SpecificationTrait.and())(anyOrder),
+    ).toBe(true);
+    expect(
+      SpecificationTrait.isSatisfiedBy(SpecificationTrait.or())(anyOrder),
+    ).toBe(false);
+  });
+
+  it('is accepted by repositories as a query', async () => {
+    const publisher: IDomainEventPublisher = {
+      publish: () => Effect.void,
+      publishAll: () => Effect.void,
+    };
+    const repository = createInMemoryRepository<Order>({
+      publisher,
+      initial: [order({ total: 150 }), order({ total: 20 })],
+    });
+
+    const found = await Effect.runPromise(repository.findMany(OpenLargeOrder));
+
+    expect(found.map((o) => o.props.total)).toEqual([150]);
+    expect(SpecificationTrait.isSpecification(OpenLargeOrder)).toBe(true);
+    expect(SpecificationTrait.isSpecification({ status: 'open' })).toBe(false);
+  });
+});
@@ -1,6 +1,10 @@
 import { AbstractKeyValueRepository } from '@ports/database/keyvalue/key-value.repository';
+import { KeyValueLock } from '@ports/database/keyvalue/key-value.lock';
 
-export class MockKeyValueRepository extends AbstractKeyValueRepository {
+export class MockKeyValueRepository
+  extends AbstractKeyValueRepository
+  implements KeyValueLock
+{
   dict: Record<string, string | number>;
 
   constructor() {
@@ -19,4 +23,23 @@ export class MockKeyValueRepository extends AbstractKeyValueRepository {
   public get(key: string): Promise<string | number> {
     return Promise.resolve(this.dict[this.keyWithPrefix(key)]);
   }
+
+  public acquireLock(key: string, owner: string): Promise<boolean> {
+    if (this.keyWithPrefix(key) in this.dict) {
+      return Promise.resolve(false);
+    }
+    this.dict[this.keyWithPrefix(key)] = owner;
+    return Promise.resolve(true);
+  }
+
+  public extendLock(key: string, owner: string): Promise<boolean> {
+    return Promise.resolve(this.dict[this.keyWithPrefix(key)] === owner);
+  }
+
+  public releaseLock(key: string, owner: string): Promise<void> {
+    if (this.dict[this.keyWithPrefix(key)] === owner) {
+      delete this.dict[this.keyWithPrefix(key)];
+    }
+    return Promise.resolve();
+  }
 }
@@ -0,0 +1,96 @@
+import { Effect, Schema } from 'effect';
+import { defineDomainEvent, nestjs } from 'src';
+// Imported by path: the rabbitmq index also loads the broker modules
+import { fromDomainEventMessage } from 'src/ports/pubsub/rabbitmq/domain-event-message';
+import { ExchangePublisher } from 'src/ports/pubsub/rabbitmq/exchange-publisher';
+import { Exchange } from 'src/ports/pubsub/rabbitmq/exchange';
+
+const OrderPlaced = defineDomainEvent(
+  'OrderPlaced',
+  Schema.Struct({ orderId: Schema.String }),
+);
+
+const mapper = nestjs.createDomainEventMapper();
+mapper.registerEventDefinitions([OrderPlaced]);
+
+describe('Domain events over an exchange', () => {
+  const publish = jest.fn();
+  const exchange = {
+    getName: () => 'orders',
+    getChannel: () => ({ publish }),
+    isDurable: () => true,
+  } as unknown as Exchange;
+  const publisher = new ExchangePublisher(exchange, mapper);
+
+  beforeEach(() => publish.mockClear());
+
+  it('publishes encoded events that decode back on receipt', async () => {
+    const event = OrderPlaced.create({
+      payload: { orderId: 'o-1' },
+      correlationId: 'c-1',
+    });
+
+    await Effect.runPromise(publisher.publish(event));
+    const [exchangeName, routingKey, body, options] = publish.mock.calls[0];
+    const received = await Effect.runPromise(
+      fromDomainEventMessage(mapper, body.toString()),
+    );
+
+    expect(exchangeName).toBe('orders');
+    expect(routingKey).toBe('OrderPlaced');
+    expect(options).toMatchObject({
+      type: 'OrderPlaced',
+      messageId: event.id,
+      persistent: true,
+    });
+    expect(received).toMatchObject({
+      id: event.id,
+      version: 1,
+      payload: { orderId: 'o-1' },
+    });
+  });
+
+  it('does not publish events that fail their definition', async () => {
+    const invalid = {
+      ...OrderPlaced.create({
+        payload: { orderId: 'o-1' },
+        correlationId: 'c-1',
+      }),
+      version: 2,
+    };
+
+    await expect(Effect.runPromise(publisher.publish(invalid))).rejects.toThrow(
+      /EVENT_VERSION_MISMATCH/,
+    );
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('rejects received messages that fail their definition', async () => {
+    const wire = await Effect.runPromise(
+      OrderPlaced.encode(
+        OrderPlaced.create({
+          payload: { orderId: 'o-1' },
+          correlationId: 'c-1',
+        }),
+      ),
+    );
+
+    const mismatch = await Effect.runPromise(
+      Effect.either(
+        fromDomainEventMessage(mapper, JSON.stringify({ ...wire, version: 3 })),
+      ),
+    );
+    const malformed = await Effect.runPromise(
+      Effect.either(fromDomainEventMessage(mapper, '{not json')),
+    );
+
+    expect(mismatch).toMatchObject({
+      _tag: 'Left',
+      left: { code: 'EVENT_VERSION_MISMATCH' },
+    });
+    expect(malformed).toMatchObject({
+      _tag: 'Left',
+      left: { code: 'INVALID_EVENT_MESSAGE' },
+    });
+  });
+});
@@ -301,7 +301,9 @@ const OrderTrait = pipe(
           props: { ...props, items: newItems, total: newTotal },
           domainEvents: [
             {
+              id: IdentifierTrait.uuid(),
               name: 'OrderItemAdded',
+              version: 1,
               payload: { item },
               metadata: {
                 timestamp: Date.now(),
@@ -365,6 +367,7 @@ const createMockDataSource = (): DataSource => {
 
   return {
     manager: mockManager,
+    transaction: jest.fn((work) => work(mockManager)),
     getRepository: jest.fn().mockReturnValue(mockRepository),
   } as unknown as DataSource;
 };
@@ -486,6 +489,8 @@ describe('Repository Factory', () => {
         registeredAt: new Date(),
         createdAt: new Date(),
         updatedAt: new Date(),
+        version: 0,
+        deletedAt: null,
       };
 
       mockRepository.findOne = jest.fn().mockResolvedValue(userEntity);
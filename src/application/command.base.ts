@@ -1,4 +1,5 @@
-import { Option, pipe } from 'effect';
+import { Effect, Option, pipe, Schema } from 'effect';
+import { ValidationException } from '@model/exception';
 import { LifeCycleMeta, LifeCycleMetaMod } from './lifecyle.meta';
 import {
   GetProps,
@@ -33,9 +34,93 @@ const factory = <Cmd extends Command<unknown>>({
 const correlationId = <T>(command: Command<T>) =>
   LifeCycleMetaMod.correlationId(command.lifecycle);
 
+/**
+ * Correlation context to run an aggregate command with
+ *
+ * Usage:
+ * ```typescript
+ * OrderTrait.place(input)(order, CommandTrait.correlationContext(command));
+ * ```
+ */
+const correlationContext = <T>(command: Command<T>) =>
+  LifeCycleMetaMod.toCorrelationContext(command.lifecycle);
+
 export const CommandTrait = {
   factory,
   queryProps: queryOnProps,
   getProps: getRawProps,
   correlationId,
+  correlationContext,
+};
+
+export interface CommandDefinition<Tag extends string, A, I = A> {
+  readonly tag: Tag;
+  readonly schema: Schema.Schema<A, I, never>;
+
+  /**
+   * Decode untrusted input (HTTP body, message payload) into a command.
+   * Without a lifecycle, the command gets a fresh one.
+   */
+  decode(
+    input: unknown,
+    lifecycle?: Option.Option<LifeCycleMeta>,
+  ): Effect.Effect<Command<A>, ValidationException, never>;
+
+  /**
+   * Build a command from props that are already valid.
+   * Without a lifecycle, the command gets a fresh one.
+   */
+  make(props: A, lifecycle?: Option.Option<LifeCycleMeta>): Command<A>;
+}
+
+/**
+ * Command type of a definition
+ */
+export type CommandOf<D> = D extends CommandDefinition<any, infer A, any>
+  ? Command<A>
+  : never;
+
+/**
+ * Define a command whose props are validated by a schema.
+ * Decoding reports every invalid field in the exception content.
+ *
+ * Usage:
+ * ```typescript
+ * const PlaceOrder = defineCommand(
+ *   'PlaceOrder',
+ *   Schema.Struct({ sku: Schema.String, quantity: Schema.Int }),
+ * );
+ * type PlaceOrderCommand = CommandOf<typeof PlaceOrder>;
+ *
+ * const command = yield* PlaceOrder.decode(request.body, lifecycle);
+ * yield* commandBus.execute(PlaceOrder.tag, command);
+ * ```
+ */
+export const defineCommand = <Tag extends string, A, I>(
+  tag: Tag,
+  schema: Schema.Schema<A, I, never>,
+): CommandDefinition<Tag, A, I> => {
+  // `factory` gives a command without a lifecycle a fresh one
+  const make = (
+    props: A,
+    lifecycle: Option.Option<LifeCycleMeta> = Option.none(),
+  ): Command<A> => factory<Command<A>>({ lifecycle, props });
+
+  return {
+    tag,
+    schema,
+    make,
+    decode: (input, lifecycle) =>
+      pipe(
+        Schema.decodeUnknown(schema)(input, { errors: 'all' }),
+        Effect.mapError((error) =>
+          ValidationException.fromParseError(
+            error,
+            'INVALID_COMMAND',
+            `Invalid ${tag} command`,
+          ),
+        ),
+        Effect.map((props) => make(props, lifecycle)),
+      ),
+  };
 };
@@ -0,0 +1,253 @@
+import { Duration, Effect, Option, pipe } from 'effect';
+import {
+  BaseException,
+  CommonException,
+  ConcurrencyException,
+  ForbiddenException,
+  NotFoundException,
+  OperationException,
+  ValidationException,
+} from '@model/exception';
+import { AbstractKeyValueRepository } from '@ports/database/keyvalue/key-value.repository';
+import { KeyValueLock } from '@ports/database/keyvalue/key-value.lock';
+import { v4 as uuidv4 } from 'uuid';
+import { Command } from './command.base';
+import { BusMiddleware } from './message-bus';
+
+export interface IdempotencyOptions {
+  /**
+   * How long outcomes are kept (default one day)
+   */
+  ttl?: Duration.DurationInput;
+  /**
+   * How long the lock lives without renewal (default 30 seconds). The
+   * running command renews it; duplicates wait this long for the outcome
+   * and then fail with IDEMPOTENCY_IN_PROGRESS.
+   */
+  lockTtl?: Duration.DurationInput;
+  /**
+   * How often waiting duplicates check for the outcome (default 100 ms)
+   */
+  pollInterval?: Duration.DurationInput;
+  /**
+   * Failures to remember; others are retried by the next duplicate.
+   * Defaults to every failure except ConcurrencyException.
+   */
+  storeFailure?: (error: BaseException) => boolean;
+}
+
+type StoredOutcome =
+  | { readonly _tag: 'Success'; readonly value: unknown }
+  | {
+      readonly _tag: 'Failure';
+      readonly error: {
+        readonly _tag: string;
+        readonly code: string;
+        readonly message: string;
+        readonly content?: unknown;
+      };
+    };
+
+const exceptions: Record<
+  string,
+  new (props: { code: string; message: string; content?: any }) => BaseException
+> = {
+  BaseException: CommonException,
+  Operation: OperationException,
+  ValidationFail: ValidationException,
+  Notfound: NotFoundException,
+  Concurrency: ConcurrencyException,
+  Forbidden: ForbiddenException,
+};
+
+const toStoredError = (error: BaseException) =>
+  'code' in error
+    ? {
+        _tag: error._tag,
+        code: error.code,
+        message: error.message,
+        content: error.content,
+      }
+    : // ParseError carries no code
+      {
+        _tag: 'ValidationFail',
+        code: 'PARSE_ERROR_VALIDATION',
+        message: error.message,
+      };
+
+const fromStored = (
+  outcome: StoredOutcome,
+): Effect.Effect<unknown, BaseException> =>
+  outcome._tag === 'Success'
+    ? Effect.succeed(outcome.value)
+    : Effect.fail(
+        new (exceptions[outcome.error._tag] ?? CommonException)(outcome.error),
+      );
+
+/**
+ * Run each command at most once per idempotency key.
+ *
+ * Commands whose lifecycle has an `idempotencyKey` store their outcome in the
+ * key-value store; a duplicate returns the stored result or failure instead of
+ * running again. Keys are scoped by command tag, tenant and user. While the
+ * first command runs it holds a lock, so concurrent duplicates wait for its
+ * outcome. Results must be JSON-serializable.
+ * Queries and commands without a key pass through.
+ *
+ * Usage:
+ * ```typescript
+ * const commandBus = createCommandBus(handlers, {
+ *   middleware: [idempotencyMiddleware(redisKeyValueRepository, { ttl: '1 day' })],
+ * });
+ *
+ * const lifecycle = pipe(
+ *   LifeCycleMetaMod.autoFactory(),
+ *   LifeCycleMetaMod.withIdempotencyKey(request.headers['idempotency-key']),
+ * );
+ * ```
+ */
+export const idempotencyMiddleware = (
+  store: AbstractKeyValueRepository & KeyValueLock,
+  {
+    ttl = '1 day',
+    lockTtl = '30 seconds',
+    pollInterval = '100 millis',
+    storeFailure = (error) => !(error instanceof ConcurrencyException),
+  }: IdempotencyOptions = {},
+): BusMiddleware => {
+  const seconds = (duration: Duration.DurationInput) =>
+    Math.max(1, Math.ceil(Duration.toSeconds(duration)));
+  const pollMillis = Duration.toMillis(pollInterval);
+  const maxPolls = Math.ceil(Duration.toMillis(lockTtl) / pollMillis);
+  const lockSeconds = seconds(lockTtl);
+  // Renew well before the lock expires
+  const renewEvery = Duration.millis(Duration.toMillis(lockTtl) / 3);
+
+  const call = <A>(operation: string, run: () => Promise<A>) =>
+    Effect.tryPromise({
+      try: run,
+      catch: (error): BaseException =>
+        OperationException.new(
+          'IDEMPOTENCY_STORE_FAILED',
+          `Failed to ${operation} idempotency record: ${error}`,
+        ),
+    });
+
+  const readOutcome = (key: string) =>
+    pipe(
+      call('read', () => store.get(key)),
+      Effect.map((raw) =>
+        Option.map(
+          Option.fromNullable(raw),
+          (value) => JSON.parse(String(value)) as StoredOutcome,
+        ),
+      ),
+    );
+
+  const saveOutcome = (key: string, outcome: StoredOutcome) =>
+    call('save', () => store.set(key, JSON.stringify(outcome), seconds(ttl)));
+
+  const renewLock = (key: string, owner: string) =>
+    pipe(
+      Effect.sleep(renewEvery),
+      Effect.zipRight(
+        Effect.ignore(
+          call('renew', () =>
+            store.extendLock(`${key}:lock`, owner, lockSeconds),
+          ),
+        ),
+      ),
+      Effect.forever,
+    );
+
+  const execute = (
+    key: string,
+    owner: string,
+    next: Effect.Effect<unknown, BaseException>,
+  ): Effect.Effect<unknown, BaseException> =>
+    pipe(
+      Effect.forkScoped(renewLock(key, owner)),
+      Effect.zipRight(next),
+      Effect.tapBoth({
+        onSuccess: (value) =>
+          saveOutcome(key, { _tag: 'Success', value: value ?? null }),
+        onFailure: (error) =>
+          storeFailure(error)
+            ? saveOutcome(key, { _tag: 'Failure', error: toStoredError(error) })
+            : Effect.void,
+      }),
+      Effect.scoped,
+    );
+
+  // An earlier run may have stored its outcome between the read and the lock
+  const runLocked = (
+    key: string,
+    owner: string,
+    next: Effect.Effect<unknown, BaseException>,
+  ): Effect.Effect<unknown, BaseException> =>
+    pipe(
+      readOutcome(key),
+      Effect.flatMap(
+        Option.match({
+          onSome: fromStored,
+          onNone: () => execute(key, owner, next),
+        }),
+      ),
+      Effect.ensuring(
+        Effect.ignore(
+          call('release', () => store.releaseLock(`${key}:lock`, owner)),
+        ),
+      ),
+    );
+
+  const run = (
+    key: string,
+    next: Effect.Effect<unknown, BaseException>,
+    polls = 0,
+  ): Effect.Effect<unknown, BaseException> =>
+    pipe(
+      readOutcome(key),
+      Effect.flatMap(
+        Option.match({
+          onSome: fromStored,
+          onNone: () => {
+            const owner = uuidv4();
+            return pipe(
+              call('lock', () =>
+                store.acquireLock(`${key}:lock`, owner, lockSeconds),
+              ),
+              Effect.flatMap((locked) =>
+                locked
+                  ? runLocked(key, owner, next)
+                  : polls >= maxPolls
+                    ? Effect.fail(
+                        ConcurrencyException.new(
+                          'IDEMPOTENCY_IN_PROGRESS',
+                          `Command ${key} is still running`,
+                        ),
+                      )
+                    : pipe(
+                        Effect.sleep(pollInterval),
+                        Effect.zipRight(run(key, next, polls + 1)),
+                      ),
+              ),
+            );
+          },
+        }),
+      ),
+    );
+
+  return ({ kind, tag, message }, next) => {
+    const lifecycle =
+      kind === 'command' ? (message as Command<unknown>).lifecycle : undefined;
+    if (lifecycle?.idempotencyKey === undefined) {
+      return next;
+    }
+    // Clients choose keys, so one tenant or user cannot replay another's
+    const { tenantId = '', userId = '' } = lifecycle.context;
+    return run(
+      `idempotency:${tag}:${tenantId}:${userId}:${lifecycle.idempotencyKey}`,
+      next,
+    );
+  };
+};
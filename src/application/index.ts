@@ -2,3 +2,6 @@ export * from './command.base';
 export * from './usecase.base';
 export * from './lifecyle.meta';
 export * from './query.base';
+export * from './process-manager';
+export * from './message-bus';
+export * from './idempotency.middleware';
@@ -1,21 +1,27 @@
 import { Option, pipe } from 'effect';
-import { ReadonlyRecord } from 'effect/Record';
+import { CorrelationContext, IDomainEvent } from '@model/interfaces';
 import { v4 as uuidv4 } from 'uuid';
 
-export type LifeCycleContext = Record<string, never>;
+/**
+ * Request context carried with a command
+ */
+export type LifeCycleContext = Omit<CorrelationContext, 'correlationId'>;
 
 export type LifeCycleMeta = {
   createdTimestamp: number;
   /** ID for correlation purposes (for UnitOfWork, for commands that
    *  arrive from other microservices,logs correlation etc). */
   correlationId: string;
-  context: ReadonlyRecord<string, never>;
+  context: LifeCycleContext;
+  /** Client supplied key (e.g. the Idempotency-Key header); commands with
+   *  the same key run once, see `idempotencyMiddleware`. */
+  idempotencyKey?: string;
 };
 
 export const LifeCycleMetaMod = {
   factory: (
     correlationId: Option.Option<string>,
-    context: Option.Option<ReadonlyRecord<string, never>>,
+    context: Option.Option<LifeCycleContext>,
   ): LifeCycleMeta => ({
     createdTimestamp: Date.now(),
     correlationId: pipe(
@@ -28,5 +34,29 @@ export const LifeCycleMetaMod = {
     ),
   }),
   autoFactory: () => LifeCycleMetaMod.factory(Option.none(), Option.none()),
+  /**
+   * Lifecycle of a command sent in reaction to an event: same correlation,
+   * user, tenant and trace, caused by the event
+   */
+  causedBy: (event: IDomainEvent): LifeCycleMeta =>
+    LifeCycleMetaMod.factory(
+      Option.some(event.metadata.correlationId),
+      Option.some({
+        causationId: event.id,
+        userId: event.metadata.userId,
+        tenantId: event.metadata.tenantId,
+        traceparent: event.metadata.traceparent,
+      }),
+    ),
+  withIdempotencyKey:
+    (idempotencyKey: string) =>
+    (meta: LifeCycleMeta): LifeCycleMeta => ({ ...meta, idempotencyKey }),
   correlationId: (meta: LifeCycleMeta) => meta.correlationId,
+  /**
+   * Context to pass to an `asCommand` command, so emitted events carry it
+   */
+  toCorrelationContext: (meta: LifeCycleMeta): CorrelationContext => ({
+    ...meta.context,
+    correlationId: meta.correlationId,
+  }),
 };
@@ -0,0 +1,193 @@
+import { Context, Effect, Layer, pipe, Schedule } from 'effect';
+import {
+  BaseException,
+  ConcurrencyException,
+  OperationException,
+} from '@model/exception';
+import { Command } from './command.base';
+import { Query } from './query.base';
+import { CommandHandler, QueryHandler } from './usecase.base';
+
+/**
+ * Handlers by command tag
+ */
+export type CommandHandlers = Readonly<
+  Record<string, CommandHandler<any, any>>
+>;
+
+/**
+ * Handlers by query tag
+ */
+export type QueryHandlers = Readonly<Record<string, QueryHandler<any, any>>>;
+
+export type HandlerMessage<H> = H extends (message: infer M) => any ? M : never;
+
+export type HandlerResult<H> = H extends (
+  message: any,
+) => Effect.Effect<infer A, any, any>
+  ? A
+  : never;
+
+/**
+ * What a middleware knows about the message being dispatched
+ */
+export interface MessageContext {
+  readonly kind: 'command' | 'query';
+  readonly tag: string;
+  readonly message: Command<unknown> | Query<unknown>;
+}
+
+/**
+ * Wraps the execution of a handler; `next` runs the rest of the chain.
+ * Use it for logging, validation, transactions, authorization or retries.
+ */
+export type BusMiddleware = (
+  context: MessageContext,
+  next: Effect.Effect<unknown, BaseException, never>,
+) => Effect.Effect<unknown, BaseException, never>;
+
+export interface BusOptions {
+  /**
+   * Applied in order, the first middleware being the outermost
+   */
+  readonly middleware?: ReadonlyArray<BusMiddleware>;
+}
+
+export interface CommandBus<H extends CommandHandlers = CommandHandlers> {
+  execute<K extends keyof H & string>(
+    tag: K,
+    command: HandlerMessage<H[K]>,
+  ): Effect.Effect<HandlerResult<H[K]>, BaseException, never>;
+}
+
+export interface QueryBus<H extends QueryHandlers = QueryHandlers> {
+  execute<K extends keyof H & string>(
+    tag: K,
+    query: HandlerMessage<H[K]>,
+  ): Effect.Effect<HandlerResult<H[K]>, BaseException, never>;
+}
+
+const dispatcher = <H extends CommandHandlers | QueryHandlers>(
+  kind: MessageContext['kind'],
+  handlers: H,
+  { middleware = [] }: BusOptions,
+) => {
+  const run = <K extends keyof H & string>(
+    tag: K,
+    message: HandlerMessage<H[K]>,
+  ): Effect.Effect<HandlerResult<H[K]>, BaseException, never> => {
+    // Own properties only, so tags like 'toString' are not handlers
+    if (!Object.prototype.hasOwnProperty.call(handlers, tag)) {
+      return Effect.fail(
+        OperationException.new(
+          'HANDLER_NOT_FOUND',
+          `No ${kind} handler registered for "${tag}"`,
+        ),
+      );
+    }
+    const context: MessageContext = { kind, tag, message };
+    const handled = middleware.reduceRight<
+      Effect.Effect<unknown, BaseException, never>
+    >(
+      (next, wrap) => wrap(context, next),
+      Effect.suspend(() => handlers[tag](message)),
+    );
+    // Middleware passes on (or replays) the result of the handler under `tag`
+    return handled as Effect.Effect<HandlerResult<H[K]>, BaseException, never>;
+  };
+  return run;
+};
+
+/**
+ * Create a command bus that dispatches commands to handlers by tag.
+ *
+ * Usage:
+ * ```typescript
+ * const commandBus = createCommandBus(
+ *   {
+ *     PlaceOrder: placeOrderHandler,
+ *     CancelOrder: cancelOrderHandler,
+ *   },
+ *   { middleware: [loggingMiddleware, retryMiddleware({ times: 3 })] },
+ * );
+ *
+ * commandBus.execute('PlaceOrder', command); // typed by placeOrderHandler
+ * ```
+ */
+export const createCommandBus = <H extends CommandHandlers>(
+  handlers: H,
+  options: BusOptions = {},
+): CommandBus<H> => {
+  return { execute: dispatcher('command', handlers, options) };
+};
+
+/**
+ * Create a query bus that dispatches queries to handlers by tag
+ */
+export const createQueryBus = <H extends QueryHandlers>(
+  handlers: H,
+  options: BusOptions = {},
+): QueryBus<H> => {
+  return { execute: dispatcher('query', handlers, options) };
+};
+
+/**
+ * Create a Layer providing a command bus under the given tag
+ *
+ * Usage:
+ * ```typescript
+ * const handlers = { PlaceOrder: placeOrderHandler };
+ *
+ * class AppCommandBus extends Context.Tag('AppCommandBus')<
+ *   AppCommandBus,
+ *   CommandBus<typeof handlers>
+ * >() {}
+ *
+ * const CommandBusLayer = createCommandBusLayer(AppCommandBus, handlers);
+ * ```
+ */
+export const createCommandBusLayer = <Id, H extends CommandHandlers>(
+  tag: Context.Tag<Id, CommandBus<H>>,
+  handlers: H,
+  options: BusOptions = {},
+): Layer.Layer<Id> => Layer.succeed(tag, createCommandBus(handlers, options));
+
+/**
+ * Create a Layer providing a query bus under the given tag
+ */
+export const createQueryBusLayer = <Id, H extends QueryHandlers>(
+  tag: Context.Tag<Id, QueryBus<H>>,
+  handlers: H,
+  options: BusOptions = {},
+): Layer.Layer<Id> => Layer.succeed(tag, createQueryBus(handlers, options));
+
+/**
+ * Log every dispatch with its outcome and duration
+ */
+export const loggingMiddleware: BusMiddleware = ({ kind, tag }, next) =>
+  pipe(
+    next,
+    Effect.tapBoth({
+      onFailure: (error) =>
+        Effect.logWarning(`[${kind}] ${tag} failed: ${error.message}`),
+      onSuccess: () => Effect.logDebug(`[${kind}] ${tag} succeeded`),
+    }),
+    Effect.withLogSpan(tag),
+  );
+
+/**
+ * Re-run the handler when it fails with a retryable error,
+ * by default only ConcurrencyException
+ */
+export const retryMiddleware =
+  ({
+    times,
+    schedule = Schedule.exponential('50 millis'),
+    while: retryable = (error) => error instanceof ConcurrencyException,
+  }: {
+    times: number;
+    schedule?: Schedule.Schedule<unknown, BaseException>;
+    while?: (error: BaseException) => boolean;
+  }): BusMiddleware =>
+  (_, next) =>
+    Effect.retry(next, { times, schedule, while: retryable });
@@ -0,0 +1,335 @@
+import { Duration, Effect, Option, pipe } from 'effect';
+import { BaseException } from '@model/exception';
+import { IDomainEvent } from '@model/interfaces';
+import { Command, CommandTrait } from './command.base';
+import { LifeCycleMetaMod } from './lifecyle.meta';
+
+export type ProcessStatus = 'running' | 'completed' | 'compensated';
+
+/**
+ * Command a process manager wants to send, by handler name
+ */
+export interface ProcessCommand<P = unknown> {
+  readonly name: string;
+  readonly props: P;
+}
+
+/**
+ * Stored state of one running workflow, keyed by correlation id
+ */
+export interface ProcessInstance<S> {
+  readonly process: string;
+  readonly correlationId: string;
+  readonly state: S;
+  readonly status: ProcessStatus;
+  /**
+   * When the current step times out
+   */
+  readonly deadline: Option.Option<Date>;
+  /**
+   * Commands that undo completed steps, most recent last
+   */
+  readonly compensations: ReadonlyArray<ProcessCommand>;
+  /**
+   * Incremented by every save; used for optimistic concurrency checks
+   */
+  readonly version: number;
+}
+
+/**
+ * What a handler decides after an event or a timeout
+ */
+export interface ProcessStep<S> {
+  readonly state: S;
+  readonly commands?: ReadonlyArray<ProcessCommand>;
+  /**
+   * Register commands that undo this step
+   */
+  readonly compensations?: ReadonlyArray<ProcessCommand>;
+  /**
+   * Start (or restart) the timeout of the next step
+   */
+  readonly timeout?: Duration.DurationInput;
+  readonly complete?: boolean;
+  /**
+   * Run the registered compensations in reverse order and stop
+   */
+  readonly compensate?: boolean;
+}
+
+export type ProcessHandler<S> = (
+  state: S,
+  event: IDomainEvent,
+) => Effect.Effect<ProcessStep<S>, BaseException, never>;
+
+export interface ProcessManagerDefinition<S> {
+  readonly name: string;
+  /**
+   * Events that start a new instance when none exists for their correlation id
+   */
+  readonly startedBy: ReadonlyArray<string>;
+  readonly initialState: (event: IDomainEvent) => S;
+  readonly handlers: Readonly<Record<string, ProcessHandler<S>>>;
+  /**
+   * Called when the deadline passes; compensates by default
+   */
+  readonly onTimeout?: (
+    state: S,
+  ) => Effect.Effect<ProcessStep<S>, BaseException, never>;
+}
+
+/**
+ * Port for storing process instances
+ */
+export interface IProcessStateRepository<S = unknown> {
+  findOne(
+    process: string,
+    correlationId: string,
+  ): Effect.Effect<Option.Option<ProcessInstance<S>>, BaseException, never>;
+
+  /**
+   * Insert version 1 or update the stored version - 1;
+   * fails with a ConcurrencyException otherwise
+   */
+  save(instance: ProcessInstance<S>): Effect.Effect<void, BaseException, never>;
+
+  /**
+   * Running instances whose deadline is before `now`
+   */
+  findExpired(
+    process: string,
+    now: Date,
+  ): Effect.Effect<ReadonlyArray<ProcessInstance<S>>, BaseException, never>;
+}
+
+export interface ProcessManagerDependencies<S> {
+  readonly repository: IProcessStateRepository<S>;
+  /**
+   * Send a command to its handler
+   */
+  readonly dispatch: (
+    name: string,
+    command: Command<unknown>,
+  ) => Effect.Effect<void, BaseException, never>;
+}
+
+export interface ProcessManager {
+  /**
+   * React to a domain event; subscribe this to the event publisher
+   */
+  handle: (event: IDomainEvent) => Effect.Effect<void, BaseException, never>;
+
+  /**
+   * Handle every instance whose deadline has passed, returning how many were
+   * handled. A failing instance is logged and retried by the next check.
+   */
+  checkTimeouts: (now?: Date) => Effect.Effect<number, BaseException, never>;
+
+  /**
+   * Undo the completed steps of an instance
+   */
+  compensate: (
+    correlationId: string,
+  ) => Effect.Effect<void, BaseException, never>;
+}
+
+/**
+ * Create a process manager (saga) that coordinates several aggregates.
+ *
+ * Instances are keyed by the correlation id of the events they react to, and
+ * every command they send carries that correlation id. The new state is saved
+ * only after its commands are dispatched: a failed dispatch or save leaves the
+ * stored state as it was, so the step runs again on redelivery. Delivery is
+ * at-least-once and command handlers must be idempotent.
+ *
+ * Usage:
+ * ```typescript
+ * const Checkout = createProcessManager<CheckoutState>(
+ *   {
+ *     name: 'checkout',
+ *     startedBy: ['OrderPlaced'],
+ *     initialState: (event) => ({ orderId: event.aggregateId! }),
+ *     handlers: {
+ *       OrderPlaced: (state) =>
+ *         Effect.succeed({
+ *           state,
+ *           commands: [{ name: 'ReserveStock', props: { orderId: state.orderId } }],
+ *           compensations: [{ name: 'ReleaseStock', props: { orderId: state.orderId } }],
+ *           timeout: '15 minutes',
+ *         }),
+ *       PaymentCaptured: (state) => Effect.succeed({ state, complete: true }),
+ *       PaymentFailed: (state) => Effect.succeed({ state, compensate: true }),
+ *     },
+ *   },
+ *   { repository, dispatch: (name, command) => commandBus.execute(name, command) },
+ * );
+ * ```
+ */
+export const createProcessManager = <S>(
+  definition: ProcessManagerDefinition<S>,
+  { repository, dispatch }: ProcessManagerDependencies<S>,
+): ProcessManager => {
+  // Commands sent in reaction to an event are caused by it
+  const send = (
+    correlationId: string,
+    commands: ReadonlyArray<ProcessCommand>,
+    cause: Option.Option<IDomainEvent> = Option.none(),
+  ) =>
+    Effect.forEach(
+      commands,
+      ({ name, props }) =>
+        dispatch(
+          name,
+          CommandTrait.factory<Command<unknown>>({
+            lifecycle: Option.some(
+              Option.match(cause, {
+                onNone: () =>
+                  LifeCycleMetaMod.factory(
+                    Option.some(correlationId),
+                    Option.none(),
+                  ),
+                onSome: LifeCycleMetaMod.causedBy,
+              }),
+            ),
+            props,
+          }),
+        ),
+      { discard: true },
+    );
+
+  // The state is saved once every command is sent, as for other steps
+  const runCompensations = (
+    instance: ProcessInstance<S>,
+    commands: ReadonlyArray<ProcessCommand> = [],
+    cause: Option.Option<IDomainEvent> = Option.none(),
+  ): Effect.Effect<void, BaseException> =>
+    pipe(
+      send(instance.correlationId, commands, cause),
+      Effect.zipRight(
+        send(instance.correlationId, [...instance.compensations].reverse()),
+      ),
+      Effect.zipRight(
+        repository.save({
+          ...instance,
+          status: 'compensated',
+          deadline: Option.none(),
+          compensations: [],
+          version: instance.version + 1,
+        }),
+      ),
+    );
+
+  const applyStep = (
+    instance: ProcessInstance<S>,
+    step: ProcessStep<S>,
+    cause: Option.Option<IDomainEvent> = Option.none(),
+  ): Effect.Effect<void, BaseException> => {
+    const next: ProcessInstance<S> = {
+      ...instance,
+      state: step.state,
+      compensations: [...instance.compensations, ...(step.compensations ?? [])],
+      deadline: step.complete
+        ? Option.none()
+        : step.timeout !== undefined
+          ? Option.some(new Date(Date.now() + Duration.toMillis(step.timeout)))
+          : instance.deadline,
+    };
+    if (step.compensate) {
+      return runCompensations(next, step.commands, cause);
+    }
+    return pipe(
+      send(instance.correlationId, step.commands ?? [], cause),
+      Effect.zipRight(
+        repository.save({
+          ...next,
+          status: step.complete ? 'completed' : 'running',
+          version: instance.version + 1,
+        }),
+      ),
+    );
+  };
+
+  const start = (event: IDomainEvent): Option.Option<ProcessInstance<S>> =>
+    definition.startedBy.includes(event.name)
+      ? Option.some({
+          process: definition.name,
+          correlationId: event.metadata.correlationId,
+          state: definition.initialState(event),
+          status: 'running',
+          deadline: Option.none(),
+          compensations: [],
+          version: 0,
+        })
+      : Option.none();
+
+  const handle = (event: IDomainEvent): Effect.Effect<void, BaseException> => {
+    const handler = definition.handlers[event.name];
+    if (!handler) {
+      return Effect.void;
+    }
+    return pipe(
+      repository.findOne(definition.name, event.metadata.correlationId),
+      Effect.map(Option.orElse(() => start(event))),
+      Effect.flatMap(
+        Option.match({
+          onNone: () => Effect.void,
+          onSome: (instance) =>
+            instance.status !== 'running'
+              ? Effect.void
+              : pipe(
+                  handler(instance.state, event),
+                  Effect.flatMap((step) =>
+                    applyStep(instance, step, Option.some(event)),
+                  ),
+                ),
+        }),
+      ),
+    );
+  };
+
+  const checkTimeouts = (
+    now: Date = new Date(),
+  ): Effect.Effect<number, BaseException> =>
+    pipe(
+      repository.findExpired(definition.name, now),
+      Effect.flatMap((instances) =>
+        Effect.forEach(instances, (instance) =>
+          pipe(
+            definition.onTimeout
+              ? Effect.flatMap(definition.onTimeout(instance.state), (step) =>
+                  applyStep({ ...instance, deadline: Option.none() }, step),
+                )
+              : runCompensations(instance),
+            Effect.as(1),
+            Effect.catchAll((error) =>
+              Effect.as(
+                Effect.logError(
+                  `[ProcessManager] ${definition.name} timeout of ${instance.correlationId} failed: ${error.message}`,
+                ),
+                0,
+              ),
+            ),
+          ),
+        ),
+      ),
+      Effect.map((handled) => handled.reduce((sum, n) => sum + n, 0)),
+    );
+
+  const compensate = (
+    correlationId: string,
+  ): Effect.Effect<void, BaseException> =>
+    pipe(
+      repository.findOne(definition.name, correlationId),
+      Effect.flatMap(
+        Option.match({
+          onNone: () => Effect.void,
+          onSome: (instance) =>
+            instance.status === 'running'
+              ? runCompensations(instance)
+              : Effect.void,
+        }),
+      ),
+    );
+
+  return { handle, checkTimeouts, compensate };
+};
@@ -1,3 +1,5 @@
+import { Effect, pipe, Schema } from 'effect';
+import { ValidationException } from '@model/exception';
 import { GetProps, queryOnProps } from 'src/typeclasses/has-props';
 
 export type Query<T> = {
@@ -11,3 +13,60 @@ export const QueryTrait = {
   factory,
   queryProps: queryOnProps,
 };
+
+export interface QueryDefinition<Tag extends string, A, I = A> {
+  readonly tag: Tag;
+  readonly schema: Schema.Schema<A, I, never>;
+
+  /**
+   * Decode untrusted input (query string, message payload) into a query
+   */
+  decode(input: unknown): Effect.Effect<Query<A>, ValidationException, never>;
+
+  /**
+   * Build a query from props that are already valid
+   */
+  make(props: A): Query<A>;
+}
+
+/**
+ * Query type of a definition
+ */
+export type QueryOf<D> = D extends QueryDefinition<any, infer A, any>
+  ? Query<A>
+  : never;
+
+/**
+ * Define a query whose props are validated by a schema
+ *
+ * Usage:
+ * ```typescript
+ * const GetOrder = defineQuery('GetOrder', Schema.Struct({ orderId: Schema.UUID }));
+ *
+ * const query = yield* GetOrder.decode(request.params);
+ * ```
+ */
+export const defineQuery = <Tag extends string, A, I>(
+  tag: Tag,
+  schema: Schema.Schema<A, I, never>,
+): QueryDefinition<Tag, A, I> => {
+  const make = (props: A): Query<A> => factory<Query<A>>(props);
+
+  return {
+    tag,
+    schema,
+    make,
+    decode: (input) =>
+      pipe(
+        Schema.decodeUnknown(schema)(input, { errors: 'all' }),
+        Effect.mapError((error) =>
+          ValidationException.fromParseError(
+            error,
+            'INVALID_QUERY',
+            `Invalid ${tag} query`,
+          ),
+        ),
+        Effect.map(make),
+      ),
+  };
+};
@@ -1,6 +1,7 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
 import { createNamespace, getNamespace, Namespace } from 'cls-hooked';
+import { Option } from 'effect';
 
 const NAMESPACE_NAME = 'TransactionalNamespace';
 const namespace = createNamespace(NAMESPACE_NAME);
@@ -11,6 +12,31 @@ export const getNamespaceInstance = (): Namespace => {
 
 export const ENTITY_MANAGER_KEY = 'ENTITY_MANAGER';
 
+export const TENANT_ID_KEY = 'TENANT_ID';
+
+/**
+ * Tenant of the current request, none outside of a tenant context
+ */
+export const getCurrentTenantId = (): Option.Option<string> =>
+  Option.fromNullable(getNamespaceInstance().get(TENANT_ID_KEY));
+
+/**
+ * Run `fn` in a child context bound to `tenantId`; transactions and
+ * tenant-aware repositories used inside it see that tenant.
+ *
+ * Usage:
+ * ```typescript
+ * await runWithTenant('acme', () => Effect.runPromise(program));
+ * ```
+ */
+export const runWithTenant = <T>(tenantId: string, fn: () => T): T => {
+  const namespace = getNamespaceInstance();
+  return namespace.runAndReturn(() => {
+    namespace.set(TENANT_ID_KEY, tenantId);
+    return fn();
+  });
+};
+
 @Injectable()
 export class ClsMiddleware implements NestMiddleware {
   use(req: Request, res: Response, next: NextFunction) {
@@ -20,3 +46,30 @@ export class ClsMiddleware implements NestMiddleware {
     });
   }
 }
+
+/**
+ * Express middleware binding each request to its tenant. The resolver must
+ * read the tenant from the authenticated principal, never from a header the
+ * client controls. Requests without a tenant run without one, so
+ * tenant-aware repositories reject them.
+ *
+ * Usage:
+ * ```typescript
+ * consumer
+ *   .apply(
+ *     ClsMiddleware,
+ *     authMiddleware,
+ *     tenantMiddleware((req) => (req as AuthenticatedRequest).user?.tenantId),
+ *   )
+ *   .forRoutes('*');
+ * ```
+ */
+export const tenantMiddleware =
+  (resolveTenant: (req: Request) => string | undefined) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const tenantId = resolveTenant(req);
+    if (!tenantId) {
+      return next();
+    }
+    runWithTenant(tenantId, () => next());
+  };
@@ -1,4 +1,11 @@
+import { Effect, pipe } from 'effect';
 import { IEventBus } from '@model/event/event-bus';
+import {
+  DomainEventCodec,
+  DomainEventDefinition,
+  DomainEventWire,
+} from '@model/event/define-domain-event';
+import { ValidationException } from '@model/exception';
 import { IDomainEvent } from '@model/interfaces';
 import { EventBus as NestEventBus, IEvent } from '@nestjs/cqrs';
 
@@ -31,7 +38,12 @@ export class NestJsEventBusAdapter implements IEventBus {
  * A generic mapper that converts domain events to NestJS CQRS events
  * without knowledge of specific event types
  */
-export class DomainEventMapper {
+export class DomainEventMapper implements DomainEventCodec {
+  private readonly eventDefinitions: Record<
+    string,
+    DomainEventDefinition<string, any, any>
+  > = {};
+
   /**
    * Create a new mapper with the provided event type mappings
    */
@@ -51,6 +63,88 @@ export class DomainEventMapper {
     Object.assign(this.eventTypeMap, mappings);
   }
 
+  /**
+   * Register event definitions whose payload schema is checked before mapping
+   */
+  registerEventDefinitions(
+    definitions: ReadonlyArray<DomainEventDefinition<string, any, any>>,
+  ): void {
+    for (const definition of definitions) {
+      this.eventDefinitions[definition.name] = definition;
+    }
+  }
+
+  /**
+   * Encode a domain event into the wire format of its registered definition
+   */
+  encode(
+    domainEvent: IDomainEvent,
+  ): Effect.Effect<DomainEventWire, ValidationException, never> {
+    return pipe(
+      this.definitionFor(domainEvent.name),
+      Effect.flatMap((definition) =>
+        pipe(
+          this.checkVersion(definition, domainEvent),
+          Effect.flatMap((event) => definition.encode(event)),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Decode a domain event from the wire with its registered definition.
+   * Older versions are upcast by the definition first.
+   */
+  decode(
+    input: unknown,
+  ): Effect.Effect<IDomainEvent, ValidationException, never> {
+    const name =
+      typeof input === 'object' && input !== null && 'name' in input
+        ? String(input.name)
+        : '';
+    return pipe(
+      this.definitionFor(name),
+      Effect.flatMap((definition) =>
+        pipe(
+          definition.decode(input),
+          Effect.flatMap((event) => this.checkVersion(definition, event)),
+        ),
+      ),
+    );
+  }
+
+  private definitionFor(
+    name: string,
+  ): Effect.Effect<
+    DomainEventDefinition<string, any, any>,
+    ValidationException,
+    never
+  > {
+    const definition = this.eventDefinitions[name];
+    return definition
+      ? Effect.succeed(definition)
+      : Effect.fail(
+          ValidationException.new(
+            'UNKNOWN_DOMAIN_EVENT',
+            `No definition registered for event type: ${name}`,
+          ),
+        );
+  }
+
+  private checkVersion(
+    definition: DomainEventDefinition<string, any, any>,
+    domainEvent: IDomainEvent,
+  ): Effect.Effect<IDomainEvent, ValidationException, never> {
+    return domainEvent.version === definition.version
+      ? Effect.succeed(domainEvent)
+      : Effect.fail(
+          ValidationException.new(
+            'EVENT_VERSION_MISMATCH',
+            `${definition.name} event has version ${domainEvent.version}, expected ${definition.version}`,
+          ),
+        );
+  }
+
   /**
    * Map a domain event to a NestJS CQRS event
    */
@@ -61,6 +155,16 @@ export class DomainEventMapper {
       throw new Error(`No mapping found for event type: ${domainEvent.name}`);
     }
 
+    const definition = this.eventDefinitions[domainEvent.name];
+    if (definition && !definition.is(domainEvent)) {
+      throw new Error(`Invalid payload for event type: ${definition.name}`);
+    }
+    if (definition && domainEvent.version !== definition.version) {
+      throw new Error(
+        `Unexpected version ${domainEvent.version} for event type: ${definition.name}`,
+      );
+    }
+
     try {
       // First try to use the constructor arguments
       return new EventClass(
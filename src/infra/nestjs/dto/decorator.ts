@@ -1,6 +1,10 @@
 import { applyDecorators, Type } from '@nestjs/common';
 import { ApiExtraModels, ApiOkResponse, getSchemaPath } from '@nestjs/swagger';
-import { NormalResponseDto, PaginationResponseDto } from './dto';
+import {
+  CursorPaginationResponseDto,
+  NormalResponseDto,
+  PaginationResponseDto,
+} from './dto';
 
 /**
  * Swagger decorator for normal response with data wrapper
@@ -64,3 +68,26 @@ export const ApiOkResponsePaginated = <DataDto extends Type<unknown>>(
       },
     }),
   );
+
+export const ApiOkResponseCursorPaginated = <DataDto extends Type<unknown>>(
+  dataDto: DataDto,
+) =>
+  applyDecorators(
+    ApiExtraModels(CursorPaginationResponseDto, dataDto),
+    ApiOkResponse({
+      description: 'Successful cursor-paginated response',
+      schema: {
+        allOf: [
+          { $ref: getSchemaPath(CursorPaginationResponseDto) },
+          {
+            properties: {
+              data: {
+                type: 'array',
+                items: { $ref: getSchemaPath(dataDto) },
+              },
+            },
+          },
+        ],
+      },
+    }),
+  );
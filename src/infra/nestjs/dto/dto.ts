@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class NormalResponseDto<T> {
   data: T;
@@ -33,3 +33,24 @@ export class PaginationResponseDto<T> {
   @ApiProperty()
   limit: number;
 }
+
+export class CursorPaginationResponseDto<T> {
+  @ApiProperty()
+  message: string;
+
+  data: T[];
+
+  @ApiPropertyOptional({
+    description: 'Pass as `cursor` to fetch the next page',
+  })
+  nextCursor?: string;
+
+  @ApiProperty()
+  hasNext: boolean;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiPropertyOptional({ description: 'Only present when count was requested' })
+  total?: number;
+}
@@ -1,4 +1,9 @@
-import { NormalResponseDto, PaginationResponseDto } from './dto';
+import { DataWithCursorMeta } from '@model/interfaces';
+import {
+  CursorPaginationResponseDto,
+  NormalResponseDto,
+  PaginationResponseDto,
+} from './dto';
 
 /**
  * Create a paginated response
@@ -17,6 +22,21 @@ export const toPaginationResponse = <T>(
   limit,
 });
 
+/**
+ * Create a cursor-paginated response from a `findManyByCursor` result
+ */
+export const toCursorPaginationResponse = <T>(
+  result: DataWithCursorMeta<T[]>,
+  message: string = 'Success',
+): CursorPaginationResponseDto<T> => ({
+  message,
+  data: result.data,
+  nextCursor: result.nextCursor,
+  hasNext: result.hasNext,
+  limit: result.limit,
+  total: result.count,
+});
+
 /**
  * Create a normal response with data wrapper
  */
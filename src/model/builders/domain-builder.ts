@@ -5,8 +5,13 @@ import {
   ValueObject,
   Entity,
   AggregateRoot,
+  BaseAggregateRootTrait,
+  EventSourcedAggregateRoot,
+  EventSourcedAggregateRootTrait,
   ParseResult,
   IDomainEvent,
+  CorrelationContext,
+  AggregatePolicy,
   EntityTrait,
   ValueObjectTrait,
   PropsParser,
@@ -15,10 +20,12 @@ import {
 import {
   AggGenericTrait,
   EntityGenericTrait,
+  PolicyTrait,
   ValueObjectGenericTrait,
 } from '../implementations';
 import { IdentifierTrait } from 'src/typeclasses';
 import { ValidationException } from '../exception';
+import { EventUpcasterRegistry } from '../event/upcaster';
 import {
   CommandResult,
   DomainModel,
@@ -48,7 +55,7 @@ export type QueryEffectFunction<Props = any, Return = any> = (
  */
 export type CommandFunction<E extends Entity, Input = any> = (
   input: Input,
-) => (entity: E, correlationId?: string) => CommandResult<E>;
+) => (entity: E, correlation?: string | CorrelationContext) => CommandResult<E>;
 
 /**
  * Raw command handler for entities (before wrapping with validators)
@@ -59,6 +66,7 @@ export type RawEntityCommandHandler<E extends Entity, Input = any> = (
   props: E['props'],
   entity: E,
   correlationId: string,
+  context: CorrelationContext,
 ) => Effect.Effect<{ props: E['props'] }, any, never>;
 
 /**
@@ -70,6 +78,7 @@ export type RawAggregateCommandHandler<A extends AggregateRoot, Input = any> = (
   props: A['props'],
   aggregate: A,
   correlationId: string,
+  context: CorrelationContext,
 ) => Effect.Effect<
   { props: A['props']; domainEvents: IDomainEvent[] },
   any,
@@ -77,9 +86,15 @@ export type RawAggregateCommandHandler<A extends AggregateRoot, Input = any> = (
 >;
 
 /**
- * Event handler function type
+ * Event handler function type.
+ * Folds a domain event into the aggregate props. In aggregates built with
+ * `buildEventSourcedAggregateRoot` it runs whenever a command emits an event
+ * with a matching name, and when events are replayed.
  */
-export type EventHandlerFunction = (event: IDomainEvent) => void;
+export type EventHandlerFunction<Props = any, P = any> = (
+  props: Props,
+  event: IDomainEvent<P>,
+) => Props;
 
 /**
  * Extract query method types from a queries record
@@ -165,11 +180,20 @@ interface AggregateConfig<
     string,
     never
   >,
-  H extends Record<string, EventHandlerFunction> = Record<string, never>,
+  H extends Record<string, EventHandlerFunction<A['props']>> = Record<
+    string,
+    never
+  >,
 > extends Omit<EntityConfig<A, ParseParam, NewParam, Q, any>, 'rawCommands'> {
   /** Raw aggregate command handlers - will be wrapped with validators at build time */
   readonly rawCommands: C;
   readonly eventHandlers: H;
+  /** Migrates replayed events to their latest payload version */
+  readonly upcasters?: EventUpcasterRegistry;
+  /** Policies checked before each command, by command name */
+  readonly commandPolicies?: Readonly<
+    Record<string, ReadonlyArray<AggregatePolicy<A, any>>>
+  >;
 }
 
 // ===== Enhanced Trait Types =====
@@ -200,6 +224,7 @@ interface EnhancedEntityTrait<
       props: E['props'],
       entity: E,
       correlationId: string,
+      context: CorrelationContext,
     ) => Effect.Effect<{ props: E['props'] }, any, never>,
     additionalValidators?: ReadonlyArray<EntityValidator<E>>,
   ) => CommandFunction<E, I>;
@@ -214,10 +239,32 @@ interface EnhancedAggregateRootTrait<
     QueryFunction<A['props']> | QueryEffectFunction<A['props']>
   > = Record<string, never>,
   C extends Record<string, CommandFunction<A>> = Record<string, never>,
-  H extends Record<string, EventHandlerFunction> = Record<string, never>,
+  H extends Record<string, EventHandlerFunction<A['props']>> = Record<
+    string,
+    never
+  >,
 > extends EnhancedEntityTrait<A, NewParam, ParseParam, Q, C> {
   eventHandlers: H;
 }
+
+interface EnhancedEventSourcedAggregateRootTrait<
+  A extends EventSourcedAggregateRoot,
+  NewParam = unknown,
+  ParseParam = unknown,
+  Q extends Record<
+    string,
+    QueryFunction<A['props']> | QueryEffectFunction<A['props']>
+  > = Record<string, never>,
+  C extends Record<string, CommandFunction<A>> = Record<string, never>,
+  H extends Record<string, EventHandlerFunction<A['props']>> = Record<
+    string,
+    never
+  >,
+> extends EnhancedAggregateRootTrait<A, NewParam, ParseParam, Q, C, H>,
+    Pick<
+      EventSourcedAggregateRootTrait<A, NewParam, ParseParam>,
+      'applyEvent' | 'replay' | 'rehydrate'
+    > {}
 // ===== Type Guards and Utilities =====
 
 type AnyDomainConfig = DomainConfig<any, any, any, any>;
@@ -476,6 +523,8 @@ const withCommand =
 /**
  * Add aggregate command - only works with Aggregate configs
  * Stores raw handler - will be wrapped with validators at build time
+ * Policies, if any, are checked against the actor before the handler runs.
+ * Adding a command again replaces its handler and its policies.
  */
 const withAggregateCommand =
   <TConfig extends AnyAggregateConfig, K extends string, I>(
@@ -483,6 +532,9 @@ const withAggregateCommand =
     handler: TConfig extends AggregateConfig<infer A, any, any, any, any, any>
       ? RawAggregateCommandHandler<A, I>
       : never,
+    policies?: TConfig extends AggregateConfig<infer A, any, any, any, any, any>
+      ? ReadonlyArray<AggregatePolicy<A, I>>
+      : never,
   ) =>
   (
     config: TConfig,
@@ -503,6 +555,14 @@ const withAggregateCommand =
         ...config.rawCommands,
         [name]: handler,
       },
+      commandPolicies: {
+        ...Object.fromEntries(
+          Object.entries(config.commandPolicies ?? {}).filter(
+            ([command]) => command !== name,
+          ),
+        ),
+        ...(policies ? { [name]: policies } : {}),
+      },
     } as TConfig & {
       rawCommands: TConfig['rawCommands'] & Record<K, typeof handler>;
     };
@@ -514,12 +574,14 @@ const withAggregateCommand =
 const withEventHandler =
   <TConfig extends AnyAggregateConfig, K extends string>(
     eventName: K,
-    handler: EventHandlerFunction,
+    handler: TConfig extends AggregateConfig<infer A, any, any, any, any, any>
+      ? EventHandlerFunction<A['props']>
+      : never,
   ) =>
   (
     config: TConfig,
   ): TConfig & {
-    eventHandlers: TConfig['eventHandlers'] & Record<K, EventHandlerFunction>;
+    eventHandlers: TConfig['eventHandlers'] & Record<K, typeof handler>;
   } => {
     // Ensure we only accept AggregateConfig
     if (!('eventHandlers' in config)) {
@@ -535,10 +597,27 @@ const withEventHandler =
         [eventName]: handler,
       },
     } as TConfig & {
-      eventHandlers: TConfig['eventHandlers'] & Record<K, EventHandlerFunction>;
+      eventHandlers: TConfig['eventHandlers'] & Record<K, typeof handler>;
     };
   };
 
+/**
+ * Add event upcasters applied to replayed events before their handlers run -
+ * only works with Aggregate configs
+ */
+const withEventUpcasters =
+  <TConfig extends AnyAggregateConfig>(upcasters: EventUpcasterRegistry) =>
+  (config: TConfig): TConfig => {
+    // Ensure we only accept AggregateConfig
+    if (!('eventHandlers' in config)) {
+      throw new Error(
+        'withEventUpcasters can only be used with Aggregate configurations',
+      );
+    }
+
+    return { ...config, upcasters };
+  };
+
 // ===== Enhanced Props Parser Factory =====
 
 /**
@@ -673,6 +752,7 @@ function buildValueObject<
   return {
     ...baseTrait,
     new: newMethod,
+    schema: config.schema,
     ...queryMethods,
   };
 }
@@ -737,12 +817,16 @@ function buildEntity<
   return {
     ...baseTrait,
     new: newMethod,
+    schema: config.schema,
     ...queryMethods,
     ...wrappedCommands,
   } as any;
 }
 
-function buildAggregateRoot<
+/**
+ * `new`, query stubs and wrapped commands shared by both aggregate builders
+ */
+function buildAggregateMembers<
   A extends AggregateRoot,
   ParseParam,
   NewParam,
@@ -751,30 +835,14 @@ function buildAggregateRoot<
     QueryFunction<A['props']> | QueryEffectFunction<A['props']>
   >,
   C extends Record<string, RawAggregateCommandHandler<A, any>>,
-  H extends Record<string, EventHandlerFunction>,
+  H extends Record<string, EventHandlerFunction<A['props']>>,
 >(
   config: AggregateConfig<A, ParseParam, NewParam, Q, C, H>,
-): EnhancedAggregateRootTrait<A, NewParam, ParseParam, Q, any, H> &
-  QueryMethods<A, Q> & {
-    [K in keyof C]: CommandFunction<A, Parameters<C[K]>[0]>;
-  } {
-  const propsParser = createPropsParser(
-    config as DomainConfig<A, ParseParam, NewParam, Q>,
-  );
-
-  // Widen validators for createAggregateRootTrait
-  const configValidators = config.validators as ReadonlyArray<
-    (props: A['props']) => Effect.Effect<A['props'], any, never>
-  >;
-
-  // Create aggregate root trait with validators baked in
-  // The trait's asCommand will automatically enforce these validators
-  const baseTrait = AggGenericTrait.createAggregateRootTrait<
-    A,
-    NewParam,
-    ParseParam
-  >(propsParser, config.tag, { autoGenId: true }, configValidators);
-
+  baseTrait: BaseAggregateRootTrait<A, NewParam, ParseParam>,
+  toReducer: (
+    rawHandler: RawAggregateCommandHandler<A, any>,
+  ) => RawAggregateCommandHandler<A, any>,
+) {
   // Override the new method if provided
   const newMethod = config.newMethod
     ? (params: NewParam) => {
@@ -797,15 +865,117 @@ function buildAggregateRoot<
     [K in keyof C]: CommandFunction<A, Parameters<C[K]>[0]>;
   };
   Object.entries(config.rawCommands).forEach(([key, rawHandler]) => {
-    (wrappedCommands as any)[key] = baseTrait.asCommand(rawHandler);
+    const policies = config.commandPolicies?.[key];
+    const command = baseTrait.asCommand(toReducer(rawHandler));
+    (wrappedCommands as any)[key] = policies
+      ? PolicyTrait.authorize(policies)(command)
+      : command;
   });
 
   return {
-    ...baseTrait,
     new: newMethod,
+    schema: config.schema,
     ...queryMethods,
     ...wrappedCommands,
     eventHandlers: config.eventHandlers,
+  };
+}
+
+function buildAggregateRoot<
+  A extends AggregateRoot,
+  ParseParam,
+  NewParam,
+  Q extends Record<
+    string,
+    QueryFunction<A['props']> | QueryEffectFunction<A['props']>
+  >,
+  C extends Record<string, RawAggregateCommandHandler<A, any>>,
+  H extends Record<string, EventHandlerFunction<A['props']>>,
+>(
+  config: AggregateConfig<A, ParseParam, NewParam, Q, C, H>,
+): EnhancedAggregateRootTrait<A, NewParam, ParseParam, Q, any, H> &
+  QueryMethods<A, Q> & {
+    [K in keyof C]: CommandFunction<A, Parameters<C[K]>[0]>;
+  } {
+  const propsParser = createPropsParser(
+    config as DomainConfig<A, ParseParam, NewParam, Q>,
+  );
+
+  // Widen validators for createAggregateRootTrait
+  const configValidators = config.validators as ReadonlyArray<
+    (props: A['props']) => Effect.Effect<A['props'], any, never>
+  >;
+
+  // Create aggregate root trait with validators baked in
+  // The trait's asCommand will automatically enforce these validators
+  const baseTrait = AggGenericTrait.createAggregateRootTrait<
+    A,
+    NewParam,
+    ParseParam
+  >(propsParser, config.tag, { autoGenId: true }, configValidators);
+
+  return {
+    ...baseTrait,
+    ...buildAggregateMembers(config, baseTrait, (rawHandler) => rawHandler),
+  } as any;
+}
+
+/**
+ * Build an aggregate whose state changes only through its event handlers.
+ * Emitted events are folded into the props the command started from, so the
+ * props a command returns are not used: replaying the same events rebuilds
+ * the same state. The trait also gets `applyEvent`, `replay` and `rehydrate`.
+ */
+function buildEventSourcedAggregateRoot<
+  A extends EventSourcedAggregateRoot,
+  ParseParam,
+  NewParam,
+  Q extends Record<
+    string,
+    QueryFunction<A['props']> | QueryEffectFunction<A['props']>
+  >,
+  C extends Record<string, RawAggregateCommandHandler<A, any>>,
+  H extends Record<string, EventHandlerFunction<A['props']>>,
+>(
+  config: AggregateConfig<A, ParseParam, NewParam, Q, C, H>,
+): EnhancedEventSourcedAggregateRootTrait<A, NewParam, ParseParam, Q, any, H> &
+  QueryMethods<A, Q> & {
+    [K in keyof C]: CommandFunction<A, Parameters<C[K]>[0]>;
+  } {
+  const propsParser = createPropsParser(
+    config as DomainConfig<A, ParseParam, NewParam, Q>,
+  );
+
+  // Widen validators for createEventSourcedAggregateRootTrait
+  const configValidators = config.validators as ReadonlyArray<
+    (props: A['props']) => Effect.Effect<A['props'], any, never>
+  >;
+
+  // The trait's asCommand folds emitted events into props through the
+  // registered event handlers, then enforces the validators
+  const baseTrait = AggGenericTrait.createEventSourcedAggregateRootTrait<
+    A,
+    NewParam,
+    ParseParam
+  >(
+    propsParser,
+    config.tag,
+    config.eventHandlers,
+    { autoGenId: true, upcasters: config.upcasters },
+    configValidators,
+  );
+
+  return {
+    ...baseTrait,
+    ...buildAggregateMembers(
+      config,
+      baseTrait,
+      (rawHandler) => (input, props, aggregate, correlationId, context) =>
+        Effect.map(
+          rawHandler(input, props, aggregate, correlationId, context),
+          ({ domainEvents }) => ({ props, domainEvents }),
+        ),
+    ),
   } as any;
 }
 
@@ -847,9 +1017,11 @@ export {
   withCommand,
   withAggregateCommand,
   withEventHandler,
+  withEventUpcasters,
   buildValueObject,
   buildEntity,
   buildAggregateRoot,
+  buildEventSourcedAggregateRoot,
 };
 
 // ===== Enhanced Instance Creation =====
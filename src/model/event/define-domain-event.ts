@@ -0,0 +1,196 @@
+import { Effect, Schema, pipe } from 'effect';
+import { ParseError } from 'effect/ParseResult';
+import {
+  AggregateRoot,
+  CorrelationContext,
+  IDomainEvent,
+} from '@model/interfaces';
+import { DomainEventTrait } from '@model/implementations/domain-event.impl';
+import { ValidationException } from '@model/exception';
+import { EventUpcasterRegistry } from './upcaster';
+
+/**
+ * Domain event whose name is known at compile time
+ */
+export type TypedDomainEvent<Name extends string, P> = IDomainEvent<P> & {
+  readonly name: Name;
+};
+
+/**
+ * Serializable representation of a domain event
+ */
+export interface DomainEventWire<P = unknown> {
+  readonly id: string;
+  readonly name: string;
+  readonly version: number;
+  readonly metadata: IDomainEvent['metadata'];
+  readonly payload: P;
+  readonly aggregateId?: string;
+  readonly aggregateType?: string;
+}
+
+export interface DomainEventDefinition<Name extends string, A, I = A> {
+  readonly name: Name;
+  /**
+   * Current payload schema version
+   */
+  readonly version: number;
+  readonly payloadSchema: Schema.Schema<A, I>;
+
+  /**
+   * Create an event with a payload of the declared type
+   */
+  create: <Agg extends AggregateRoot>(
+    params: CorrelationContext & {
+      payload: A;
+      aggregate?: Agg;
+    },
+  ) => TypedDomainEvent<Name, A>;
+
+  /**
+   * Check the event name and that the payload matches the schema
+   */
+  is: (event: IDomainEvent) => event is TypedDomainEvent<Name, A>;
+
+  /**
+   * Encode the event into its wire format
+   */
+  encode: (
+    event: IDomainEvent<A>,
+  ) => Effect.Effect<DomainEventWire<I>, ValidationException, never>;
+
+  /**
+   * Decode and validate an event from its wire format, upcasting older versions
+   */
+  decode: (
+    input: unknown,
+  ) => Effect.Effect<TypedDomainEvent<Name, A>, ValidationException, never>;
+}
+
+/**
+ * Encodes and decodes domain events of several registered definitions,
+ * e.g. for a message broker
+ */
+export interface DomainEventCodec {
+  encode: (
+    event: IDomainEvent,
+  ) => Effect.Effect<DomainEventWire, ValidationException, never>;
+  decode: (
+    input: unknown,
+  ) => Effect.Effect<IDomainEvent, ValidationException, never>;
+}
+
+const MetadataSchema = Schema.Struct({
+  timestamp: Schema.Number,
+  correlationId: Schema.String,
+  causationId: Schema.optional(Schema.String),
+  userId: Schema.optional(Schema.String),
+  tenantId: Schema.optional(Schema.String),
+  traceparent: Schema.optional(Schema.String),
+});
+
+const envelopeSchema = <A, I>(name: string, payload: Schema.Schema<A, I>) =>
+  Schema.Struct({
+    id: Schema.String,
+    name: Schema.Literal(name),
+    version: Schema.Number,
+    metadata: MetadataSchema,
+    payload,
+    aggregateId: Schema.optional(Schema.String),
+    aggregateType: Schema.optional(Schema.String),
+  });
+
+// Events written before versions existed are version 1
+const receivedEnvelopeSchema = <A, I>(
+  name: string,
+  payload: Schema.Schema<A, I>,
+) =>
+  Schema.Struct({
+    ...envelopeSchema(name, payload).fields,
+    version: Schema.optionalWith(Schema.Number, { default: () => 1 }),
+  });
+
+const withPayload = <Name extends string, P>(
+  event: Omit<IDomainEvent, 'getPayload' | 'payload'>,
+  payload: P,
+): TypedDomainEvent<Name, P> =>
+  ({
+    ...event,
+    payload,
+    getPayload: () => payload,
+  }) as TypedDomainEvent<Name, P>;
+
+/**
+ * Define a domain event backed by an Effect Schema for its payload.
+ *
+ * Usage:
+ * ```typescript
+ * const OrderPlaced = defineDomainEvent(
+ *   'OrderPlaced',
+ *   Schema.Struct({ orderId: Schema.String, total: Schema.Number }),
+ * );
+ *
+ * const event = OrderPlaced.create({ payload, correlationId, aggregate });
+ * const wire = yield* OrderPlaced.encode(event);
+ * const received = yield* OrderPlaced.decode(JSON.parse(message));
+ * ```
+ */
+export const defineDomainEvent = <Name extends string, A, I = A>(
+  name: Name,
+  payloadSchema: Schema.Schema<A, I>,
+  options: { version?: number; upcasters?: EventUpcasterRegistry } = {},
+): DomainEventDefinition<Name, A, I> => {
+  const version = options.version ?? 1;
+  const isPayload = Schema.is(payloadSchema);
+  const invalidEvent = (error: ParseError) =>
+    ValidationException.fromParseError(
+      error,
+      'INVALID_DOMAIN_EVENT',
+      `Invalid ${name} event`,
+    );
+
+  const encode = (event: IDomainEvent<A>) =>
+    pipe(
+      Schema.encode(envelopeSchema(name, payloadSchema))({
+        id: event.id,
+        name,
+        version: event.version,
+        metadata: event.metadata,
+        payload: event.payload,
+        aggregateId: event.aggregateId,
+        aggregateType: event.aggregateType,
+      }),
+      Effect.mapError(invalidEvent),
+    );
+
+  const decode = (input: unknown) =>
+    pipe(
+      Schema.decodeUnknown(receivedEnvelopeSchema(name, Schema.Unknown))(input),
+      Effect.map((wire) => withPayload(wire, wire.payload)),
+      Effect.map((event) =>
+        options.upcasters ? options.upcasters.upcast(event) : event,
+      ),
+      Effect.flatMap((event) =>
+        pipe(
+          Schema.decodeUnknown(payloadSchema)(event.payload),
+          Effect.map((payload) => withPayload<Name, A>(event, payload)),
+        ),
+      ),
+      Effect.mapError(invalidEvent),
+    );
+
+  return {
+    name,
+    version,
+    payloadSchema,
+    create: (params) =>
+      DomainEventTrait.create({ ...params, name, version }) as TypedDomainEvent<
+        Name,
+        A
+      >,
+    is: (event): event is TypedDomainEvent<Name, A> =>
+      event.name === name && isPayload(event.payload),
+    encode,
+    decode,
+  };
+};
@@ -1 +1,5 @@
 export * from './event-bus';
+export * from './outbox-relay';
+export * from './projection';
+export * from './upcaster';
+export * from './define-domain-event';
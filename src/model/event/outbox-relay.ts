@@ -0,0 +1,64 @@
+import { Duration, Effect, pipe } from 'effect';
+import { BaseException } from '@model/exception';
+import { IDomainEventPublisher, IOutboxRepository } from '@model/interfaces';
+
+export interface OutboxRelayOptions {
+  /**
+   * Maximum number of events dispatched per round (default 100)
+   */
+  batchSize?: number;
+}
+
+export interface OutboxRelay {
+  /**
+   * Dispatch one batch of pending events, returning how many were dispatched.
+   * Stops at the first failure so that events keep their order.
+   */
+  relayOnce: Effect.Effect<number, BaseException, never>;
+
+  /**
+   * Keep draining the outbox, waiting `interval` between rounds.
+   * Failed rounds are logged and retried on the next round.
+   */
+  run: (interval: Duration.DurationInput) => Effect.Effect<never, never, never>;
+}
+
+/**
+ * Create a relay that drains an outbox into a domain event publisher.
+ *
+ * Delivery is at-least-once: an event published right before a crash is
+ * published again, so subscribers should be idempotent.
+ */
+export const createOutboxRelay = (
+  outbox: IOutboxRepository,
+  publisher: IDomainEventPublisher,
+  options: OutboxRelayOptions = {},
+): OutboxRelay => {
+  const batchSize = options.batchSize ?? 100;
+
+  const relayOnce = pipe(
+    outbox.getPendingMessages(batchSize),
+    Effect.flatMap((messages) =>
+      Effect.forEach(messages, ({ id, event }) =>
+        pipe(
+          publisher.publish(event),
+          Effect.zipRight(outbox.markAsHandled(id)),
+        ),
+      ),
+    ),
+    Effect.map((dispatched) => dispatched.length),
+  );
+
+  const run = (interval: Duration.DurationInput) =>
+    Effect.forever(
+      pipe(
+        relayOnce,
+        Effect.catchAll((error) =>
+          Effect.logError(`[OutboxRelay] ${error.message}`),
+        ),
+        Effect.zipRight(Effect.sleep(interval)),
+      ),
+    );
+
+  return { relayOnce, run };
+};
@@ -0,0 +1,263 @@
+import { Duration, Effect, Option, pipe } from 'effect';
+import { BaseException, OperationException } from '@model/exception';
+import { IDomainEvent } from '@model/interfaces';
+
+/**
+ * Keeps a read model up to date from domain events.
+ * `Ctx` is what handlers write with, e.g. a TypeORM EntityManager.
+ */
+export interface Projector<Ctx = unknown> {
+  /**
+   * Unique name, used as the checkpoint key
+   */
+  readonly name: string;
+
+  /**
+   * Names of the events the handler cares about; other events are skipped
+   */
+  readonly events: ReadonlyArray<string>;
+
+  readonly handle: (
+    event: IDomainEvent,
+    context: Ctx,
+  ) => Effect.Effect<void, BaseException, never>;
+
+  /**
+   * Clear the read model before a rebuild
+   */
+  readonly reset?: (context: Ctx) => Effect.Effect<void, BaseException, never>;
+}
+
+/**
+ * Position in an event source, compared element by element,
+ * e.g. the outbox [transaction id, sequence]
+ */
+export type ProjectionPosition = ReadonlyArray<number>;
+
+/**
+ * Position of the last event a projector has seen
+ */
+export interface ProjectionCheckpoint {
+  readonly eventId: string;
+  readonly position: ProjectionPosition;
+}
+
+/**
+ * A stored event and its position in the event source
+ */
+export interface StoredEvent {
+  readonly event: IDomainEvent;
+  readonly position: ProjectionPosition;
+}
+
+/**
+ * Ordered log of stored events, e.g. an event store or the outbox table.
+ * Positions must follow the order in which events are committed, not the
+ * application clock, so no event lands behind a saved checkpoint.
+ */
+export interface ProjectionEventSource {
+  /**
+   * Events after the checkpoint (or from the start), oldest first
+   */
+  readAfter: (
+    checkpoint: Option.Option<ProjectionCheckpoint>,
+    limit: number,
+  ) => Effect.Effect<ReadonlyArray<StoredEvent>, BaseException, never>;
+}
+
+/**
+ * Where read models and checkpoints live
+ */
+export interface ProjectionStore<Ctx> {
+  /**
+   * Run `work` atomically, so handler writes and the checkpoint commit together
+   */
+  transaction: <A>(
+    work: (context: Ctx) => Effect.Effect<A, BaseException, never>,
+  ) => Effect.Effect<A, BaseException, never>;
+
+  getCheckpoint: (
+    context: Ctx,
+    projector: string,
+  ) => Effect.Effect<Option.Option<ProjectionCheckpoint>, BaseException, never>;
+
+  saveCheckpoint: (
+    context: Ctx,
+    projector: string,
+    checkpoint: Option.Option<ProjectionCheckpoint>,
+  ) => Effect.Effect<void, BaseException, never>;
+}
+
+export interface ProjectionRunnerOptions {
+  /**
+   * Maximum number of events applied per transaction (default 100)
+   */
+  batchSize?: number;
+}
+
+export interface ProjectionRunner {
+  /**
+   * Apply every event after the checkpoints, returning how many events were
+   * read. Without a name all projectors catch up.
+   */
+  catchUp: (projector?: string) => Effect.Effect<number, BaseException, never>;
+
+  /**
+   * Reset the read model and checkpoint, then replay the whole event source
+   */
+  rebuild: (projector: string) => Effect.Effect<number, BaseException, never>;
+
+  /**
+   * Keep catching up, waiting `interval` between rounds.
+   * Failed rounds are logged and retried on the next round.
+   */
+  run: (interval: Duration.DurationInput) => Effect.Effect<never, never, never>;
+}
+
+const toCheckpoint = ({
+  event,
+  position,
+}: StoredEvent): ProjectionCheckpoint => ({
+  eventId: event.id,
+  position,
+});
+
+/**
+ * Create a runner that feeds stored events to projectors.
+ *
+ * Each projector has its own checkpoint. A batch of events and the checkpoint
+ * after it are written in one transaction, so a crash never applies an event
+ * twice to a transactional read model.
+ *
+ * Usage:
+ * ```typescript
+ * const OrderSummaryProjector: Projector<EntityManager> = {
+ *   name: 'order-summary',
+ *   events: ['OrderPlaced', 'OrderShipped'],
+ *   handle: (event, manager) =>
+ *     Effect.tryPromise({
+ *       try: () => manager.getRepository(OrderSummaryEntity).save(...),
+ *       catch: (error) => OperationException.new('PROJECTION_FAILED', `${error}`),
+ *     }),
+ * };
+ *
+ * const runner = createProjectionRunner(
+ *   [OrderSummaryProjector],
+ *   createOutboxEventSource(dataSource),
+ *   createTypeormProjectionStore(dataSource),
+ * );
+ * runner.run('1 second');
+ * ```
+ */
+export const createProjectionRunner = <Ctx>(
+  projectors: ReadonlyArray<Projector<Ctx>>,
+  source: ProjectionEventSource,
+  store: ProjectionStore<Ctx>,
+  options: ProjectionRunnerOptions = {},
+): ProjectionRunner => {
+  const batchSize = options.batchSize ?? 100;
+  const byName = new Map(
+    projectors.map((projector) => [projector.name, projector]),
+  );
+  if (byName.size !== projectors.length) {
+    throw new Error('Projector names must be unique');
+  }
+
+  const getProjector = (
+    name: string,
+  ): Effect.Effect<Projector<Ctx>, BaseException> =>
+    pipe(
+      Option.fromNullable(byName.get(name)),
+      Option.match({
+        onNone: () =>
+          Effect.fail(
+            OperationException.new(
+              'PROJECTOR_NOT_FOUND',
+              `No projector named "${name}"`,
+            ),
+          ),
+        onSome: Effect.succeed,
+      }),
+    );
+
+  const applyBatch = (
+    projector: Projector<Ctx>,
+  ): Effect.Effect<number, BaseException> =>
+    store.transaction((context) =>
+      pipe(
+        store.getCheckpoint(context, projector.name),
+        Effect.flatMap((checkpoint) => source.readAfter(checkpoint, batchSize)),
+        Effect.tap((events) =>
+          Effect.forEach(
+            events.filter(({ event }) => projector.events.includes(event.name)),
+            ({ event }) => projector.handle(event, context),
+            { discard: true },
+          ),
+        ),
+        Effect.tap((events) =>
+          events.length === 0
+            ? Effect.void
+            : store.saveCheckpoint(
+                context,
+                projector.name,
+                Option.some(toCheckpoint(events[events.length - 1])),
+              ),
+        ),
+        Effect.map((events) => events.length),
+      ),
+    );
+
+  const catchUpProjector = (
+    projector: Projector<Ctx>,
+    applied = 0,
+  ): Effect.Effect<number, BaseException> =>
+    pipe(
+      applyBatch(projector),
+      Effect.flatMap((count) =>
+        count < batchSize
+          ? Effect.succeed(applied + count)
+          : catchUpProjector(projector, applied + count),
+      ),
+    );
+
+  const catchUp = (name?: string): Effect.Effect<number, BaseException> =>
+    name === undefined
+      ? pipe(
+          Effect.forEach(projectors, (projector) =>
+            catchUpProjector(projector),
+          ),
+          Effect.map((counts) => counts.reduce((sum, n) => sum + n, 0)),
+        )
+      : Effect.flatMap(getProjector(name), (projector) =>
+          catchUpProjector(projector),
+        );
+
+  const rebuild = (name: string): Effect.Effect<number, BaseException> =>
+    pipe(
+      getProjector(name),
+      Effect.tap((projector) =>
+        store.transaction((context) =>
+          pipe(
+            projector.reset ? projector.reset(context) : Effect.void,
+            Effect.zipRight(
+              store.saveCheckpoint(context, projector.name, Option.none()),
+            ),
+          ),
+        ),
+      ),
+      Effect.flatMap((projector) => catchUpProjector(projector)),
+    );
+
+  const run = (interval: Duration.DurationInput) =>
+    Effect.forever(
+      pipe(
+        catchUp(),
+        Effect.catchAll((error) =>
+          Effect.logError(`[ProjectionRunner] ${error.message}`),
+        ),
+        Effect.zipRight(Effect.sleep(interval)),
+      ),
+    );
+
+  return { catchUp, rebuild, run };
+};
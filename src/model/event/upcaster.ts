@@ -0,0 +1,86 @@
+import { IDomainEvent } from '@model/interfaces';
+
+/**
+ * Migrates an event payload from one schema version to the next
+ */
+export type EventUpcaster<From = any, To = any> = (
+  payload: From,
+  event: IDomainEvent<From>,
+) => To;
+
+export interface EventUpcasterRegistry {
+  /**
+   * Register the migration of `eventName` payloads from `fromVersion` to `fromVersion + 1`
+   */
+  register: <From = any, To = any>(
+    eventName: string,
+    fromVersion: number,
+    upcaster: EventUpcaster<From, To>,
+  ) => EventUpcasterRegistry;
+
+  /**
+   * Apply registered upcasters until the event reaches its latest version.
+   * Events stored before versions existed are taken as version 1.
+   */
+  upcast: <P = any>(event: IDomainEvent) => IDomainEvent<P>;
+
+  /**
+   * Latest known schema version for an event name
+   */
+  latestVersion: (eventName: string) => number;
+}
+
+/**
+ * Create a registry of event upcasters.
+ *
+ * Usage:
+ * ```typescript
+ * const upcasters = createEventUpcasterRegistry()
+ *   .register('OrderPlaced', 1, (p) => ({ ...p, currency: 'USD' }))
+ *   .register('OrderPlaced', 2, ({ total, ...p }) => ({ ...p, amount: total }));
+ *
+ * const current = upcasters.upcast(storedEvent); // version 3
+ * ```
+ */
+export const createEventUpcasterRegistry = (): EventUpcasterRegistry => {
+  const upcasters = new Map<string, Map<number, EventUpcaster>>();
+
+  const registry: EventUpcasterRegistry = {
+    register: (eventName, fromVersion, upcaster) => {
+      const byVersion = upcasters.get(eventName) ?? new Map();
+      if (byVersion.has(fromVersion)) {
+        throw new Error(
+          `Upcaster for ${eventName} v${fromVersion} is already registered`,
+        );
+      }
+      byVersion.set(fromVersion, upcaster);
+      upcasters.set(eventName, byVersion);
+      return registry;
+    },
+
+    upcast: <P = any>(event: IDomainEvent): IDomainEvent<P> => {
+      const byVersion = upcasters.get(event.name);
+      let current: IDomainEvent =
+        event.version === undefined ? { ...event, version: 1 } : event;
+      let upcaster = byVersion?.get(current.version);
+      while (upcaster) {
+        const payload = upcaster(current.payload, current);
+        current = {
+          ...current,
+          version: current.version + 1,
+          payload,
+          getPayload: () => payload,
+        };
+        upcaster = byVersion?.get(current.version);
+      }
+      return current as IDomainEvent<P>;
+    },
+
+    latestVersion: (eventName) => {
+      const versions = [...(upcasters.get(eventName)?.keys() ?? [])];
+      return versions.length === 0 ? 1 : Math.max(...versions) + 1;
+    },
+  };
+
+  return registry;
+};
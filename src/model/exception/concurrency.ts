@@ -0,0 +1,24 @@
+import { Data } from 'effect';
+import { BaseExceptionProps, formatExceptionMessage } from './base';
+
+export interface ConcurrencyExceptionContent {
+  aggregateId?: string;
+  expectedVersion?: number;
+  actualVersion?: number;
+}
+
+export class ConcurrencyException extends Data.TaggedError('Concurrency')<
+  BaseExceptionProps<ConcurrencyExceptionContent>
+> {
+  static new(
+    code: string,
+    message: string,
+    content?: ConcurrencyExceptionContent,
+  ): ConcurrencyException {
+    return new ConcurrencyException({
+      code,
+      message: formatExceptionMessage(code, message),
+      content,
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { Data } from 'effect';
+import { BaseExceptionProps, formatExceptionMessage } from './base';
+
+export interface ForbiddenExceptionContent {
+  /**
+   * Why the policy denied the action
+   */
+  reason?: string;
+  userId?: string;
+  aggregateId?: string;
+}
+
+export class ForbiddenException extends Data.TaggedError('Forbidden')<
+  BaseExceptionProps<ForbiddenExceptionContent>
+> {
+  static new(
+    code: string,
+    message: string,
+    content?: ForbiddenExceptionContent,
+  ): ForbiddenException {
+    return new ForbiddenException({
+      code,
+      message: formatExceptionMessage(code, message),
+      content,
+    });
+  }
+}
@@ -1,5 +1,7 @@
 import { ParseError } from 'effect/ParseResult';
 import { CommonException } from './base';
+import { ConcurrencyException } from './concurrency';
+import { ForbiddenException } from './forbidden';
 import { NotFoundException } from './not-found';
 import { OperationException } from './operation';
 import { ValidationException } from './validation';
@@ -8,10 +10,14 @@ export * from './base';
 export * from './validation';
 export * from './not-found';
 export * from './operation';
+export * from './concurrency';
+export * from './forbidden';
 
 export type BaseException =
   | CommonException
   | OperationException
   | ValidationException
   | NotFoundException
+  | ConcurrencyException
+  | ForbiddenException
   | ParseError;
@@ -1,17 +1,41 @@
-import { IDomainEvent } from '../interfaces/domain-event.interface';
+import {
+  CorrelationContext,
+  IDomainEvent,
+} from '../interfaces/domain-event.interface';
 import {
   AggregatePropsParser,
   AggregateRoot,
   AggregateRootTrait,
   AggregateValidator,
   BaseAggregateRootTrait,
+  EventAppliers,
+  EventSourcedAggregateRoot,
+  EventSourcedAggregateRootTrait,
+  EventSourcedTraitOptions,
   IAggGenericTrait,
 } from '../interfaces/aggregate-root.interface';
 import { CommandOnModel } from '../interfaces/entity.interface';
-import { GetProps, IdentifierTrait } from 'src/typeclasses';
+import { GetProps } from 'src/typeclasses';
 import { Effect, Option, pipe } from 'effect';
 import { CoreException } from '../interfaces/validation.interface';
-import { EntityGenericTrait } from './entity.impl';
+import { ValidationException } from '../exception';
+import {
+  CorrelationContextTrait,
+  EntityGenericTrait,
+  touchUpdatedAt,
+} from './entity.impl';
+
+/**
+ * Fold events into props, skipping events without a registered applier
+ */
+const foldEvents =
+  <A extends AggregateRoot>(appliers: EventAppliers<A>) =>
+  (props: GetProps<A>, events: ReadonlyArray<IDomainEvent>): GetProps<A> =>
+    events.reduce(
+      (acc, event) =>
+        appliers[event.name] ? appliers[event.name](acc, event) : acc,
+      props,
+    );
 
 /**
  * Implementation of the generic aggregate root trait
@@ -57,15 +81,26 @@ export const AggGenericTrait: IAggGenericTrait = {
       options,
     );
 
+    const markPersisted = (aggregate: A): A => ({
+      ...aggregate,
+      persistedVersion: aggregate.version,
+    });
+
     const parse = (i: any) =>
       pipe(
         i,
         entityTrait.parse,
         Effect.map(AggGenericTrait.addDomainEvents([])),
+        Effect.map(markPersisted),
       );
 
     const newMethod = (i: N) =>
-      pipe(i, entityTrait.new, Effect.map(AggGenericTrait.addDomainEvents([])));
+      pipe(
+        i,
+        entityTrait.new,
+        Effect.map(AggGenericTrait.addDomainEvents([])),
+        Effect.map(markPersisted),
+      );
 
     /**
      * Creates a command that:
@@ -78,6 +113,7 @@ export const AggGenericTrait: IAggGenericTrait = {
         props: GetProps<A>,
         aggregate: A,
         correlationId: string,
+        context: CorrelationContext,
       ) => Effect.Effect<
         { props: GetProps<A>; domainEvents: IDomainEvent[] },
         CoreException,
@@ -91,14 +127,15 @@ export const AggGenericTrait: IAggGenericTrait = {
         : validators;
 
       return (input: I): CommandOnModel<A> => {
-        return (aggregate: A, correlationId?: string) => {
-          const _correlationId = correlationId || IdentifierTrait.uuid();
+        return (aggregate: A, correlation?: string | CorrelationContext) => {
+          const context = CorrelationContextTrait.resolve(correlation);
           return pipe(
             reducerLogic(
               input,
               AggGenericTrait.unpack(aggregate),
               aggregate,
-              _correlationId,
+              context.correlationId,
+              context,
             ),
             Effect.flatMap(({ props, domainEvents }) => {
               // Run all validators on new props
@@ -129,7 +166,8 @@ export const AggGenericTrait: IAggGenericTrait = {
                   return {
                     ...withEvents,
                     props: validatedProps as A['props'],
-                    updatedAt: Option.some(new Date()),
+                    updatedAt: touchUpdatedAt(aggregate, validatedProps),
+                    version: aggregate.version + 1,
                   };
                 }),
               );
@@ -145,4 +183,150 @@ export const AggGenericTrait: IAggGenericTrait = {
       asCommand,
     };
   },
+
+  createEventSourcedAggregateRootTrait: <
+    A extends EventSourcedAggregateRoot,
+    N = unknown,
+    P = unknown,
+  >(
+    propsParser: AggregatePropsParser<A, P>,
+    tag: string,
+    appliers: EventAppliers<A>,
+    options?: EventSourcedTraitOptions,
+    validators: ReadonlyArray<AggregateValidator<A>> = [],
+  ): EventSourcedAggregateRootTrait<A, N, P> => {
+    const baseTrait = AggGenericTrait.createAggregateRootTrait<A, N, P>(
+      propsParser,
+      tag,
+      options,
+      validators,
+    );
+    const applyAll = foldEvents(appliers);
+
+    // State loaded from a table has no event history unless the input says so
+    const withEventVersion =
+      (input?: { eventVersion?: number }) =>
+      (aggregate: A): A => ({
+        ...aggregate,
+        eventVersion: input?.eventVersion ?? 0,
+      });
+
+    /**
+     * Same contract as the base asCommand, except that every emitted event is
+     * folded into the returned props before validation and bumps eventVersion.
+     */
+    const asCommand = <I>(
+      reducerLogic: (
+        input: I,
+        props: GetProps<A>,
+        aggregate: A,
+        correlationId: string,
+        context: CorrelationContext,
+      ) => Effect.Effect<
+        { props: GetProps<A>; domainEvents: IDomainEvent[] },
+        CoreException,
+        never
+      >,
+      additionalValidators?: ReadonlyArray<AggregateValidator<A>>,
+    ) => {
+      const command = baseTrait.asCommand<I>(
+        (input, props, aggregate, correlationId, context) =>
+          pipe(
+            reducerLogic(input, props, aggregate, correlationId, context),
+            Effect.map(({ props: nextProps, domainEvents }) => ({
+              props: applyAll(nextProps, domainEvents),
+              domainEvents,
+            })),
+          ),
+        additionalValidators,
+      );
+
+      return (input: I): CommandOnModel<A> =>
+        (aggregate, correlation) =>
+          pipe(
+            command(input)(aggregate, correlation),
+            Effect.map(
+              (updated): A => ({
+                ...updated,
+                eventVersion:
+                  aggregate.eventVersion +
+                  updated.domainEvents.length -
+                  aggregate.domainEvents.length,
+              }),
+            ),
+          );
+    };
+
+    // Stored events may have been written with older payload versions
+    const upcast = (
+      events: ReadonlyArray<IDomainEvent>,
+    ): ReadonlyArray<IDomainEvent> =>
+      options?.upcasters
+        ? events.map((event) => options.upcasters!.upcast(event))
+        : events;
+
+    // Replayed events are already stored, so the persisted version follows them
+    const replay =
+      (events: ReadonlyArray<IDomainEvent>) =>
+      (aggregate: A): A =>
+        events.length === 0
+          ? aggregate
+          : {
+              ...aggregate,
+              props: applyAll(aggregate.props as GetProps<A>, upcast(events)),
+              version: aggregate.version + events.length,
+              persistedVersion: aggregate.version + events.length,
+              eventVersion: aggregate.eventVersion + events.length,
+              updatedAt: Option.some(
+                new Date(events[events.length - 1].metadata.timestamp),
+              ),
+            };
+
+    const rehydrate = (
+      events: ReadonlyArray<IDomainEvent>,
+      initialProps: GetProps<A>,
+    ): Effect.Effect<A, CoreException, never> => {
+      if (events.length === 0) {
+        return Effect.fail(
+          ValidationException.new(
+            'NO_EVENTS_TO_REHYDRATE',
+            `[${tag}] Cannot rehydrate an aggregate without events`,
+          ),
+        );
+      }
+      const [first] = events;
+      if (!first.aggregateId) {
+        return Effect.fail(
+          ValidationException.new(
+            'MISSING_AGGREGATE_ID',
+            `[${tag}] First event ${first.name} has no aggregateId`,
+          ),
+        );
+      }
+
+      const initial = {
+        _tag: tag,
+        id: first.aggregateId,
+        createdAt: new Date(first.metadata.timestamp),
+        updatedAt: Option.none(),
+        props: initialProps,
+        domainEvents: [],
+        version: 0,
+        persistedVersion: 0,
+        eventVersion: 0,
+      } as unknown as A;
+
+      return Effect.succeed(replay(events)(initial));
+    };
+
+    return {
+      parse: (input) =>
+        Effect.map(baseTrait.parse(input), withEventVersion(input as any)),
+      new: (params) => Effect.map(baseTrait.new(params), withEventVersion()),
+      asCommand,
+      applyEvent: (event) => replay([event]),
+      replay,
+      rehydrate,
+    };
+  },
 };
@@ -0,0 +1,58 @@
+import { Option } from 'effect';
+import { v4 as uuidv4 } from 'uuid';
+import { AggregateRoot } from '../interfaces/aggregate-root.interface';
+import {
+  AuditAction,
+  AuditEntry,
+  PropChange,
+} from '../interfaces/audit.interface';
+import { PropsDiff } from '../interfaces/diff.interface';
+import { CorrelationContext } from '../interfaces/domain-event.interface';
+
+/**
+ * Audit log form of a diff, by dotted path
+ */
+const changes = (diff: PropsDiff): Record<string, PropChange> =>
+  Object.fromEntries(
+    diff.map((change) => [
+      change.path.join('.'),
+      {
+        before: change._tag === 'Added' ? undefined : change.before,
+        after: change._tag === 'Removed' ? undefined : change.after,
+      },
+    ]),
+  );
+
+/**
+ * Audit entry for a change made in the request of `correlation`
+ */
+const entry = ({
+  action,
+  aggregate,
+  changes,
+  correlation,
+}: {
+  action: AuditAction;
+  aggregate: AggregateRoot;
+  changes: Record<string, PropChange>;
+  correlation: Option.Option<CorrelationContext>;
+}): AuditEntry => ({
+  id: uuidv4(),
+  aggregateId: aggregate.id,
+  aggregateType: aggregate._tag,
+  action,
+  userId: Option.getOrUndefined(
+    Option.flatMapNullable(correlation, (context) => context.userId),
+  ),
+  correlationId: Option.getOrUndefined(
+    Option.map(correlation, (context) => context.correlationId),
+  ),
+  changes,
+  version: aggregate.version,
+  occurredAt: new Date(),
+});
+
+export const AuditTrait = {
+  changes,
+  entry,
+};
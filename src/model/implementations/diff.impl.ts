@@ -0,0 +1,134 @@
+import { Equal, Option, Utils } from 'effect';
+import { DiffPath, PropDiff, PropsDiff } from '../interfaces/diff.interface';
+import { DomainModel } from '../interfaces/domain-model.interface';
+import { Entity } from '../interfaces/entity.interface';
+
+type Props = Readonly<Record<string, unknown>>;
+
+const isDomainModel = (value: unknown): value is DomainModel =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as DomainModel)._tag === 'string' &&
+  typeof (value as DomainModel).props === 'object' &&
+  (value as DomainModel).props !== null;
+
+const isEntity = (value: unknown): value is Entity =>
+  isDomainModel(value) && 'id' in value;
+
+const isPlainObject = (value: unknown): value is Props =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const same = (before: unknown, after: unknown): boolean =>
+  Utils.structuralRegion(() => Equal.equals(before, after));
+
+const changed = (
+  path: DiffPath,
+  before: unknown,
+  after: unknown,
+): PropDiff => ({
+  _tag: 'Changed',
+  path,
+  before,
+  after,
+});
+
+const diffRecords = (path: DiffPath, before: Props, after: Props): PropDiff[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).flatMap(
+    (key) => diffValues([...path, key], before[key], after[key]),
+  );
+
+// Children are matched by id, whatever their position
+const diffEntities = (
+  path: DiffPath,
+  before: ReadonlyArray<Entity>,
+  after: ReadonlyArray<Entity>,
+): PropDiff[] => {
+  const beforeById = new Map(before.map((entity) => [entity.id, entity]));
+  const afterIds = new Set(after.map((entity) => entity.id));
+  return [
+    ...before
+      .filter((entity) => !afterIds.has(entity.id))
+      .map(
+        (entity): PropDiff => ({
+          _tag: 'Removed',
+          path: [...path, entity.id],
+          before: entity,
+        }),
+      ),
+    ...after.flatMap((entity): PropDiff[] => {
+      const previous = beforeById.get(entity.id);
+      return previous
+        ? diffRecords([...path, entity.id], previous.props, entity.props)
+        : [{ _tag: 'Added', path: [...path, entity.id], after: entity }];
+    }),
+  ];
+};
+
+// Value objects and entities are compared by props, ignoring their createdAt
+const diffValues = (
+  path: DiffPath,
+  before: unknown,
+  after: unknown,
+): PropDiff[] => {
+  if (Option.isOption(before) && Option.isOption(after)) {
+    if (Option.isSome(before) && Option.isSome(after)) {
+      return diffValues(path, before.value, after.value);
+    }
+    return Option.isNone(before) && Option.isNone(after)
+      ? []
+      : [changed(path, before, after)];
+  }
+  if (isDomainModel(before) && isDomainModel(after)) {
+    const sameIdentity =
+      before._tag === after._tag &&
+      (isEntity(before) || isEntity(after)
+        ? isEntity(before) && isEntity(after) && before.id === after.id
+        : true);
+    return sameIdentity
+      ? diffRecords(path, before.props, after.props)
+      : [changed(path, before, after)];
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const elements = [...before, ...after];
+    if (elements.length > 0 && elements.every(isEntity)) {
+      return diffEntities(path, before, after);
+    }
+    return before.length === after.length
+      ? before.flatMap((element, index) =>
+          diffValues([...path, String(index)], element, after[index]),
+        )
+      : [changed(path, before, after)];
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return diffRecords(path, before, after);
+  }
+  return same(before, after) ? [] : [changed(path, before, after)];
+};
+
+/**
+ * Differences between two props snapshots, e.g. before and after a command.
+ *
+ * Usage:
+ * ```typescript
+ * const changes = DiffTrait.diff(order.props, updated.props);
+ * // [{ _tag: 'Changed', path: ['lines', lineId, 'quantity'], before: 1, after: 2 }]
+ * ```
+ */
+const diff = (before: Props, after: Props): PropsDiff =>
+  diffRecords([], before, after);
+
+const isEmpty = (changes: PropsDiff): boolean => changes.length === 0;
+
+/**
+ * Names of the props holding at least one difference
+ */
+const changedProps = (changes: PropsDiff): ReadonlyArray<string> =>
+  Array.from(new Set(changes.map((change) => change.path[0])));
+
+export const DiffTrait = {
+  diff,
+  isEmpty,
+  changedProps,
+};
@@ -16,8 +16,7 @@ export class MockDomainEventRepository implements IDomainEventRepository {
   save(event: IDomainEvent): Effect.Effect<void, BaseException, never> {
     return Effect.try({
       try: () => {
-        const eventId = `${event.name}-${event.metadata.timestamp}`;
-        this.events.set(eventId, event);
+        this.events.set(event.id, event);
       },
       catch: (error) =>
         OperationException.new(
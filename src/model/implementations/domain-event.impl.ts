@@ -1,5 +1,6 @@
 import { Effect, Layer } from 'effect';
 import {
+  CorrelationContext,
   IDomainEventTrait,
   IDomainEvent,
   DomainEventPublisherContext,
@@ -8,26 +9,31 @@ import {
 
 import { AggregateRoot } from '@model/interfaces/aggregate-root.interface';
 import { AggGenericTrait } from './aggregate-root.impl';
+import { IdentifierTrait } from 'src/typeclasses';
 
 /**
  * DomainEventPublisher implementation
  */
 export const DomainEventTrait: IDomainEventTrait = {
-  create<P, A extends AggregateRoot>(params: {
-    name: string;
-    payload: P;
-    correlationId: string;
-    causationId?: string;
-    userId?: string;
-    aggregate?: A;
-  }): IDomainEvent<P> {
+  create<P, A extends AggregateRoot>(
+    params: CorrelationContext & {
+      name: string;
+      payload: P;
+      aggregate?: A;
+      version?: number;
+    },
+  ): IDomainEvent<P> {
     return {
+      id: IdentifierTrait.uuid(),
       name: params.name,
+      version: params.version ?? 1,
       metadata: {
         timestamp: Date.now(),
         correlationId: params.correlationId,
         causationId: params.causationId,
         userId: params.userId,
+        tenantId: params.tenantId,
+        traceparent: params.traceparent,
       },
       payload: params.payload,
       aggregateId: params.aggregate && AggGenericTrait.getId(params.aggregate),
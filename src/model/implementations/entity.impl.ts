@@ -12,6 +12,31 @@ import {
 import { GetProps, Identifier, IdentifierTrait } from 'src/typeclasses';
 import { CoreException, ParseResult } from '../interfaces/validation.interface';
 import { v4 as uuidv4 } from 'uuid';
+import { CorrelationContext } from '../interfaces/domain-event.interface';
+import { DiffTrait } from './diff.impl';
+
+export const CorrelationContextTrait = {
+  /**
+   * Normalize the correlation argument of a command, generating a
+   * correlation id when none is given
+   */
+  resolve: (correlation?: string | CorrelationContext): CorrelationContext =>
+    typeof correlation === 'object'
+      ? correlation
+      : { correlationId: correlation || IdentifierTrait.uuid() },
+};
+
+/**
+ * `updatedAt` after a command: a command that changes no prop keeps it
+ */
+export const touchUpdatedAt = (
+  entity: Entity,
+  props: Entity['props'],
+): Option.Option<Date> =>
+  DiffTrait.isEmpty(DiffTrait.diff(entity.props, props))
+    ? entity.updatedAt
+    : Option.some(new Date());
+
 /**
  * Implementation of the generic entity trait
  */
@@ -61,6 +86,7 @@ export const EntityGenericTrait: IEntityGenericTrait = {
                   id: id as Identifier,
                   createdAt,
                   updatedAt,
+                  version: data.version ?? 0,
                   props,
                 }) as E,
             ),
@@ -80,6 +106,7 @@ export const EntityGenericTrait: IEntityGenericTrait = {
         props: GetProps<E>,
         entity: E,
         correlationId: string,
+        context: CorrelationContext,
       ) => Effect.Effect<{ props: GetProps<E> }, CoreException, never>,
       additionalValidators?: ReadonlyArray<EntityValidator<E>>,
     ) => {
@@ -89,14 +116,15 @@ export const EntityGenericTrait: IEntityGenericTrait = {
         : validators;
 
       return (input: I): CommandOnModel<E> => {
-        return (entity: E, correlationId?: string) => {
-          const _correlationId = correlationId || IdentifierTrait.uuid();
+        return (entity: E, correlation?: string | CorrelationContext) => {
+          const context = CorrelationContextTrait.resolve(correlation);
           return pipe(
             reducerLogic(
               input,
               EntityGenericTrait.unpack(entity),
               entity,
-              _correlationId,
+              context.correlationId,
+              context,
             ),
             Effect.flatMap(({ props }) => {
               // Run all validators on new props
@@ -120,7 +148,8 @@ export const EntityGenericTrait: IEntityGenericTrait = {
                   (validatedProps): E => ({
                     ...entity,
                     props: validatedProps as E['props'],
-                    updatedAt: Option.some(new Date()),
+                    updatedAt: touchUpdatedAt(entity, validatedProps),
+                    version: entity.version + 1,
                   }),
                 ),
               );
@@ -4,3 +4,9 @@ export * from './domain-model.impl';
 export * from './domain-event.impl';
 export * from './entity.impl';
 export * from './aggregate-root.impl';
+export * from './specification.impl';
+export * from './list-query.impl';
+export * from './policy.impl';
+export * from './audit.impl';
+export * from './diff.impl';
+export * from './snapshot.impl';
@@ -0,0 +1,279 @@
+import { Effect, pipe, Schema } from 'effect';
+import { ValidationException } from '../exception';
+import { AggregateRoot } from '../interfaces/aggregate-root.interface';
+import {
+  ListQueryConfig,
+  ListQueryDefinition,
+  ListQueryInput,
+} from '../interfaces/list-query.interface';
+import { OrderBy, SortDirection } from '../interfaces/repository.interface';
+import {
+  ComparisonOperator,
+  Specification,
+  SpecificationField,
+} from '../interfaces/specification.interface';
+import { SpecificationTrait } from './specification.impl';
+
+const OPERATORS: ReadonlyArray<ComparisonOperator> = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'like',
+  'isNull',
+];
+
+const DateInput = Schema.Union(Schema.DateFromSelf, Schema.Date);
+
+const META_FIELD_SCHEMAS: Record<string, Schema.Schema<any, any, never>> = {
+  id: Schema.String,
+  createdAt: DateInput,
+  updatedAt: DateInput,
+};
+
+/**
+ * Find the schema of a (dotted) prop path inside nested struct schemas
+ */
+const resolveFieldSchema = (
+  propsSchema: Schema.Struct<any>,
+  field: string,
+): Schema.Schema<any, any, never> => {
+  if (META_FIELD_SCHEMAS[field]) {
+    return META_FIELD_SCHEMAS[field];
+  }
+  const schema = field
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        Schema.isSchema(current) && 'fields' in current
+          ? (current as Schema.Struct<any>).fields[key]
+          : undefined,
+      propsSchema,
+    );
+  if (!Schema.isSchema(schema)) {
+    throw new Error(
+      `List query field "${field}" is not in the props schema; pass its schema explicitly`,
+    );
+  }
+  return schema as Schema.Schema<any, any, never>;
+};
+
+const isOperatorObject = (
+  condition: unknown,
+): condition is Partial<Record<ComparisonOperator, unknown>> =>
+  condition !== null &&
+  typeof condition === 'object' &&
+  !(condition instanceof Date) &&
+  !Array.isArray(condition) &&
+  Object.keys(condition).length > 0 &&
+  Object.keys(condition).every((key) =>
+    OPERATORS.includes(key as ComparisonOperator),
+  );
+
+const invalidValue = (field: string, message: string) =>
+  ValidationException.new(
+    'INVALID_FILTER_VALUE',
+    `Invalid value for filter "${field}": ${message}`,
+  );
+
+/**
+ * Decode a value with the field schema. Query strings carry everything as
+ * text, so a string that fails is retried as JSON ('10' -> 10, 'true' -> true).
+ */
+const decodeValue = (
+  schema: Schema.Schema<any, any, never>,
+  field: string,
+  value: unknown,
+): Effect.Effect<unknown, ValidationException> =>
+  pipe(
+    Schema.decodeUnknown(schema)(value),
+    Effect.catchAll((error) => {
+      if (typeof value === 'string') {
+        try {
+          return Schema.decodeUnknown(schema)(JSON.parse(value));
+        } catch {
+          // Not JSON either: report the original error
+        }
+      }
+      return Effect.fail(error);
+    }),
+    Effect.mapError((error) =>
+      ValidationException.fromParseError(
+        error,
+        'INVALID_FILTER_VALUE',
+        `Invalid value for filter "${field}"`,
+      ),
+    ),
+  );
+
+const parseSortDirection = (
+  field: string,
+  direction: string,
+): Effect.Effect<SortDirection, ValidationException> => {
+  const normalized = direction.toUpperCase();
+  return normalized === 'ASC' || normalized === 'DESC'
+    ? Effect.succeed(normalized)
+    : Effect.fail(
+        ValidationException.new(
+          'INVALID_SORT_DIRECTION',
+          `Invalid sort direction "${direction}" for "${field}"`,
+        ),
+      );
+};
+
+const sortEntries = (
+  sort: NonNullable<ListQueryInput['sort']>,
+): Effect.Effect<
+  ReadonlyArray<[string, SortDirection]>,
+  ValidationException
+> =>
+  typeof sort === 'string' || Array.isArray(sort)
+    ? Effect.succeed(
+        (typeof sort === 'string' ? sort.split(',') : (sort as string[]))
+          .map((token) => token.trim())
+          .filter((token) => token.length > 0)
+          .map((token): [string, SortDirection] =>
+            token.startsWith('-')
+              ? [token.slice(1), 'DESC']
+              : [token.replace(/^\+/, ''), 'ASC'],
+          ),
+      )
+    : Effect.forEach(
+        Object.entries(sort as Record<string, string>),
+        ([field, direction]) =>
+          Effect.map(
+            parseSortDirection(field, direction),
+            (d): [string, SortDirection] => [field, d],
+          ),
+      );
+
+/**
+ * Define which aggregate fields an API may filter and sort on.
+ *
+ * Only whitelisted fields are accepted and filter values are decoded with the
+ * field schema, so request parameters cannot reach other columns or smuggle
+ * values of the wrong type into the query.
+ *
+ * Usage:
+ * ```typescript
+ * const OrderListQuery = defineListQuery<Order>(OrderSchema, {
+ *   filter: { status: true, total: true, createdAt: true },
+ *   sort: ['createdAt', 'total'],
+ *   defaultSort: { createdAt: 'DESC' },
+ * });
+ *
+ * const { filter, orderBy } = yield* OrderListQuery.parse({
+ *   filter: { status: { in: 'open,shipped' }, total: { gte: '100' } },
+ *   sort: '-createdAt',
+ * });
+ * const page = yield* OrderRepository.findManyPaginated({ params: filter, orderBy });
+ * ```
+ */
+export const defineListQuery = <A extends AggregateRoot>(
+  propsSchema: Schema.Struct<any>,
+  config: ListQueryConfig<A>,
+): ListQueryDefinition<A> => {
+  const filterSchemas = Object.fromEntries(
+    Object.entries(config.filter ?? {}).map(([field, schema]) => [
+      field,
+      schema === true
+        ? resolveFieldSchema(propsSchema, field)
+        : (schema as Schema.Schema<any, any, never>),
+    ]),
+  );
+  const filterFields = Object.keys(filterSchemas) as SpecificationField<A>[];
+  const sortFields = config.sort ?? [];
+  const Spec = SpecificationTrait.forAggregate<A>();
+
+  const parseOperator = (
+    field: SpecificationField<A>,
+    operator: ComparisonOperator,
+    value: unknown,
+  ): Effect.Effect<Specification<A>, ValidationException> => {
+    const schema = filterSchemas[field];
+    switch (operator) {
+      case 'in': {
+        const values =
+          typeof value === 'string' ? value.split(',') : (value as unknown[]);
+        return Array.isArray(values)
+          ? pipe(
+              Effect.forEach(values, (v) => decodeValue(schema, field, v)),
+              Effect.map((decoded) => Spec.in(field, decoded as any)),
+            )
+          : Effect.fail(invalidValue(field, '`in` expects a list'));
+      }
+      case 'like':
+        return typeof value === 'string'
+          ? Effect.succeed(Spec.like(field, value))
+          : Effect.fail(invalidValue(field, '`like` expects a string'));
+      case 'isNull':
+        return value === true || value === 'true'
+          ? Effect.succeed(Spec.isNull(field))
+          : value === false || value === 'false'
+            ? Effect.succeed(SpecificationTrait.not(Spec.isNull(field)))
+            : Effect.fail(invalidValue(field, '`isNull` expects a boolean'));
+      default:
+        return Effect.map(decodeValue(schema, field, value), (decoded) =>
+          Spec[operator](field, decoded as any),
+        );
+    }
+  };
+
+  const parseFilter = (
+    filter: NonNullable<ListQueryInput['filter']>,
+  ): Effect.Effect<Specification<A>, ValidationException> =>
+    pipe(
+      Effect.forEach(Object.entries(filter), ([field, condition]) => {
+        if (!filterFields.includes(field as SpecificationField<A>)) {
+          return Effect.fail(
+            ValidationException.new(
+              'INVALID_FILTER_FIELD',
+              `Filtering on "${field}" is not allowed`,
+            ),
+          );
+        }
+        const conditions = isOperatorObject(condition)
+          ? (Object.entries(condition) as [ComparisonOperator, unknown][])
+          : [['eq', condition] as [ComparisonOperator, unknown]];
+        return Effect.forEach(conditions, ([operator, value]) =>
+          parseOperator(field as SpecificationField<A>, operator, value),
+        );
+      }),
+      Effect.map((specs) => SpecificationTrait.and(...specs.flat())),
+    );
+
+  const parseSort = (
+    sort: ListQueryInput['sort'],
+  ): Effect.Effect<OrderBy<A>, ValidationException> =>
+    sort === undefined
+      ? Effect.succeed(config.defaultSort ?? {})
+      : pipe(
+          sortEntries(sort),
+          Effect.flatMap((entries) =>
+            Effect.forEach(entries, ([field, direction]) =>
+              sortFields.includes(field as SpecificationField<A>)
+                ? Effect.succeed([field, direction] as const)
+                : Effect.fail(
+                    ValidationException.new(
+                      'INVALID_SORT_FIELD',
+                      `Sorting on "${field}" is not allowed`,
+                    ),
+                  ),
+            ),
+          ),
+          Effect.map((entries) => Object.fromEntries(entries) as OrderBy<A>),
+        );
+
+  return {
+    filterFields,
+    sortFields,
+    parse: (input) =>
+      Effect.all({
+        filter: parseFilter(input.filter ?? {}),
+        orderBy: parseSort(input.sort),
+      }),
+  };
+};
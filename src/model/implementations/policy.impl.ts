@@ -0,0 +1,136 @@
+import { Effect, pipe } from 'effect';
+import { ForbiddenException } from '../exception';
+import { CorrelationContext } from '../interfaces/domain-event.interface';
+import { CommandOnModel } from '../interfaces/entity.interface';
+import { AggregateRoot } from '../interfaces/aggregate-root.interface';
+import {
+  Actor,
+  AggregatePolicy,
+  PolicyDecision,
+} from '../interfaces/policy.interface';
+import { CorrelationContextTrait } from './entity.impl';
+
+const allow: PolicyDecision = { _tag: 'Allow' };
+
+const deny = (reason: string): PolicyDecision => ({ _tag: 'Deny', reason });
+
+const actorOf = (context: CorrelationContext): Actor => ({
+  userId: context.userId,
+  tenantId: context.tenantId,
+  roles: context.roles ?? [],
+});
+
+/**
+ * Build a policy from a predicate
+ *
+ * Usage:
+ * ```typescript
+ * const isOwner = PolicyTrait.fromPredicate<Order>(
+ *   (actor, order) => actor.userId === order.props.customerId,
+ *   'Only the customer can change the order',
+ * );
+ * ```
+ */
+const fromPredicate =
+  <A extends AggregateRoot, I = any>(
+    predicate: (actor: Actor, aggregate: A, input: I) => boolean,
+    reason: string,
+  ): AggregatePolicy<A, I> =>
+  (actor, aggregate, input) =>
+    predicate(actor, aggregate, input) ? allow : deny(reason);
+
+/**
+ * Allow when the actor has one of the roles
+ */
+const hasRole = <A extends AggregateRoot>(
+  ...roles: ReadonlyArray<string>
+): AggregatePolicy<A> =>
+  fromPredicate(
+    (actor) => actor.roles.some((role) => roles.includes(role)),
+    `Requires one of the roles: ${roles.join(', ')}`,
+  );
+
+/**
+ * Allow when any policy allows; denies with every reason otherwise
+ */
+const anyOf =
+  <A extends AggregateRoot, I = any>(
+    ...policies: ReadonlyArray<AggregatePolicy<A, I>>
+  ): AggregatePolicy<A, I> =>
+  (actor, aggregate, input) => {
+    const decisions = policies.map((policy) => policy(actor, aggregate, input));
+    return decisions.some((decision) => decision._tag === 'Allow')
+      ? allow
+      : deny(
+          decisions
+            .map((decision) =>
+              decision._tag === 'Deny' ? decision.reason : '',
+            )
+            .join('; '),
+        );
+  };
+
+/**
+ * Check every policy in order, failing with ForbiddenException on the first denial
+ */
+const check = <A extends AggregateRoot, I>(
+  policies: ReadonlyArray<AggregatePolicy<A, I>>,
+  actor: Actor,
+  aggregate: A,
+  input: I,
+): Effect.Effect<void, ForbiddenException, never> =>
+  Effect.forEach(
+    policies,
+    (policy) =>
+      pipe(policy(actor, aggregate, input), (decision) =>
+        decision._tag === 'Allow'
+          ? Effect.void
+          : Effect.fail(
+              ForbiddenException.new('COMMAND_FORBIDDEN', decision.reason, {
+                reason: decision.reason,
+                userId: actor.userId,
+                aggregateId: aggregate.id,
+              }),
+            ),
+      ),
+    { discard: true },
+  );
+
+/**
+ * Attach policies to a command created with `asCommand`.
+ * They are checked against the actor of the correlation context before the
+ * reducer runs.
+ *
+ * Usage:
+ * ```typescript
+ * const cancel = PolicyTrait.authorize([isOwner])(
+ *   OrderTrait.asCommand<CancelInput>(cancelReducer),
+ * );
+ *
+ * yield* cancel(input)(order, CommandTrait.correlationContext(command));
+ * ```
+ */
+const authorize =
+  <A extends AggregateRoot, I>(
+    policies: ReadonlyArray<AggregatePolicy<A, I>>,
+  ) =>
+  (command: (input: I) => CommandOnModel<A>) =>
+  (input: I): CommandOnModel<A> =>
+  (aggregate, correlation) => {
+    const context = CorrelationContextTrait.resolve(correlation);
+    return pipe(
+      check(policies, actorOf(context), aggregate, input),
+      Effect.zipRight(command(input)(aggregate, context)),
+    );
+  };
+
+export const PolicyTrait = {
+  allow,
+  deny,
+  actorOf,
+  fromPredicate,
+  hasRole,
+  anyOf,
+  check,
+  authorize,
+};
@@ -0,0 +1,171 @@
+import { Effect, Option, ParseResult, pipe, Schema, SchemaAST } from 'effect';
+import { ValidationException } from '../exception';
+import {
+  DomainModel,
+  DomainModelTrait,
+} from '../interfaces/domain-model.interface';
+import { Entity } from '../interfaces/entity.interface';
+import {
+  EntitySnapshot,
+  SnapshotCodec,
+} from '../interfaces/snapshot.interface';
+
+type SchemaTrait<D extends DomainModel> = Pick<
+  DomainModelTrait<D>,
+  'parse' | 'schema'
+>;
+
+const propsSchemaOf = (
+  schema: Schema.Schema<any, any, never> | undefined,
+): Schema.Schema<any, any, never> => {
+  if (!schema) {
+    throw new Error(
+      'A snapshot needs the props schema of the trait (withSchema)',
+    );
+  }
+  return schema;
+};
+
+const isDomainModel = (value: unknown): value is DomainModel =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as DomainModel)._tag === 'string' &&
+  typeof (value as DomainModel).props === 'object';
+
+const parseIssue =
+  (ast: SchemaAST.AST, actual: unknown) =>
+  (error: { message: string }): ParseResult.ParseIssue =>
+    new ParseResult.Type(ast, actual, error.message);
+
+/**
+ * Schema of a value object stored as its encoded props, for value object
+ * fields of a props schema. Decoding goes through the trait's `parse`.
+ *
+ * Usage:
+ * ```typescript
+ * const OrderSchema = Schema.Struct({
+ *   shippingAddress: valueObjectSchema(AddressTrait),
+ * });
+ * ```
+ */
+export const valueObjectSchema = <VO extends DomainModel>(
+  trait: SchemaTrait<VO>,
+  schema: Schema.Schema<any, any, never> | undefined = trait.schema,
+): Schema.Schema<VO, unknown> => {
+  const propsSchema = propsSchemaOf(schema);
+  return Schema.transformOrFail(
+    Schema.encodedSchema(propsSchema),
+    Schema.declare((value): value is VO => isDomainModel(value)),
+    {
+      strict: true,
+      decode: (encoded, _, ast) =>
+        pipe(trait.parse(encoded), Effect.mapError(parseIssue(ast, encoded))),
+      encode: (valueObject) =>
+        ParseResult.encodeUnknown(propsSchema)(valueObject.props),
+    },
+  ) as unknown as Schema.Schema<VO, unknown>;
+};
+
+const Envelope = <P extends Schema.Schema<any, any, never>>(props: P) =>
+  Schema.Struct({
+    _tag: Schema.String,
+    id: Schema.String,
+    version: Schema.Number,
+    createdAt: Schema.Date,
+    updatedAt: Schema.OptionFromNullOr(Schema.Date),
+    props,
+  });
+
+/**
+ * Schema of an entity or aggregate stored as an `EntitySnapshot`
+ */
+export const snapshotSchema = <E extends Entity>(
+  trait: SchemaTrait<E>,
+  schema: Schema.Schema<any, any, never> | undefined = trait.schema,
+): Schema.Schema<E, EntitySnapshot> => {
+  const propsSchema = propsSchemaOf(schema);
+  return Schema.transformOrFail(
+    Envelope(Schema.encodedSchema(propsSchema)),
+    Schema.declare(
+      (value): value is E => isDomainModel(value) && 'id' in value,
+    ),
+    {
+      strict: true,
+      decode: (snapshot, _, ast) =>
+        pipe(
+          trait.parse({
+            ...(snapshot.props as object),
+            id: snapshot.id,
+            createdAt: Option.some(snapshot.createdAt),
+            updatedAt: snapshot.updatedAt,
+            version: snapshot.version,
+          }),
+          Effect.mapError(parseIssue(ast, snapshot)),
+          Effect.filterOrFail(
+            (entity) => entity._tag === snapshot._tag,
+            (entity) =>
+              new ParseResult.Type(
+                ast,
+                snapshot,
+                `Expected a ${entity._tag} snapshot, got ${snapshot._tag}`,
+              ),
+          ),
+        ),
+      encode: (entity) =>
+        Effect.map(
+          ParseResult.encodeUnknown(propsSchema)(entity.props),
+          (props) => ({
+            _tag: entity._tag,
+            id: entity.id,
+            version: entity.version,
+            createdAt: entity.createdAt,
+            updatedAt: entity.updatedAt,
+            props,
+          }),
+        ),
+    },
+  ) as unknown as Schema.Schema<E, EntitySnapshot>;
+};
+
+/**
+ * Create a codec turning entities or aggregates into JSON snapshots and back,
+ * derived from the props schema of their trait. Use it for caches, outbox
+ * payloads and test fixtures.
+ *
+ * Usage:
+ * ```typescript
+ * const OrderSnapshot = createSnapshotCodec(OrderTrait);
+ *
+ * const json = yield* OrderSnapshot.toJson(order);
+ * const restored = yield* OrderSnapshot.fromJson(json);
+ * ```
+ */
+export const createSnapshotCodec = <E extends Entity>(
+  trait: SchemaTrait<E>,
+  schema: Schema.Schema<any, any, never> | undefined = trait.schema,
+): SnapshotCodec<E> => {
+  const codec = snapshotSchema(trait, schema);
+  const json = Schema.parseJson(codec);
+  const invalid = (error: ParseResult.ParseError) =>
+    ValidationException.fromParseError(
+      error,
+      'INVALID_SNAPSHOT',
+      'Invalid entity snapshot',
+    );
+
+  return {
+    schema: codec,
+    encode: (entity) => Effect.mapError(Schema.encode(codec)(entity), invalid),
+    decode: (snapshot) =>
+      Effect.mapError(
+        Schema.decodeUnknown(codec)(snapshot, { errors: 'all' }),
+        invalid,
+      ),
+    toJson: (entity) => Effect.mapError(Schema.encode(json)(entity), invalid),
+    fromJson: (input) =>
+      Effect.mapError(
+        Schema.decodeUnknown(json)(input, { errors: 'all' }),
+        invalid,
+      ),
+  };
+};
@@ -0,0 +1,178 @@
+import { Option } from 'effect';
+import { AggregateRoot } from '../interfaces/aggregate-root.interface';
+import {
+  ComparisonOperator,
+  ISpecificationTrait,
+  Specification,
+  SpecificationBuilder,
+  SpecificationField,
+  SpecificationTypeId,
+} from '../interfaces/specification.interface';
+
+/**
+ * Read a field from the aggregate props, falling back to the aggregate itself
+ * (id, createdAt, ...). Dotted paths walk nested objects and Options are
+ * unwrapped to their value or null.
+ */
+export const readAggregateField = (
+  aggregate: AggregateRoot,
+  path: string,
+): unknown => {
+  const [head, ...rest] = path.split('.');
+  const unwrap = (value: unknown): unknown =>
+    Option.isOption(value) ? Option.getOrNull(value) : value;
+
+  return rest.reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === 'object'
+        ? unwrap((value as Record<string, unknown>)[key])
+        : undefined,
+    unwrap(
+      head in aggregate.props
+        ? aggregate.props[head]
+        : (aggregate as unknown as Record<string, unknown>)[head],
+    ),
+  );
+};
+
+const isSameValue = (left: unknown, right: unknown): boolean =>
+  left instanceof Date && right instanceof Date
+    ? left.getTime() === right.getTime()
+    : left === right;
+
+/**
+ * Order two field values; missing values sort last
+ */
+export const compareFieldValues = (left: unknown, right: unknown): number => {
+  if (isSameValue(left, right)) return 0;
+  if (left === undefined || left === null) return 1;
+  if (right === undefined || right === null) return -1;
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() - right.getTime();
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.localeCompare(right);
+  }
+  return (left as number) < (right as number) ? -1 : 1;
+};
+
+const likeToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/%/g, '.*')
+      .replace(/_/g, '.')}$`,
+    's',
+  );
+
+const isNullish = (value: unknown): boolean =>
+  value === null || value === undefined;
+
+const compare = (
+  operator: ComparisonOperator,
+  actual: unknown,
+  expected: unknown,
+): boolean => {
+  switch (operator) {
+    case 'eq':
+      return isSameValue(actual, expected);
+    case 'ne':
+      return !isSameValue(actual, expected);
+    case 'gt':
+      return !isNullish(actual) && compareFieldValues(actual, expected) > 0;
+    case 'gte':
+      return !isNullish(actual) && compareFieldValues(actual, expected) >= 0;
+    case 'lt':
+      return !isNullish(actual) && compareFieldValues(actual, expected) < 0;
+    case 'lte':
+      return !isNullish(actual) && compareFieldValues(actual, expected) <= 0;
+    case 'in':
+      return (expected as ReadonlyArray<unknown>).some((value) =>
+        isSameValue(actual, value),
+      );
+    case 'like':
+      return (
+        typeof actual === 'string' &&
+        likeToRegExp(expected as string).test(actual)
+      );
+    case 'isNull':
+      return isNullish(actual);
+  }
+};
+
+const field =
+  (operator: ComparisonOperator) =>
+  <A extends AggregateRoot>(
+    fieldName: SpecificationField<A>,
+    value?: unknown,
+  ): Specification<A> => ({
+    [SpecificationTypeId]: SpecificationTypeId,
+    _tag: 'Field',
+    field: fieldName,
+    operator,
+    value,
+  });
+
+const builder: SpecificationBuilder<any> = {
+  eq: field('eq'),
+  ne: field('ne'),
+  gt: field('gt'),
+  gte: field('gte'),
+  lt: field('lt'),
+  lte: field('lte'),
+  in: field('in'),
+  like: field('like'),
+  isNull: (fieldName) => field('isNull')(fieldName),
+};
+
+/**
+ * Specification implementation
+ */
+export const SpecificationTrait: ISpecificationTrait = {
+  forAggregate: <A extends AggregateRoot>() =>
+    builder as SpecificationBuilder<A>,
+
+  and: (...specs) => ({
+    [SpecificationTypeId]: SpecificationTypeId,
+    _tag: 'And',
+    specs,
+  }),
+
+  or: (...specs) => ({
+    [SpecificationTypeId]: SpecificationTypeId,
+    _tag: 'Or',
+    specs,
+  }),
+
+  not: (spec) => ({
+    [SpecificationTypeId]: SpecificationTypeId,
+    _tag: 'Not',
+    spec,
+  }),
+
+  isSpecification: (value): value is Specification<any> =>
+    typeof value === 'object' && value !== null && SpecificationTypeId in value,
+
+  isSatisfiedBy:
+    <A extends AggregateRoot>(spec: Specification<A>) =>
+    (aggregate: A): boolean => {
+      switch (spec._tag) {
+        case 'Field':
+          return compare(
+            spec.operator,
+            readAggregateField(aggregate, spec.field),
+            spec.value,
+          );
+        case 'And':
+          return spec.specs.every((s) =>
+            SpecificationTrait.isSatisfiedBy(s)(aggregate),
+          );
+        case 'Or':
+          return spec.specs.some((s) =>
+            SpecificationTrait.isSatisfiedBy(s)(aggregate),
+          );
+        case 'Not':
+          return !SpecificationTrait.isSatisfiedBy(spec.spec)(aggregate);
+      }
+    },
+};
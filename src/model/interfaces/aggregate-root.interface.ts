@@ -5,14 +5,20 @@ import {
   EntityTrait,
   IEntityGenericTrait,
 } from './entity.interface';
-import { IDomainEvent } from './domain-event.interface';
+import { CorrelationContext, IDomainEvent } from './domain-event.interface';
 import { CoreException, ParseResult } from './validation.interface';
 import { GetProps } from 'src/typeclasses';
+import { EventUpcasterRegistry } from '../event/upcaster';
 
 export interface AggregateRoot<
   Props extends Record<string, unknown> = Record<string, unknown>,
 > extends Entity<Props> {
   readonly domainEvents: ReadonlyArray<IDomainEvent>;
+  /**
+   * Version the aggregate had when it was loaded; repositories compare it with
+   * the stored version before saving
+   */
+  readonly persistedVersion: number;
 }
 
 /**
@@ -23,6 +29,7 @@ export type WithAggregateMetaInput<OriginInput> = OriginInput & {
   createdAt?: Date;
   updatedAt?: Option.Option<Date>;
   domainEvents?: ReadonlyArray<IDomainEvent>;
+  version?: number;
 };
 
 /**
@@ -65,6 +72,7 @@ export interface BaseAggregateRootTrait<
       props: GetProps<A>,
       aggregate: A,
       correlationId: string,
+      context: CorrelationContext,
     ) => Effect.Effect<
       { props: GetProps<A>; domainEvents: IDomainEvent[] },
       CoreException,
@@ -74,6 +82,64 @@ export interface BaseAggregateRootTrait<
   ) => (input: I) => CommandOnModel<A>;
 }
 
+/**
+ * Reducer that folds a single domain event into the aggregate props
+ */
+export type EventApplier<A extends AggregateRoot, P = any> = (
+  props: GetProps<A>,
+  event: IDomainEvent<P>,
+) => GetProps<A>;
+
+/**
+ * Event appliers keyed by domain event name
+ */
+export type EventAppliers<A extends AggregateRoot> = Readonly<
+  Record<string, EventApplier<A>>
+>;
+
+/**
+ * Aggregate root whose state is derived from its event history
+ */
+export type EventSourcedAggregateRoot<
+  Props extends Record<string, unknown> = Record<string, unknown>,
+> = AggregateRoot<Props> & {
+  /**
+   * Number of events applied so far. Unlike `version`, which every command
+   * moves for concurrency checks, it only moves with events.
+   */
+  readonly eventVersion: number;
+};
+
+export interface EventSourcedTraitOptions {
+  autoGenId: boolean;
+  /**
+   * Migrates replayed events to their latest payload version before they are applied
+   */
+  upcasters?: EventUpcasterRegistry;
+}
+
+export interface EventSourcedAggregateRootTrait<
+  A extends EventSourcedAggregateRoot,
+  NewParams = unknown,
+  ParseParams = unknown,
+> extends BaseAggregateRootTrait<A, NewParams, ParseParams> {
+  /**
+   * Folds a single event into the aggregate without recording it as a new domain event
+   */
+  applyEvent: (event: IDomainEvent) => (aggregate: A) => A;
+  /**
+   * Folds historical events onto an aggregate (e.g. a snapshot)
+   */
+  replay: (events: ReadonlyArray<IDomainEvent>) => (aggregate: A) => A;
+  /**
+   * Rebuilds an aggregate from its full event history, starting from initialProps
+   */
+  rehydrate: (
+    events: ReadonlyArray<IDomainEvent>,
+    initialProps: GetProps<A>,
+  ) => Effect.Effect<A, CoreException, never>;
+}
+
 /**
  * Generic aggregate root trait interface
  */
@@ -99,4 +165,20 @@ export interface IAggGenericTrait
     options?: { autoGenId: boolean },
     validators?: ReadonlyArray<AggregateValidator<A>>,
   ) => BaseAggregateRootTrait<A, N, P>;
+  /**
+   * Creates an event-sourced aggregate root trait.
+   * Events emitted by asCommand are folded into props through the matching applier
+   * and every applied event increments the aggregate eventVersion.
+   */
+  createEventSourcedAggregateRootTrait: <
+    A extends EventSourcedAggregateRoot,
+    N = unknown,
+    P = unknown,
+  >(
+    propsParser: AggregatePropsParser<A, P>,
+    tag: string,
+    appliers: EventAppliers<A>,
+    options?: EventSourcedTraitOptions,
+    validators?: ReadonlyArray<AggregateValidator<A>>,
+  ) => EventSourcedAggregateRootTrait<A, N, P>;
 }
@@ -0,0 +1,40 @@
+import { Effect } from 'effect';
+import { BaseException } from '../exception';
+import { Identifier } from 'src/typeclasses/obj-with-id';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface PropChange {
+  readonly before: unknown;
+  readonly after: unknown;
+}
+
+/**
+ * One change of an aggregate: who made it, when, and which props changed
+ */
+export interface AuditEntry {
+  readonly id: string;
+  readonly aggregateId: Identifier;
+  readonly aggregateType: string;
+  readonly action: AuditAction;
+  readonly userId?: string;
+  readonly correlationId?: string;
+  /**
+   * Changes by dotted path, e.g. `address.city` or `lines.<line id>`
+   */
+  readonly changes: Readonly<Record<string, PropChange>>;
+  /**
+   * Version of the aggregate after the change
+   */
+  readonly version: number;
+  readonly occurredAt: Date;
+}
+
+/**
+ * Port for the audit log; writes join the aggregate's transaction
+ */
+export interface IAuditLogRepository {
+  append(
+    entries: ReadonlyArray<AuditEntry>,
+  ): Effect.Effect<void, BaseException, never>;
+}
@@ -0,0 +1,29 @@
+/**
+ * Location of a difference: the prop name, then value object props and
+ * child entity ids, e.g. `['lines', '<line id>', 'quantity']`
+ */
+export type DiffPath = ReadonlyArray<string>;
+
+/**
+ * One difference between two props snapshots. Child entities are matched by
+ * id, so they are `Added` or `Removed`; anything else is `Changed`.
+ */
+export type PropDiff =
+  | {
+      readonly _tag: 'Changed';
+      readonly path: DiffPath;
+      readonly before: unknown;
+      readonly after: unknown;
+    }
+  | {
+      readonly _tag: 'Added';
+      readonly path: DiffPath;
+      readonly after: unknown;
+    }
+  | {
+      readonly _tag: 'Removed';
+      readonly path: DiffPath;
+      readonly before: unknown;
+    };
+
+export type PropsDiff = ReadonlyArray<PropDiff>;
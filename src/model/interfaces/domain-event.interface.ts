@@ -3,27 +3,54 @@ import { Context, Effect } from 'effect';
 import { AggregateRoot } from './aggregate-root.interface';
 import { BaseException } from '../exception';
 
+/**
+ * Who and what caused a change. It flows from a command's lifecycle into
+ * `asCommand` reducers and from there into the metadata of emitted events.
+ */
+export interface CorrelationContext {
+  readonly correlationId: string;
+  /**
+   * Id of the message (usually an event) that caused the command
+   */
+  readonly causationId?: string;
+  readonly userId?: string;
+  readonly tenantId?: string;
+  /**
+   * W3C trace context `traceparent` header
+   */
+  readonly traceparent?: string;
+  /**
+   * Roles of the user, checked by policies; not copied into events
+   */
+  readonly roles?: ReadonlyArray<string>;
+}
+
 /**
  * Interface for domain events
  */
 export interface IDomainEventTrait {
-  create<P, A extends AggregateRoot>(params: {
-    name: string;
-    payload: P;
-    correlationId: string;
-    causationId?: string;
-    userId?: string;
-    aggregate?: A;
-  }): IDomainEvent<P>;
+  create<P, A extends AggregateRoot>(
+    params: CorrelationContext & {
+      name: string;
+      payload: P;
+      aggregate?: A;
+      version?: number;
+    },
+  ): IDomainEvent<P>;
 }
 
 export interface IDomainEvent<P = any> {
+  /**
+   * Unique event id (UUID)
+   */
+  readonly id: string;
   readonly name: string;
-  readonly metadata: {
+  /**
+   * Schema version of the payload, starting at 1
+   */
+  readonly version: number;
+  readonly metadata: CorrelationContext & {
     readonly timestamp: number;
-    readonly correlationId: string;
-    readonly causationId?: string;
-    readonly userId?: string;
   };
   readonly payload: P;
   readonly aggregateId?: Identifier;
@@ -52,6 +79,34 @@ export interface IDomainEventRepository {
   markAsHandled(eventId: string): Effect.Effect<void, BaseException, never>;
 }
 
+/**
+ * Stored domain event together with the id of its outbox record
+ */
+export interface OutboxMessage {
+  readonly id: string;
+  readonly event: IDomainEvent;
+}
+
+/**
+ * Domain event repository backed by a transactional outbox.
+ * Events are written alongside the aggregate and dispatched later by a relay.
+ */
+export interface IOutboxRepository extends IDomainEventRepository {
+  /**
+   * Save several domain events in the current transaction
+   */
+  saveAll(
+    events: ReadonlyArray<IDomainEvent>,
+  ): Effect.Effect<void, BaseException, never>;
+
+  /**
+   * Get undispatched events in the order they occurred
+   */
+  getPendingMessages(
+    limit?: number,
+  ): Effect.Effect<OutboxMessage[], BaseException, never>;
+}
+
 /**
  * DomainEventRepository Context
  */
@@ -2,7 +2,7 @@ import { ReadonlyRecord } from 'effect/Record';
 import * as Option from 'effect/Option';
 import { ParseResult, Parser } from './validation.interface';
 import { GetProps } from 'src/typeclasses';
-import { Effect } from 'effect';
+import { Effect, Schema } from 'effect';
 import { BaseException } from '../exception';
 
 export interface DomainModel<
@@ -50,6 +50,8 @@ export interface DomainModelTrait<
 > {
   parse: Parser<D, ParserParam>;
   new: Parser<D, NewParams>;
+  // Props schema the trait was built with (`withSchema`), if any
+  readonly schema?: Schema.Schema<any, any, never>;
 }
 
 /**
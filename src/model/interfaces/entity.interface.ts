@@ -4,6 +4,7 @@ import { CoreException, ParseResult } from './validation.interface';
 import { DomainModel, DomainModelTrait } from './domain-model.interface';
 import { Identifier } from 'src/typeclasses/obj-with-id';
 import { GetProps } from 'src/typeclasses';
+import { CorrelationContext } from './domain-event.interface';
 
 /**
  * Entity type that extends DomainModel with additional properties
@@ -16,6 +17,10 @@ export type Entity<
 > = DomainModel<Props> & {
   readonly id: Identifier;
   readonly updatedAt: Option.Option<Date>;
+  /**
+   * Incremented by every command; used for optimistic concurrency checks
+   */
+  readonly version: number;
 };
 
 /**
@@ -30,6 +35,7 @@ export type WithEntityMetaInput<OriginInput> = OriginInput & {
   id?: string;
   createdAt: Option.Option<Date>;
   updatedAt: Option.Option<Date>;
+  version?: number;
 };
 
 /**
@@ -71,6 +77,7 @@ export interface BaseEntityTrait<
       props: GetProps<E>,
       entity: E,
       correlationId: string,
+      context: CorrelationContext,
     ) => Effect.Effect<{ props: GetProps<E> }, CoreException, never>,
     additionalValidators?: ReadonlyArray<EntityValidator<E>>,
   ) => (input: I) => CommandOnModel<E>;
@@ -96,9 +103,13 @@ export type CommandResult<DM extends Entity> = Effect.Effect<
   never
 >;
 
+/**
+ * Pass a correlation id, or the full context of the command (e.g. from
+ * `LifeCycleMetaMod.toCorrelationContext`) so emitted events carry it
+ */
 export type CommandOnModel<DM extends Entity> = (
   dm: DM,
-  correlationId?: string,
+  correlation?: string | CorrelationContext,
 ) => CommandResult<DM>;
 /**
  * Generic entity trait interface
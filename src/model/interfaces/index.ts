@@ -3,5 +3,11 @@ export * from './domain-event.interface';
 export * from './domain-model.interface';
 export * from './entity.interface';
 export * from './repository.interface';
+export * from './specification.interface';
+export * from './list-query.interface';
 export * from './validation.interface';
 export * from './value-object.interface';
+export * from './policy.interface';
+export * from './audit.interface';
+export * from './diff.interface';
+export * from './snapshot.interface';
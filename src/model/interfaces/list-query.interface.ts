@@ -0,0 +1,57 @@
+import { Effect, Schema } from 'effect';
+import { ValidationException } from '../exception';
+import { AggregateRoot } from './aggregate-root.interface';
+import { OrderBy } from './repository.interface';
+import {
+  ComparisonOperator,
+  Specification,
+  SpecificationField,
+} from './specification.interface';
+
+/**
+ * Filter on one field: a plain value means `eq`, otherwise an object of
+ * operators, e.g. `{ gte: 10, lt: 20 }` or `{ in: 'open,shipped' }`
+ */
+export type FilterCondition =
+  | unknown
+  | Partial<Record<ComparisonOperator, unknown>>;
+
+/**
+ * Untrusted list parameters, typically straight from an API request
+ */
+export interface ListQueryInput {
+  filter?: Record<string, FilterCondition>;
+  // 'createdAt,-total', ['createdAt', '-total'] or { createdAt: 'asc' }
+  sort?: string | ReadonlyArray<string> | Record<string, string>;
+}
+
+/**
+ * Validated filter and sort, ready for `findManyPaginated` or `findManyByCursor`
+ */
+export interface ListQuery<A extends AggregateRoot> {
+  readonly filter: Specification<A>;
+  readonly orderBy: OrderBy<A>;
+}
+
+/**
+ * Fields a list query may touch. `true` uses the field schema from the
+ * aggregate props schema; a schema overrides it (e.g. for Option props).
+ */
+export interface ListQueryConfig<A extends AggregateRoot> {
+  filter?: Partial<
+    Record<SpecificationField<A>, true | Schema.Schema<any, any, never>>
+  >;
+  sort?: ReadonlyArray<SpecificationField<A>>;
+  defaultSort?: OrderBy<A>;
+}
+
+export interface ListQueryDefinition<A extends AggregateRoot> {
+  readonly filterFields: ReadonlyArray<SpecificationField<A>>;
+  readonly sortFields: ReadonlyArray<SpecificationField<A>>;
+  /**
+   * Validate the input against the whitelisted fields and their schemas
+   */
+  parse(
+    input: ListQueryInput,
+  ): Effect.Effect<ListQuery<A>, ValidationException>;
+}
@@ -0,0 +1,23 @@
+import { AggregateRoot } from './aggregate-root.interface';
+
+/**
+ * Who is running a command, taken from its correlation context
+ */
+export interface Actor {
+  readonly userId?: string;
+  readonly tenantId?: string;
+  readonly roles: ReadonlyArray<string>;
+}
+
+export type PolicyDecision =
+  | { readonly _tag: 'Allow' }
+  | { readonly _tag: 'Deny'; readonly reason: string };
+
+/**
+ * Decide whether an actor may run a command with `input` on an aggregate
+ */
+export type AggregatePolicy<A extends AggregateRoot, I = any> = (
+  actor: Actor,
+  aggregate: A,
+  input: I,
+) => PolicyDecision;
@@ -9,10 +9,17 @@ import { Effect, Option } from 'effect';
 import { Identifier } from 'src/typeclasses/obj-with-id';
 import { AggregateRoot } from './aggregate-root.interface';
 import { BaseException } from '../exception';
+import { CorrelationContext } from './domain-event.interface';
+import { RepositoryQuery, SpecificationField } from './specification.interface';
 
-export interface OrderBy {
-  [key: number]: 'ASC' | 'DESC';
-}
+export type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * Sort order keyed on aggregate fields (props, prop paths, id, createdAt, updatedAt)
+ */
+export type OrderBy<A extends AggregateRoot = AggregateRoot> = Partial<
+  Record<SpecificationField<A>, SortDirection>
+>;
 
 export interface PaginationMeta {
   skip?: number;
@@ -20,10 +27,31 @@ export interface PaginationMeta {
   page?: number;
 }
 
-export interface FindManyPaginatedParams<QueryParams = any> {
+/**
+ * Options shared by repository read methods
+ */
+export interface RepositoryReadOptions {
+  // Also return soft-deleted aggregates
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options shared by repository write methods
+ */
+export interface RepositoryWriteOptions {
+  // Request the write belongs to, e.g. `CommandTrait.correlationContext(command)`;
+  // the audit trail takes its user and correlation id
+  correlation?: CorrelationContext;
+}
+
+export interface FindManyPaginatedParams<
+  QueryParams = any,
+  A extends AggregateRoot = AggregateRoot,
+> {
   params?: QueryParams;
   pagination?: PaginationMeta;
-  orderBy?: OrderBy;
+  orderBy?: OrderBy<A>;
+  includeDeleted?: boolean;
 }
 
 export interface DataWithPaginationMeta<T> {
@@ -33,58 +61,116 @@ export interface DataWithPaginationMeta<T> {
   page?: number;
 }
 
+export interface FindManyByCursorParams<
+  QueryParams = any,
+  A extends AggregateRoot = AggregateRoot,
+> {
+  params?: QueryParams;
+  // Opaque cursor returned as `nextCursor` by the previous page
+  cursor?: string;
+  limit?: number;
+  // Sort order; `id` is always appended as a tie-breaker
+  orderBy?: OrderBy<A>;
+  // Also count all matching rows (costs an extra query)
+  withCount?: boolean;
+  includeDeleted?: boolean;
+}
+
+export interface DataWithCursorMeta<T> {
+  data: T;
+  nextCursor?: string;
+  hasNext: boolean;
+  limit: number;
+  count?: number;
+}
+
 /**
  * Repository interface using Effect for error handling and dependency management
  */
 export interface RepositoryPort<A extends AggregateRoot, QueryParams = any> {
   /**
-   * Save an existing aggregate root
+   * Save an existing aggregate root. Returns it as persisted: without pending
+   * events, and with `persistedVersion` set to the stored version.
    */
-  save(aggregateRoot: A): Effect.Effect<void, BaseException, never>;
+  save(
+    aggregateRoot: A,
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<A, BaseException, never>;
 
   /**
-   * Add a new aggregate root
+   * Add a new aggregate root, returned as persisted
    */
-  add(entity: A): Effect.Effect<void, BaseException, never>;
+  add(
+    entity: A,
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<A, BaseException, never>;
 
   /**
-   * Save multiple aggregate roots
+   * Save multiple aggregate roots, returned as persisted
    */
-  saveMultiple(entities: A[]): Effect.Effect<void, BaseException, never>;
+  saveMultiple(
+    entities: A[],
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<A[], BaseException, never>;
 
   /**
-   * Find one aggregate root by query parameters
+   * Find one aggregate root by query parameters or a specification
    */
   findOne(
-    params: QueryParams,
+    params: RepositoryQuery<A, QueryParams>,
+    options?: RepositoryReadOptions,
   ): Effect.Effect<Option.Option<A>, BaseException, never>;
 
   /**
-   * Find one aggregate root by query parameters
+   * Find one aggregate root by query parameters or a specification
    */
-  findOneOrThrow(params: QueryParams): Effect.Effect<A, BaseException, never>;
+  findOneOrThrow(
+    params: RepositoryQuery<A, QueryParams>,
+    options?: RepositoryReadOptions,
+  ): Effect.Effect<A, BaseException, never>;
 
   /**
    * Find one aggregate root by ID
    */
-  findOneByIdOrThrow(id: Identifier): Effect.Effect<A, BaseException, never>;
+  findOneByIdOrThrow(
+    id: Identifier,
+    options?: RepositoryReadOptions,
+  ): Effect.Effect<A, BaseException, never>;
 
   /**
-   * Find many aggregate roots by query parameters
+   * Find many aggregate roots by query parameters or a specification
    */
-  findMany(params: QueryParams): Effect.Effect<A[], BaseException, never>;
+  findMany(
+    params: RepositoryQuery<A, QueryParams>,
+    options?: RepositoryReadOptions,
+  ): Effect.Effect<A[], BaseException, never>;
 
   /**
    * Find many aggregate roots with pagination
    */
   findManyPaginated(
-    options: FindManyPaginatedParams<QueryParams>,
+    options: FindManyPaginatedParams<RepositoryQuery<A, QueryParams>, A>,
   ): Effect.Effect<DataWithPaginationMeta<A[]>, BaseException, never>;
 
   /**
-   * Delete an aggregate root
+   * Find many aggregate roots page by page using keyset pagination
+   */
+  findManyByCursor(
+    options: FindManyByCursorParams<RepositoryQuery<A, QueryParams>, A>,
+  ): Effect.Effect<DataWithCursorMeta<A[]>, BaseException, never>;
+
+  /**
+   * Delete an aggregate root (soft delete when the repository is configured for it)
+   */
+  delete(
+    entity: A,
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<void, BaseException, never>;
+
+  /**
+   * Undo a soft delete; fails when the repository hard-deletes
    */
-  delete(entity: A): Effect.Effect<void, BaseException, never>;
+  restore(entity: A): Effect.Effect<void, BaseException, never>;
 
   /**
    * Set correlation ID for tracking
@@ -0,0 +1,34 @@
+import { Effect, Schema } from 'effect';
+import { ValidationException } from '../exception';
+import { Entity } from './entity.interface';
+
+/**
+ * JSON form of an entity or aggregate: identity, timestamps as ISO strings
+ * and props encoded with the trait's schema. Pending domain events are not
+ * part of it.
+ */
+export interface EntitySnapshot {
+  readonly _tag: string;
+  readonly id: string;
+  readonly version: number;
+  readonly createdAt: string;
+  readonly updatedAt: string | null;
+  readonly props: unknown;
+}
+
+/**
+ * Converts entities or aggregates to snapshots and back
+ */
+export interface SnapshotCodec<E extends Entity> {
+  /**
+   * Snapshot schema, usable as a field of another schema
+   */
+  readonly schema: Schema.Schema<E, EntitySnapshot>;
+  encode(entity: E): Effect.Effect<EntitySnapshot, ValidationException, never>;
+  /**
+   * Rebuild the entity with the trait's `parse`, so its validators run
+   */
+  decode(snapshot: unknown): Effect.Effect<E, ValidationException, never>;
+  toJson(entity: E): Effect.Effect<string, ValidationException, never>;
+  fromJson(json: string): Effect.Effect<E, ValidationException, never>;
+}
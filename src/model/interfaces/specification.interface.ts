@@ -0,0 +1,165 @@
+import { Option } from 'effect';
+import { Identifier } from 'src/typeclasses/obj-with-id';
+import { AggregateRoot } from './aggregate-root.interface';
+
+export const SpecificationTypeId: unique symbol = Symbol.for(
+  'effect-ddd/Specification',
+);
+
+/**
+ * Comparison supported on a single field
+ */
+export type ComparisonOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'like'
+  | 'isNull';
+
+type PropKey<A extends AggregateRoot> = Extract<keyof A['props'], string>;
+
+/**
+ * Field a specification can refer to: a prop, a nested prop path or aggregate meta
+ */
+export type SpecificationField<A extends AggregateRoot> =
+  | PropKey<A>
+  | `${PropKey<A>}.${string}`
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt';
+
+/**
+ * Value compared with a field; Option props are compared by their inner value
+ */
+export type SpecificationValue<
+  A extends AggregateRoot,
+  F extends SpecificationField<A>,
+> = F extends PropKey<A>
+  ? A['props'][F] extends Option.Option<infer V>
+    ? V
+    : A['props'][F]
+  : F extends 'id'
+    ? Identifier
+    : F extends 'createdAt' | 'updatedAt'
+      ? Date
+      : unknown;
+
+interface SpecificationNode {
+  readonly [SpecificationTypeId]: typeof SpecificationTypeId;
+}
+
+export interface FieldSpecification<A extends AggregateRoot = AggregateRoot>
+  extends SpecificationNode {
+  readonly _tag: 'Field';
+  readonly field: SpecificationField<A>;
+  readonly operator: ComparisonOperator;
+  readonly value?: unknown;
+}
+
+export interface AndSpecification<A extends AggregateRoot = AggregateRoot>
+  extends SpecificationNode {
+  readonly _tag: 'And';
+  readonly specs: ReadonlyArray<Specification<A>>;
+}
+
+export interface OrSpecification<A extends AggregateRoot = AggregateRoot>
+  extends SpecificationNode {
+  readonly _tag: 'Or';
+  readonly specs: ReadonlyArray<Specification<A>>;
+}
+
+export interface NotSpecification<A extends AggregateRoot = AggregateRoot>
+  extends SpecificationNode {
+  readonly _tag: 'Not';
+  readonly spec: Specification<A>;
+}
+
+/**
+ * Business rule over an aggregate, kept as data so it can be evaluated in
+ * memory or compiled into a database query
+ */
+export type Specification<A extends AggregateRoot = AggregateRoot> =
+  | FieldSpecification<A>
+  | AndSpecification<A>
+  | OrSpecification<A>
+  | NotSpecification<A>;
+
+/**
+ * Typed field constructors for one aggregate type
+ */
+export interface SpecificationBuilder<A extends AggregateRoot> {
+  eq<F extends SpecificationField<A>>(
+    field: F,
+    value: SpecificationValue<A, F>,
+  ): Specification<A>;
+  ne<F extends SpecificationField<A>>(
+    field: F,
+    value: SpecificationValue<A, F>,
+  ): Specification<A>;
+  gt<F extends SpecificationField<A>>(
+    field: F,
+    value: SpecificationValue<A, F>,
+  ): Specification<A>;
+  gte<F extends SpecificationField<A>>(
+    field: F,
+    value: SpecificationValue<A, F>,
+  ): Specification<A>;
+  lt<F extends SpecificationField<A>>(
+    field: F,
+    value: SpecificationValue<A, F>,
+  ): Specification<A>;
+  lte<F extends SpecificationField<A>>(
+    field: F,
+    value: SpecificationValue<A, F>,
+  ): Specification<A>;
+  in<F extends SpecificationField<A>>(
+    field: F,
+    values: ReadonlyArray<SpecificationValue<A, F>>,
+  ): Specification<A>;
+  /**
+   * SQL LIKE pattern: `%` matches any sequence, `_` a single character
+   */
+  like<F extends SpecificationField<A>>(
+    field: F,
+    pattern: string,
+  ): Specification<A>;
+  isNull<F extends SpecificationField<A>>(field: F): Specification<A>;
+}
+
+/**
+ * Query accepted by repositories: their own query params or a specification
+ */
+export type RepositoryQuery<A extends AggregateRoot, QueryParams> =
+  | QueryParams
+  | Specification<A>;
+
+/**
+ * Specification constructors, combinators and in-memory evaluation
+ */
+export interface ISpecificationTrait {
+  /**
+   * Field constructors typed against one aggregate
+   */
+  forAggregate<A extends AggregateRoot>(): SpecificationBuilder<A>;
+  /**
+   * Matches when every specification matches (an empty list always matches)
+   */
+  and<A extends AggregateRoot>(
+    ...specs: ReadonlyArray<Specification<A>>
+  ): Specification<A>;
+  /**
+   * Matches when any specification matches (an empty list never matches)
+   */
+  or<A extends AggregateRoot>(
+    ...specs: ReadonlyArray<Specification<A>>
+  ): Specification<A>;
+  not<A extends AggregateRoot>(spec: Specification<A>): Specification<A>;
+  isSpecification(value: unknown): value is Specification<any>;
+  isSatisfiedBy<A extends AggregateRoot>(
+    spec: Specification<A>,
+  ): (aggregate: A) => boolean;
+}
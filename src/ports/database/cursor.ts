@@ -0,0 +1,51 @@
+import { Effect } from 'effect';
+import { ValidationException } from '@model/exception';
+import { OrderBy, SortDirection } from '@model/interfaces';
+
+/**
+ * Sort keys used for keyset pagination: the requested order plus `id` as a
+ * tie-breaker so every row has a unique position
+ */
+export const cursorSortKeys = (
+  orderBy?: OrderBy,
+): ReadonlyArray<[string, SortDirection]> => {
+  const keys = Object.entries(orderBy ?? {}) as [string, SortDirection][];
+  return keys.some(([key]) => key === 'id') ? keys : [...keys, ['id', 'ASC']];
+};
+
+/**
+ * Encode the sort key values of the last row of a page
+ */
+export const encodeCursor = (values: ReadonlyArray<unknown>): string =>
+  Buffer.from(
+    JSON.stringify(
+      values.map((value) =>
+        value instanceof Date ? { $date: value.toISOString() } : value,
+      ),
+    ),
+  ).toString('base64url');
+
+/**
+ * Decode a cursor created by `encodeCursor` for the given sort keys
+ */
+export const decodeCursor = (
+  cursor: string,
+  keyCount: number,
+): Effect.Effect<unknown[], ValidationException> =>
+  Effect.try({
+    try: () => {
+      const values = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      );
+      if (!Array.isArray(values) || values.length !== keyCount) {
+        throw new Error('cursor does not match the sort order');
+      }
+      return values.map((value) =>
+        value !== null && typeof value === 'object' && '$date' in value
+          ? new Date(value.$date)
+          : value,
+      );
+    },
+    catch: (error) =>
+      ValidationException.new('INVALID_CURSOR', `Invalid cursor: ${error}`),
+  });
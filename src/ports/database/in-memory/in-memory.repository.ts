@@ -0,0 +1,416 @@
+import { Context, Effect, Layer, Option, pipe } from 'effect';
+import {
+  BaseException,
+  ConcurrencyException,
+  OperationException,
+} from '@model/exception';
+import {
+  AggregateRoot,
+  DataWithCursorMeta,
+  DataWithPaginationMeta,
+  DomainEventPublisherContext,
+  FindManyByCursorParams,
+  FindManyPaginatedParams,
+  IDomainEvent,
+  IDomainEventPublisher,
+  OrderBy,
+  RepositoryPort,
+  RepositoryQuery,
+  RepositoryReadOptions,
+} from '@model/interfaces';
+import {
+  compareFieldValues,
+  readAggregateField,
+  SpecificationTrait,
+} from '@model/implementations';
+import { Identifier } from '../../../typeclasses/obj-with-id';
+import { cursorSortKeys, decodeCursor, encodeCursor } from '../cursor';
+
+/**
+ * Predicate deciding whether an aggregate matches the query parameters
+ */
+export type InMemoryQueryPredicate<A extends AggregateRoot, QueryParams> = (
+  params: QueryParams,
+) => (aggregate: A) => boolean;
+
+/**
+ * Configuration for the in-memory repository
+ */
+export interface InMemoryRepositoryConfig<
+  A extends AggregateRoot,
+  QueryParams = Record<string, unknown>,
+> {
+  // Domain event publisher used by save/add
+  publisher: IDomainEventPublisher;
+
+  // Translate query parameters into a predicate (default: field equality)
+  prepareQuery?: InMemoryQueryPredicate<A, QueryParams>;
+
+  // Aggregates stored before the first call
+  initial?: ReadonlyArray<A>;
+
+  // Soft delete: `delete` hides aggregates instead of removing them
+  softDelete?: boolean;
+}
+
+/**
+ * Default predicate: every defined query parameter equals the field of the same name
+ */
+const matchFields =
+  <A extends AggregateRoot, QueryParams>(params: QueryParams) =>
+  (aggregate: A): boolean =>
+    Object.entries((params ?? {}) as Record<string, unknown>).every(
+      ([key, value]) =>
+        value === undefined ||
+        compareFieldValues(readAggregateField(aggregate, key), value) === 0,
+    );
+
+const sortBy =
+  (orderBy?: OrderBy) =>
+  <A extends AggregateRoot>(aggregates: A[]): A[] => {
+    const fields = Object.entries(orderBy ?? {}) as [string, 'ASC' | 'DESC'][];
+    if (fields.length === 0) {
+      return aggregates;
+    }
+    return [...aggregates].sort((left, right) => {
+      for (const [field, direction] of fields) {
+        const result = compareFieldValues(
+          readAggregateField(left, field),
+          readAggregateField(right, field),
+        );
+        if (result !== 0) {
+          return direction === 'DESC' ? -result : result;
+        }
+      }
+      return 0;
+    });
+  };
+
+/**
+ * Create an in-memory repository implementation.
+ *
+ * Mirrors the TypeORM repository behaviour (version checks, event publishing,
+ * pagination) so it can replace it in tests and prototypes. Specifications are
+ * evaluated with `SpecificationTrait.isSatisfiedBy`.
+ *
+ * Usage:
+ * ```typescript
+ * const repository = createInMemoryRepository<User, { email?: string }>({
+ *   publisher,
+ *   prepareQuery: (params) => (user) =>
+ *     !params.email || user.props.email === params.email,
+ * });
+ * ```
+ */
+export function createInMemoryRepository<
+  A extends AggregateRoot,
+  QueryParams = Record<string, unknown>,
+>(
+  config: InMemoryRepositoryConfig<A, QueryParams>,
+): RepositoryPort<A, QueryParams> {
+  const {
+    publisher,
+    prepareQuery = matchFields,
+    initial = [],
+    softDelete = false,
+  } = config;
+  const store = new Map<Identifier, A>();
+  const deleted = new Set<Identifier>();
+
+  // Stored aggregates are clean: no pending events, version persisted
+  const persist = (aggregate: A): A => {
+    const persisted = {
+      ...aggregate,
+      domainEvents: [],
+      persistedVersion: aggregate.version,
+    };
+    store.set(aggregate.id, persisted);
+    return persisted;
+  };
+  initial.forEach(persist);
+
+  const publishEvents = (
+    events: ReadonlyArray<IDomainEvent>,
+  ): Effect.Effect<void, BaseException> =>
+    events.length > 0 ? publisher.publishAll(events) : Effect.void;
+
+  const isVisible =
+    (includeDeleted = false) =>
+    (aggregate: A): boolean =>
+      includeDeleted || !deleted.has(aggregate.id);
+
+  const query = (
+    params: RepositoryQuery<A, QueryParams>,
+    includeDeleted?: boolean,
+  ): A[] =>
+    [...store.values()]
+      .filter(isVisible(includeDeleted))
+      .filter(
+        SpecificationTrait.isSpecification(params)
+          ? SpecificationTrait.isSatisfiedBy(params)
+          : prepareQuery(params as QueryParams),
+      );
+
+  const checkVersion = (
+    aggregateRoot: A,
+  ): Effect.Effect<void, ConcurrencyException> =>
+    Effect.suspend(() => {
+      const existing = store.get(aggregateRoot.id);
+      return existing && existing.version !== aggregateRoot.persistedVersion
+        ? Effect.fail(
+            ConcurrencyException.new(
+              'VERSION_CONFLICT',
+              `Aggregate ${aggregateRoot.id} was modified concurrently (expected version ${aggregateRoot.persistedVersion})`,
+              {
+                aggregateId: aggregateRoot.id,
+                expectedVersion: aggregateRoot.persistedVersion,
+                actualVersion: existing.version,
+              },
+            ),
+          )
+        : Effect.void;
+    });
+
+  const save = (aggregateRoot: A): Effect.Effect<A, BaseException> =>
+    pipe(
+      checkVersion(aggregateRoot),
+      Effect.map(() => persist(aggregateRoot)),
+      Effect.tap(() => publishEvents(aggregateRoot.domainEvents)),
+    );
+
+  const add = (entity: A): Effect.Effect<A, BaseException> =>
+    pipe(
+      Effect.suspend(() =>
+        store.has(entity.id)
+          ? Effect.fail(
+              OperationException.new(
+                'FAILED_ADD_ENTITY',
+                `Entity with id ${entity.id} already exists`,
+              ),
+            )
+          : Effect.sync(() => persist(entity)),
+      ),
+      Effect.tap(() => publishEvents(entity.domainEvents)),
+    );
+
+  // Like the TypeORM batch path: all checks first, then one publish for the batch
+  const saveMultiple = (entities: A[]): Effect.Effect<A[], BaseException> =>
+    pipe(
+      Effect.forEach(entities, checkVersion, { discard: true }),
+      Effect.map(() => entities.map(persist)),
+      Effect.tap(() =>
+        publishEvents(entities.flatMap((entity) => entity.domainEvents)),
+      ),
+    );
+
+  const findOne = (
+    params: RepositoryQuery<A, QueryParams>,
+    options: RepositoryReadOptions = {},
+  ): Effect.Effect<Option.Option<A>, BaseException> =>
+    Effect.sync(() =>
+      Option.fromNullable(query(params, options.includeDeleted)[0]),
+    );
+
+  const findOneOrThrow = (
+    params: RepositoryQuery<A, QueryParams>,
+    options?: RepositoryReadOptions,
+  ): Effect.Effect<A, BaseException> =>
+    pipe(
+      findOne(params, options),
+      Effect.flatMap(
+        Option.match({
+          onNone: () =>
+            Effect.fail(
+              OperationException.new(
+                'ENTITY_NOT_FOUND',
+                `Entity not found with params: ${JSON.stringify(params)}`,
+              ),
+            ),
+          onSome: (aggregate) => Effect.succeed(aggregate),
+        }),
+      ),
+    );
+
+  const findOneByIdOrThrow = (
+    id: Identifier,
+    options: RepositoryReadOptions = {},
+  ): Effect.Effect<A, BaseException> =>
+    pipe(
+      Effect.sync(() =>
+        Option.filter(
+          Option.fromNullable(store.get(id)),
+          isVisible(options.includeDeleted),
+        ),
+      ),
+      Effect.flatMap(
+        Option.match({
+          onNone: () =>
+            Effect.fail(
+              OperationException.new(
+                'ENTITY_NOT_FOUND',
+                `Entity not found with id: ${id}`,
+              ),
+            ),
+          onSome: (aggregate) => Effect.succeed(aggregate),
+        }),
+      ),
+    );
+
+  const findMany = (
+    params: RepositoryQuery<A, QueryParams>,
+    options: RepositoryReadOptions = {},
+  ): Effect.Effect<A[], BaseException> =>
+    Effect.sync(() => query(params, options.includeDeleted));
+
+  const findManyPaginated = (
+    options: FindManyPaginatedParams<RepositoryQuery<A, QueryParams>, A>,
+  ): Effect.Effect<DataWithPaginationMeta<A[]>, BaseException> =>
+    Effect.sync(() => {
+      const params = options.params || ({} as RepositoryQuery<A, QueryParams>);
+      const pagination = options.pagination || { skip: 0, limit: 10 };
+      const take = pagination.limit ?? 10;
+      const skip =
+        pagination.skip ?? (pagination.page ? (pagination.page - 1) * take : 0);
+      const matching = sortBy(options.orderBy)(
+        query(params, options.includeDeleted),
+      );
+
+      return {
+        data: matching.slice(skip, skip + take),
+        count: matching.length,
+        limit: take,
+        page: pagination.page ?? Math.floor(skip / take) + 1,
+      };
+    });
+
+  const findManyByCursor = (
+    options: FindManyByCursorParams<RepositoryQuery<A, QueryParams>, A>,
+  ): Effect.Effect<DataWithCursorMeta<A[]>, BaseException> => {
+    const params = options.params || ({} as RepositoryQuery<A, QueryParams>);
+    const limit = options.limit ?? 10;
+    const keys = cursorSortKeys(options.orderBy);
+    const keyValues = (aggregate: A) =>
+      keys.map(([field]) => readAggregateField(aggregate, field));
+    // Position of `values` relative to the cursor in the requested order
+    const compareToCursor = (values: unknown[], cursor: unknown[]) =>
+      keys.reduce(
+        (result, [, direction], index) =>
+          result !== 0
+            ? result
+            : compareFieldValues(values[index], cursor[index]) *
+              (direction === 'DESC' ? -1 : 1),
+        0,
+      );
+
+    return pipe(
+      options.cursor
+        ? Effect.map(decodeCursor(options.cursor, keys.length), Option.some)
+        : Effect.succeed(Option.none<unknown[]>()),
+      Effect.map((cursor) => {
+        const matching = sortBy(Object.fromEntries(keys))(
+          query(params, options.includeDeleted),
+        );
+        const remaining = Option.match(cursor, {
+          onNone: () => matching,
+          onSome: (values) =>
+            matching.filter(
+              (aggregate) => compareToCursor(keyValues(aggregate), values) > 0,
+            ),
+        });
+        const data = remaining.slice(0, limit);
+        const hasNext = remaining.length > limit;
+
+        return {
+          data,
+          hasNext,
+          nextCursor:
+            hasNext && data.length > 0
+              ? encodeCursor(keyValues(data[data.length - 1]))
+              : undefined,
+          limit,
+          count: options.withCount ? matching.length : undefined,
+        };
+      }),
+    );
+  };
+
+  const del = (entity: A): Effect.Effect<void, BaseException> =>
+    Effect.sync(() => {
+      if (softDelete) {
+        deleted.add(entity.id);
+      } else {
+        store.delete(entity.id);
+      }
+    });
+
+  const restore = (entity: A): Effect.Effect<void, BaseException> =>
+    Effect.suspend(() => {
+      if (!softDelete) {
+        return Effect.fail(
+          OperationException.new(
+            'SOFT_DELETE_DISABLED',
+            'Repository is not configured for soft delete',
+          ),
+        );
+      }
+      if (!store.has(entity.id)) {
+        return Effect.fail(
+          OperationException.new(
+            'ENTITY_NOT_FOUND',
+            `Entity not found with id: ${entity.id}`,
+          ),
+        );
+      }
+      deleted.delete(entity.id);
+      return Effect.void;
+    });
+
+  const repository: RepositoryPort<A, QueryParams> = {
+    save,
+    add,
+    saveMultiple,
+    findOne,
+    findOneOrThrow,
+    findOneByIdOrThrow,
+    findMany,
+    findManyPaginated,
+    findManyByCursor,
+    delete: del,
+    restore,
+    setCorrelationId: () => repository,
+  };
+
+  return repository;
+}
+
+/**
+ * Create a Layer providing an in-memory repository under the given tag.
+ * Domain events are published through DomainEventPublisherContext.
+ *
+ * Usage:
+ * ```typescript
+ * class UserRepository extends Context.Tag('UserRepository')<
+ *   UserRepository,
+ *   RepositoryPort<User>
+ * >() {}
+ *
+ * const TestLayer = pipe(
+ *   createInMemoryRepositoryLayer(UserRepository),
+ *   Layer.provide(DomainEvenPublishImplementLayer),
+ * );
+ * ```
+ */
+export const createInMemoryRepositoryLayer = <
+  Id,
+  A extends AggregateRoot,
+  QueryParams = Record<string, unknown>,
+>(
+  tag: Context.Tag<Id, RepositoryPort<A, QueryParams>>,
+  config: Omit<InMemoryRepositoryConfig<A, QueryParams>, 'publisher'> = {},
+): Layer.Layer<Id, never, DomainEventPublisherContext> =>
+  Layer.effect(
+    tag,
+    Effect.map(DomainEventPublisherContext, (publisher) =>
+      createInMemoryRepository({ ...config, publisher }),
+    ),
+  );
@@ -0,0 +1,2 @@
+export * from './in-memory.repository';
+export * from './process-state.repository';
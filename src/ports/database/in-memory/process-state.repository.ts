@@ -0,0 +1,58 @@
+import { Effect, Option } from 'effect';
+import { ConcurrencyException } from '@model/exception';
+import {
+  IProcessStateRepository,
+  ProcessInstance,
+} from '@application/process-manager';
+
+/**
+ * Create a process state repository backed by a Map, for tests and prototypes
+ */
+export const createInMemoryProcessStateRepository = <
+  S,
+>(): IProcessStateRepository<S> => {
+  const store = new Map<string, ProcessInstance<S>>();
+  const key = (process: string, correlationId: string) =>
+    `${process}:${correlationId}`;
+
+  return {
+    findOne: (process, correlationId) =>
+      Effect.sync(() =>
+        Option.fromNullable(store.get(key(process, correlationId))),
+      ),
+
+    save: (instance) =>
+      Effect.suspend(() => {
+        const id = key(instance.process, instance.correlationId);
+        const storedVersion = store.get(id)?.version ?? 0;
+        if (storedVersion !== instance.version - 1) {
+          return Effect.fail(
+            ConcurrencyException.new(
+              'VERSION_CONFLICT',
+              `Process ${id} was modified concurrently`,
+              {
+                aggregateId: instance.correlationId,
+                expectedVersion: instance.version - 1,
+                actualVersion: storedVersion,
+              },
+            ),
+          );
+        }
+        store.set(id, instance);
+        return Effect.void;
+      }),
+
+    findExpired: (process, now) =>
+      Effect.sync(() =>
+        Array.from(store.values()).filter(
+          (instance) =>
+            instance.process === process &&
+            instance.status === 'running' &&
+            Option.exists(
+              instance.deadline,
+              (deadline) => deadline.getTime() < now.getTime(),
+            ),
+        ),
+      ),
+  };
+};
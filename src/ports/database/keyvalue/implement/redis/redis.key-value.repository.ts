@@ -5,9 +5,25 @@ import {
 import { ArbFunction } from '@type_util/function';
 import * as redis from 'redis';
 import { AbstractKeyValueRepository } from '../../key-value.repository';
+import { KeyValueLock } from '../../key-value.lock';
 
 type RedisClient = ReturnType<typeof redis.createClient>;
-export class RedisKeyValueRepository extends AbstractKeyValueRepository {
+
+// Compare the owner and act in one step, so a lock taken over by another
+// owner after expiry is left alone
+const EXTEND_LOCK = `if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LOCK = `if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+export class RedisKeyValueRepository
+  extends AbstractKeyValueRepository
+  implements KeyValueLock
+{
   private redisClient: RedisClient;
   onError?: ArbFunction;
   logger: ConsoleDomainLogger;
@@ -74,6 +90,52 @@ export class RedisKeyValueRepository extends AbstractKeyValueRepository {
     }
   }
 
+  public async acquireLock(
+    key: string,
+    owner: string,
+    expiredSeconds: number,
+  ): Promise<boolean> {
+    try {
+      const result = await this.redisClient.set(this.finalizeKey(key), owner, {
+        NX: true,
+        EX: expiredSeconds,
+      });
+      return result === 'OK';
+    } catch (error) {
+      this.handleOnError(new Error(error + ` on locking key ${key}`));
+      throw error;
+    }
+  }
+
+  public async extendLock(
+    key: string,
+    owner: string,
+    expiredSeconds: number,
+  ): Promise<boolean> {
+    try {
+      const result = await this.redisClient.eval(EXTEND_LOCK, {
+        keys: [this.finalizeKey(key)],
+        arguments: [owner, String(expiredSeconds)],
+      });
+      return result === 1;
+    } catch (error) {
+      this.handleOnError(new Error(error + ` on extending lock ${key}`));
+      throw error;
+    }
+  }
+
+  public async releaseLock(key: string, owner: string): Promise<void> {
+    try {
+      await this.redisClient.eval(RELEASE_LOCK, {
+        keys: [this.finalizeKey(key)],
+        arguments: [owner],
+      });
+    } catch (error) {
+      this.handleOnError(new Error(error + ` on releasing lock ${key}`));
+      throw error;
+    }
+  }
+
   emitOnClient(event: string, ...args: any[]) {
     this.redisClient.emit(event, ...args);
   }
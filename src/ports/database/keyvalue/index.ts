@@ -1,2 +1,3 @@
 export * from './key-value.repository';
+export * from './key-value.lock';
 export * as redis from './implement/redis/redis.key-value.repository';
@@ -0,0 +1,29 @@
+/**
+ * Expiring locks owned by a token, e.g. for idempotent commands.
+ * Only the owner that took a lock can extend or release it.
+ */
+export interface KeyValueLock {
+  /**
+   * Take the lock if it is free. Resolves to true when `owner` holds it.
+   */
+  acquireLock(
+    key: string,
+    owner: string,
+    expiredSeconds: number,
+  ): Promise<boolean>;
+
+  /**
+   * Reset the expiry if `owner` still holds the lock.
+   * Resolves to false when the lock was lost.
+   */
+  extendLock(
+    key: string,
+    owner: string,
+    expiredSeconds: number,
+  ): Promise<boolean>;
+
+  /**
+   * Release the lock if `owner` still holds it
+   */
+  releaseLock(key: string, owner: string): Promise<void>;
+}
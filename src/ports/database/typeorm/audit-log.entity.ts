@@ -0,0 +1,52 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+import { AuditAction } from '@model/interfaces';
+import { Column255Char, ColumnJsonB, ColumnUUID } from './columns';
+
+/**
+ * Audit log of aggregate changes.
+ * Register it in the DataSource entities when repositories write an audit log.
+ */
+@Entity('aggregate_audit_log')
+@Index(['aggregateType', 'aggregateId', 'occurredAt'])
+export class AuditLogEntity {
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+  })
+  aggregateId: string;
+
+  @Column({
+    type: 'varchar',
+    length: 255,
+  })
+  aggregateType: string;
+
+  @Column({
+    type: 'varchar',
+    length: 16,
+  })
+  action: AuditAction;
+
+  @Column255Char()
+  userId: string | null;
+
+  @ColumnUUID({})
+  correlationId: string | null;
+
+  @ColumnJsonB()
+  // Changed props by name, as { before, after }
+  changes: Record<string, { before: any; after: any }>;
+
+  @Column({
+    type: 'integer',
+  })
+  version: number;
+
+  @Column({
+    type: 'timestamptz',
+  })
+  occurredAt: Date;
+}
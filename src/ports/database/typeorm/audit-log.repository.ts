@@ -0,0 +1,63 @@
+import { Effect } from 'effect';
+import { DataSource, EntityManager } from 'typeorm';
+import {
+  ENTITY_MANAGER_KEY,
+  getNamespaceInstance,
+} from '../../../infra/nestjs/cls.middleware';
+import { BaseException, OperationException } from '@model/exception';
+import { AuditEntry, IAuditLogRepository } from '@model/interfaces';
+import { AuditLogEntity } from './audit-log.entity';
+
+const toAuditLogRow = (entry: AuditEntry): AuditLogEntity => ({
+  id: entry.id,
+  aggregateId: entry.aggregateId,
+  aggregateType: entry.aggregateType,
+  action: entry.action,
+  userId: entry.userId ?? null,
+  correlationId: entry.correlationId ?? null,
+  changes: entry.changes,
+  version: entry.version,
+  occurredAt: entry.occurredAt,
+});
+
+/**
+ * Create an audit log that writes to the audit log table.
+ *
+ * Writes go through the EntityManager stored in CLS, so entries are committed
+ * in the same transaction as the change they describe.
+ *
+ * Usage:
+ * ```typescript
+ * const auditLog = createTypeormAuditLogRepository(dataSource);
+ *
+ * createTypeormRepository({ ...config, audit: { log: auditLog } });
+ * ```
+ */
+export function createTypeormAuditLogRepository(
+  dataSource: DataSource,
+): IAuditLogRepository {
+  const getEntityManager = (): EntityManager => {
+    const namespace = getNamespaceInstance();
+    return namespace?.get(ENTITY_MANAGER_KEY) ?? dataSource.manager;
+  };
+
+  const append = (
+    entries: ReadonlyArray<AuditEntry>,
+  ): Effect.Effect<void, BaseException> =>
+    entries.length === 0
+      ? Effect.void
+      : Effect.tryPromise({
+          try: async () => {
+            await getEntityManager()
+              .getRepository(AuditLogEntity)
+              .insert(entries.map(toAuditLogRow));
+          },
+          catch: (error) =>
+            OperationException.new(
+              'SAVE_AUDIT_LOG_FAILED',
+              `Failed to write the audit log: ${error}`,
+            ),
+        });
+
+  return { append };
+}
@@ -1,5 +1,7 @@
 import {
+  Column,
   CreateDateColumn,
+  DeleteDateColumn,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
@@ -32,4 +34,16 @@ export abstract class AggregateTypeORMEntityBase extends TypeormGeneratedUUIDEnt
   constructor(props?: unknown) {
     super(props);
   }
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  version: number;
+
+  @DeleteDateColumn({
+    type: 'timestamptz',
+    nullable: true,
+  })
+  deletedAt: Date | null;
 }
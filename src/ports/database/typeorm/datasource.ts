@@ -1,12 +1,16 @@
-import { DataSourceOptions } from 'typeorm';
+import { DataSource, DataSourceOptions } from 'typeorm';
 import { PostgresDatabaseConfig } from './dbconfig.base';
 
 export function generateDatasourcePostgresOpts(params: {
   postgresConfig: PostgresDatabaseConfig;
   absEntityPath: string;
   absMigrationPath: string;
+  /**
+   * Postgres schema holding the tables, e.g. one schema per tenant
+   */
+  schema?: string;
 }) {
-  const { postgresConfig, absEntityPath, absMigrationPath } = params;
+  const { postgresConfig, absEntityPath, absMigrationPath, schema } = params;
   return {
     type: 'postgres',
     host: postgresConfig.host,
@@ -14,6 +18,7 @@ export function generateDatasourcePostgresOpts(params: {
     username: postgresConfig.username,
     password: postgresConfig.password,
     database: postgresConfig.database,
+    schema,
     dropSchema: false,
     keepConnectionAlive: true,
     logging: false, // Assuming logging is false by default, adjust as needed
@@ -32,3 +37,170 @@ export function generateDatasourcePostgresOpts(params: {
     },
   } as DataSourceOptions;
 }
+
+/**
+ * A tenant's DataSource, kept open until released
+ */
+export interface TenantDataSourceLease {
+  readonly dataSource: DataSource;
+  /**
+   * Let the DataSource be destroyed again; later calls do nothing
+   */
+  release(): void;
+}
+
+/**
+ * DataSources of a schema-per-tenant database, by tenant id
+ */
+export interface TenantDataSources {
+  /**
+   * Lease the tenant's DataSource, initialized on first use.
+   * Rejects for a tenant that is not known.
+   */
+  acquire(tenantId: string): Promise<TenantDataSourceLease>;
+  /**
+   * Run `work` with the tenant's DataSource, releasing it afterwards
+   */
+  use<A>(
+    tenantId: string,
+    work: (dataSource: DataSource) => Promise<A>,
+  ): Promise<A>;
+  destroyAll(): Promise<void>;
+}
+
+export interface TenantDataSourcesOptions {
+  /**
+   * Whether the tenant exists, e.g. by looking it up in the tenants table
+   */
+  isKnownTenant: (tenantId: string) => boolean | Promise<boolean>;
+  /**
+   * Most DataSources kept open (default 20). The least recently used one
+   * that is not leased is destroyed to make room; leased ones stay open, so
+   * the limit is exceeded while more tenants than that are in use at once.
+   */
+  maxDataSources?: number;
+}
+
+interface TenantEntry {
+  readonly dataSource: Promise<DataSource>;
+  leases: number;
+}
+
+const destroyQuietly = (dataSource: Promise<DataSource>) =>
+  dataSource.then(
+    (initialized) => initialized.destroy(),
+    () => undefined,
+  );
+
+/**
+ * Keep one DataSource per tenant schema. Repositories created with a tenant's
+ * DataSource only see that tenant's tables. Each DataSource holds its own
+ * connection pool, so only known tenants get one and their number is bounded.
+ * A DataSource is never destroyed while it is leased.
+ *
+ * Usage:
+ * ```typescript
+ * // Schema names come from the tenant registry, not from the raw id
+ * const tenants = createTenantDataSources(
+ *   (tenantId) =>
+ *     generateDatasourcePostgresOpts({
+ *       postgresConfig,
+ *       absEntityPath,
+ *       absMigrationPath,
+ *       schema: schemas.get(tenantId),
+ *     }),
+ *   { isKnownTenant: (tenantId) => schemas.has(tenantId) },
+ * );
+ *
+ * const orders = await tenants.use('acme', (dataSource) =>
+ *   dataSource.getRepository(OrderEntity).find(),
+ * );
+ * ```
+ */
+export function createTenantDataSources(
+  optionsFor: (tenantId: string) => DataSourceOptions,
+  { isKnownTenant, maxDataSources = 20 }: TenantDataSourcesOptions,
+): TenantDataSources {
+  // Insertion order doubles as recency order
+  const dataSources = new Map<string, TenantEntry>();
+
+  const initialize = async (tenantId: string): Promise<DataSource> => {
+    if (!(await isKnownTenant(tenantId))) {
+      throw new Error(`Unknown tenant ${tenantId}`);
+    }
+    return new DataSource(optionsFor(tenantId)).initialize();
+  };
+
+  const evictLeastRecentlyUsed = () => {
+    for (const [tenantId, entry] of dataSources) {
+      if (dataSources.size <= maxDataSources) {
+        return;
+      }
+      if (entry.leases === 0) {
+        dataSources.delete(tenantId);
+        void destroyQuietly(entry.dataSource);
+      }
+    }
+  };
+
+  const entryFor = (tenantId: string): TenantEntry => {
+    const existing = dataSources.get(tenantId);
+    if (existing) {
+      dataSources.delete(tenantId);
+      dataSources.set(tenantId, existing);
+      return existing;
+    }
+    // Concurrent callers share the same initialization; a failed one is retried
+    const entry: TenantEntry = {
+      dataSource: initialize(tenantId).catch((error) => {
+        if (dataSources.get(tenantId) === entry) {
+          dataSources.delete(tenantId);
+        }
+        throw error;
+      }),
+      leases: 0,
+    };
+    dataSources.set(tenantId, entry);
+    return entry;
+  };
+
+  const acquire = async (tenantId: string): Promise<TenantDataSourceLease> => {
+    const entry = entryFor(tenantId);
+    entry.leases++;
+    evictLeastRecentlyUsed();
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        entry.leases--;
+        evictLeastRecentlyUsed();
+      }
+    };
+    try {
+      return { dataSource: await entry.dataSource, release };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  };
+
+  const use = async <A>(
+    tenantId: string,
+    work: (dataSource: DataSource) => Promise<A>,
+  ): Promise<A> => {
+    const lease = await acquire(tenantId);
+    try {
+      return await work(lease.dataSource);
+    } finally {
+      lease.release();
+    }
+  };
+
+  const destroyAll = async (): Promise<void> => {
+    const pending = Array.from(dataSources.values());
+    dataSources.clear();
+    await Promise.all(pending.map((entry) => destroyQuietly(entry.dataSource)));
+  };
+
+  return { acquire, use, destroyAll };
+}
@@ -1,8 +1,8 @@
-import { Effect, Option, pipe } from 'effect';
+import { Effect, Exit, Option, pipe } from 'effect';
 import {
+  In,
   Repository,
   FindOptionsWhere,
-  FindOptionsOrder,
   DataSource,
   EntityManager,
   ObjectLiteral,
@@ -10,16 +10,51 @@ import {
 import { Identifier } from '../../../typeclasses/obj-with-id';
 import {
   ENTITY_MANAGER_KEY,
+  getCurrentTenantId,
   getNamespaceInstance,
 } from '../../../infra/nestjs/cls.middleware';
-import { BaseException, OperationException } from '@model/exception';
+import {
+  BaseException,
+  ConcurrencyException,
+  ForbiddenException,
+  OperationException,
+} from '@model/exception';
 import {
   AggregateRoot,
+  AuditEntry,
+  CorrelationContext,
+  DataWithCursorMeta,
+  Entity,
   DataWithPaginationMeta,
+  FindManyByCursorParams,
   FindManyPaginatedParams,
+  IAuditLogRepository,
+  IDomainEvent,
   IDomainEventPublisher,
+  IOutboxRepository,
+  PropsDiff,
   RepositoryPort,
+  RepositoryQuery,
+  RepositoryReadOptions,
+  RepositoryWriteOptions,
+  SortDirection,
 } from '@model/interfaces';
+import {
+  AuditTrait,
+  DiffTrait,
+  SpecificationTrait,
+} from '@model/implementations';
+import { cursorSortKeys, decodeCursor, encodeCursor } from '../cursor';
+import {
+  afterKeyset,
+  keysetOrder,
+  orderByToFindOptions,
+  resolveFieldPath,
+  SpecificationCompileOptions,
+  specificationToFindOptions,
+} from './specification.compiler';
+
+const VERSION_PROPERTY = 'version';
 
 /**
  * Base query parameters for TypeORM repositories
@@ -29,6 +64,63 @@ export interface BaseTypeormQueryParams {
   [key: string]: any;
 }
 
+/**
+ * A collection of child entities stored in its own table.
+ *
+ * On save the repository diffs the children against the rows loaded through
+ * `relation`: rows whose id is gone are deleted, the others are inserted or
+ * updated with the same EntityManager as the aggregate.
+ */
+export interface ChildCollectionConfig<
+  DM extends AggregateRoot,
+  Child extends Entity = any,
+  ChildOrm extends ObjectLiteral = any,
+> {
+  // Relation on the ORM entity holding the child rows; loaded with the aggregate
+  relation: string;
+
+  // Entity class of the child rows
+  entityClass: new () => ChildOrm;
+
+  // Current children of the aggregate
+  children: (aggregate: DM) => ReadonlyArray<Child>;
+
+  // Convert a child to its row, including the foreign key to the parent
+  toOrm: (
+    child: Child,
+    parent: DM,
+    existingRow: Option.Option<ChildOrm>,
+  ) => Effect.Effect<ChildOrm, BaseException, never>;
+}
+
+/**
+ * Row-level multi-tenancy: rows carry their tenant in `column`.
+ *
+ * Reads and deletes only see the current tenant's rows, new rows are stamped
+ * with it, and saving a row that belongs to another tenant fails. Operations
+ * without a current tenant fail with TENANT_REQUIRED.
+ */
+export interface TenancyConfig {
+  // Property of the ORM entity holding the tenant id
+  column: string;
+
+  // Current tenant; defaults to the tenant bound in the CLS namespace
+  currentTenant?: () => Option.Option<string>;
+}
+
+/**
+ * Audit capture: rows record the user who created them and the user who last
+ * changed them, and `log` receives an entry with the changed props per change.
+ */
+export interface AuditConfig {
+  // Columns holding the users; `createdBy` and `updatedBy` by default
+  createdByColumn?: string;
+  updatedByColumn?: string;
+
+  // Audit log written in the same transaction as the aggregate
+  log?: IAuditLogRepository;
+}
+
 /**
  * Configuration for TypeORM repository
  */
@@ -61,6 +153,30 @@ export interface TypeormRepositoryConfig<
 
   // Prepare query parameters for TypeORM
   prepareQuery: (params: QueryParams) => FindOptionsWhere<OrmEntity>;
+
+  // Outbox mode: write events to the outbox instead of publishing them directly
+  outbox?: IOutboxRepository;
+
+  // How specifications passed to find methods map onto the ORM entity
+  specification?: SpecificationCompileOptions;
+
+  // Soft delete: `delete` sets the entity's @DeleteDateColumn instead of removing the row
+  softDelete?: boolean;
+
+  // Aggregates loaded and written per round-trip by saveMultiple (default 500)
+  batchSize?: number;
+
+  // Child entity collections synced to their own tables on save
+  childCollections?: ReadonlyArray<ChildCollectionConfig<DM>>;
+
+  // Scope every operation to the current tenant
+  tenancy?: TenancyConfig;
+
+  // Record who changed each aggregate, and optionally what changed
+  audit?: AuditConfig;
+
+  // Save only the columns of changed props, and skip saves that change nothing
+  partialUpdates?: boolean;
 }
 /**
  * Create a TypeORM repository implementation.
@@ -114,12 +230,28 @@ export function createTypeormRepository<
     dataSource,
     publisher,
     entityClass,
-    relations,
+    relations: declaredRelations,
     toDomain,
     toOrm,
     prepareQuery,
+    outbox,
+    specification,
+    softDelete = false,
+    batchSize = 500,
+    childCollections = [],
+    tenancy,
+    audit,
+    partialUpdates = false,
   } = config;
 
+  // Child rows are loaded with the aggregate so saves can diff against them
+  const relations = Array.from(
+    new Set([
+      ...declaredRelations,
+      ...childCollections.map((collection) => collection.relation),
+    ]),
+  );
+
   const getEntityManager = (): EntityManager => {
     const namespace = getNamespaceInstance();
     let entityManager = namespace?.get(ENTITY_MANAGER_KEY);
@@ -135,52 +267,671 @@ export function createTypeormRepository<
     return getEntityManager().getRepository(entityClass);
   };
 
-  const save = (aggregateRoot: DM): Effect.Effect<void, BaseException> => {
+  /**
+   * Run `work` in the current transaction, or in a new one bound to the CLS
+   * namespace so that the outbox, audit log and child repositories join it.
+   */
+  const inTransaction = <A>(
+    work: Effect.Effect<A, BaseException>,
+  ): Effect.Effect<A, BaseException> =>
+    Effect.suspend(() => {
+      const namespace = getNamespaceInstance();
+      if (namespace?.get(ENTITY_MANAGER_KEY)) {
+        return work;
+      }
+      let outcome: Exit.Exit<A, BaseException> | undefined;
+      return pipe(
+        Effect.tryPromise({
+          try: () =>
+            namespace.runAndReturn(() =>
+              dataSource.transaction(async (manager) => {
+                namespace.set(ENTITY_MANAGER_KEY, manager);
+                outcome = await Effect.runPromiseExit(work);
+                if (Exit.isFailure(outcome)) {
+                  // Rejecting rolls the transaction back
+                  throw outcome.cause;
+                }
+              }),
+            ),
+          catch: (error) =>
+            OperationException.new(
+              'TRANSACTION_FAILED',
+              `[${entityClass.name}] Transaction failed: ${error}`,
+            ),
+        }),
+        Effect.matchEffect({
+          onFailure: (error) =>
+            outcome && Exit.isFailure(outcome) ? outcome : Effect.fail(error),
+          onSuccess: () => outcome ?? Effect.die('Transaction did not run'),
+        }),
+      );
+    });
+
+  // Tenant of the current operation; none when the repository is not tenant-aware
+  const resolveTenant = (): Effect.Effect<
+    Option.Option<string>,
+    BaseException
+  > =>
+    Effect.suspend(() => {
+      if (!tenancy) {
+        return Effect.succeed(Option.none());
+      }
+      return pipe(
+        (tenancy.currentTenant ?? getCurrentTenantId)(),
+        Option.match({
+          onNone: () =>
+            Effect.fail(
+              OperationException.new(
+                'TENANT_REQUIRED',
+                `[${entityClass.name}] No tenant in the current context`,
+              ),
+            ),
+          onSome: (tenantId) => Effect.succeed(Option.some(tenantId)),
+        }),
+      );
+    });
+
+  const scopeToTenant = (
+    where: FindOptionsWhere<OrmEntity> | FindOptionsWhere<OrmEntity>[],
+    tenant: Option.Option<string>,
+  ): FindOptionsWhere<OrmEntity> | FindOptionsWhere<OrmEntity>[] =>
+    Option.match(tenant, {
+      onNone: () => where,
+      onSome: (tenantId) => {
+        const scope = { [tenancy!.column]: tenantId };
+        if (!Array.isArray(where)) {
+          return { ...where, ...scope };
+        }
+        // An empty OR list matches every row, so it becomes the tenant's rows
+        return where.length === 0
+          ? [scope as FindOptionsWhere<OrmEntity>]
+          : where.map((branch) => ({ ...branch, ...scope }));
+      },
+    });
+
+  // Specifications are compiled here; anything else goes through prepareQuery
+  const toWhere = (
+    params: RepositoryQuery<DM, QueryParams>,
+    tenant: Option.Option<string>,
+  ): FindOptionsWhere<OrmEntity> | FindOptionsWhere<OrmEntity>[] =>
+    scopeToTenant(
+      SpecificationTrait.isSpecification(params)
+        ? specificationToFindOptions<OrmEntity>(params, specification)
+        : prepareQuery(params as QueryParams),
+      tenant,
+    );
+
+  const crossTenantWrite = (aggregateRoot: DM, tenantId: string) =>
+    ForbiddenException.new(
+      'CROSS_TENANT_WRITE',
+      `[${entityClass.name}] Aggregate ${aggregateRoot.id} does not belong to tenant ${tenantId}`,
+      { aggregateId: aggregateRoot.id },
+    );
+
+  // The stored row must belong to the current tenant before it is overwritten
+  const checkTenant = (
+    aggregateRoot: DM,
+    existingEntity: OrmEntity | null,
+    tenant: Option.Option<string>,
+  ): Effect.Effect<void, BaseException> =>
+    Option.match(tenant, {
+      onNone: () => Effect.void,
+      onSome: (tenantId) =>
+        existingEntity && existingEntity[tenancy!.column] !== tenantId
+          ? Effect.fail(crossTenantWrite(aggregateRoot, tenantId))
+          : Effect.void,
+    });
+
+  // Stamp the row with the current tenant, refusing one mapped to another tenant
+  const withTenant =
+    (aggregateRoot: DM, tenant: Option.Option<string>) =>
+    (ormEntity: OrmEntity): Effect.Effect<OrmEntity, BaseException> =>
+      Option.match(tenant, {
+        onNone: () => Effect.succeed(ormEntity),
+        onSome: (tenantId) => {
+          const mapped = ormEntity[tenancy!.column];
+          return mapped !== undefined && mapped !== null && mapped !== tenantId
+            ? Effect.fail(crossTenantWrite(aggregateRoot, tenantId))
+            : Effect.succeed(
+                Object.assign(ormEntity, { [tenancy!.column]: tenantId }),
+              );
+        },
+      });
+
+  // Criteria for writes by id, limited to the current tenant's row
+  const byId = (
+    id: Identifier,
+    tenant: Option.Option<string>,
+  ): Identifier | FindOptionsWhere<OrmEntity> =>
+    Option.match(tenant, {
+      onNone: () => id,
+      onSome: (tenantId) => ({ id, [tenancy!.column]: tenantId }) as any,
+    });
+
+  // Optimistic concurrency only applies to entities mapping a version column
+  const isVersioned = (repository: Repository<OrmEntity>): boolean =>
+    !!repository.metadata.findColumnWithPropertyName(VERSION_PROPERTY);
+
+  // The stored version is the source of truth, whatever the mapper did with it
+  const toVersionedDomain = (
+    ormEntity: OrmEntity,
+  ): Effect.Effect<DM, BaseException, never> =>
+    pipe(
+      toDomain(ormEntity),
+      Effect.map((domain) =>
+        isVersioned(getRepository())
+          ? {
+              ...domain,
+              version: ormEntity[VERSION_PROPERTY],
+              persistedVersion: ormEntity[VERSION_PROPERTY],
+            }
+          : domain,
+      ),
+    );
+
+  const withVersion =
+    (aggregateRoot: DM) =>
+    (ormEntity: OrmEntity): OrmEntity =>
+      isVersioned(getRepository())
+        ? Object.assign(ormEntity, {
+            [VERSION_PROPERTY]: aggregateRoot.version,
+          })
+        : ormEntity;
+
+  const versionConflict = (aggregateRoot: DM, actualVersion?: number) =>
+    ConcurrencyException.new(
+      'VERSION_CONFLICT',
+      `[${entityClass.name}] Aggregate ${aggregateRoot.id} was modified concurrently (expected version ${aggregateRoot.persistedVersion})`,
+      {
+        aggregateId: aggregateRoot.id,
+        expectedVersion: aggregateRoot.persistedVersion,
+        actualVersion,
+      },
+    );
+
+  /**
+   * Moves the stored version forward only if nobody else did it first.
+   * Inside a transaction the row stays locked until commit.
+   */
+  const claimVersion = (
+    aggregateRoot: DM,
+    existingEntity: OrmEntity | null,
+  ): Effect.Effect<void, BaseException> => {
+    if (!existingEntity || !isVersioned(getRepository())) {
+      return Effect.void;
+    }
+    if (existingEntity[VERSION_PROPERTY] !== aggregateRoot.persistedVersion) {
+      return Effect.fail(
+        versionConflict(aggregateRoot, existingEntity[VERSION_PROPERTY]),
+      );
+    }
     return pipe(
+      Effect.tryPromise({
+        try: () =>
+          getRepository().update(
+            {
+              id: aggregateRoot.id,
+              [VERSION_PROPERTY]: aggregateRoot.persistedVersion,
+            } as any,
+            { [VERSION_PROPERTY]: aggregateRoot.version } as any,
+          ),
+        catch: (error) =>
+          OperationException.new(
+            'FAILED_TO_SAVE_ENTITY',
+            `Failed to update entity version: ${error}`,
+          ),
+      }),
+      Effect.flatMap((result) =>
+        result.affected === 0
+          ? Effect.fail(versionConflict(aggregateRoot))
+          : Effect.void,
+      ),
+    );
+  };
+
+  /**
+   * Claim the versions of a batch with a single UPDATE. Every existing row
+   * must still be at its expected version, or the whole batch fails.
+   */
+  const claimVersions = (
+    entries: ReadonlyArray<[DM, OrmEntity | null]>,
+  ): Effect.Effect<void, BaseException> => {
+    const repository = getRepository();
+    const claims = isVersioned(repository)
+      ? entries.flatMap(([aggregate, existing]) =>
+          existing ? [[aggregate, existing] as const] : [],
+        )
+      : [];
+    if (claims.length === 0) {
+      return Effect.void;
+    }
+    const stale = claims.find(
+      ([aggregate, existing]) =>
+        existing[VERSION_PROPERTY] !== aggregate.persistedVersion,
+    );
+    if (stale) {
+      return Effect.fail(versionConflict(stale[0], stale[1][VERSION_PROPERTY]));
+    }
+    const idColumn = repository.manager.connection.driver.escape(
+      repository.metadata.findColumnWithPropertyName('id')?.databaseName ??
+        'id',
+    );
+    // Versions are numbers, so they are inlined; ids are bound as parameters
+    const newVersion = `CASE ${idColumn} ${claims
+      .map(
+        ([aggregate], index) =>
+          `WHEN :claimId${index} THEN ${Number(aggregate.version)}`,
+      )
+      .join(' ')} END`;
+    return pipe(
+      Effect.tryPromise({
+        try: () =>
+          repository
+            .createQueryBuilder()
+            .update()
+            .set({ [VERSION_PROPERTY]: () => newVersion } as any)
+            .where(
+              claims.map(([aggregate]) => ({
+                id: aggregate.id,
+                [VERSION_PROPERTY]: aggregate.persistedVersion,
+              })),
+            )
+            .setParameters(
+              Object.fromEntries(
+                claims.map(([aggregate], index) => [
+                  `claimId${index}`,
+                  aggregate.id,
+                ]),
+              ),
+            )
+            .execute(),
+        catch: (error) =>
+          OperationException.new(
+            'FAILED_TO_SAVE_ENTITY',
+            `Failed to update entity versions: ${error}`,
+          ),
+      }),
+      Effect.flatMap((result) =>
+        result.affected !== undefined && result.affected < claims.length
+          ? Effect.fail(
+              ConcurrencyException.new(
+                'VERSION_CONFLICT',
+                `[${entityClass.name}] ${claims.length - result.affected} of ${
+                  claims.length
+                } aggregates were modified concurrently`,
+              ),
+            )
+          : Effect.void,
+      ),
+    );
+  };
+
+  // Request context of a write, passed by the caller
+  const correlationOf = (options?: RepositoryWriteOptions) =>
+    Option.fromNullable(options?.correlation);
+
+  // Stamp the user of the request on the row; the creator is never overwritten
+  const withAuditFields =
+    (
+      existingEntity: OrmEntity | null,
+      correlation: Option.Option<CorrelationContext>,
+    ) =>
+    (ormEntity: OrmEntity): OrmEntity => {
+      if (!audit) {
+        return ormEntity;
+      }
+      const { createdByColumn = 'createdBy', updatedByColumn = 'updatedBy' } =
+        audit;
+      const actor = Option.getOrUndefined(
+        Option.flatMapNullable(correlation, (context) => context.userId),
+      );
+      return Object.assign(ormEntity, {
+        [createdByColumn]: existingEntity
+          ? existingEntity[createdByColumn]
+          : actor ?? ormEntity[createdByColumn],
+        [updatedByColumn]: actor ?? ormEntity[updatedByColumn],
+      });
+    };
+
+  // Props diff against the stored row, only computed when something uses it
+  const diffWithStored = (
+    aggregateRoot: DM,
+    existingEntity: OrmEntity | null,
+  ): Effect.Effect<Option.Option<PropsDiff>, BaseException> =>
+    existingEntity && (partialUpdates || audit?.log)
+      ? Effect.map(toDomain(existingEntity), (before) =>
+          Option.some(DiffTrait.diff(before.props, aggregateRoot.props)),
+        )
+      : Effect.succeed(Option.none());
+
+  // One entry per created or changed aggregate; saves that change nothing are skipped
+  const recordChanges = (
+    entries: ReadonlyArray<[DM, OrmEntity | null, Option.Option<PropsDiff>]>,
+    correlation: Option.Option<CorrelationContext>,
+  ): Effect.Effect<void, BaseException> => {
+    const log = audit?.log;
+    if (!log) {
+      return Effect.void;
+    }
+    return log.append(
+      entries.flatMap(([aggregate, existing, changes]): AuditEntry[] => {
+        const diff = existing
+          ? Option.getOrElse(changes, () => [])
+          : DiffTrait.diff({}, aggregate.props);
+        return existing && DiffTrait.isEmpty(diff)
+          ? []
+          : [
+              AuditTrait.entry({
+                action: existing ? 'update' : 'create',
+                aggregate,
+                changes: AuditTrait.changes(diff),
+                correlation,
+              }),
+            ];
+      }),
+    );
+  };
+
+  /**
+   * Columns of the changed props, when the update of an existing row can be
+   * limited to them. None for new rows, without partial updates, or when a
+   * changed prop has no column of its own (e.g. a value object flattened
+   * into several columns), so the whole row is saved instead.
+   */
+  const changedColumns = (
+    ormEntity: OrmEntity,
+    existingEntity: OrmEntity | null,
+    changes: Option.Option<PropsDiff>,
+  ): Option.Option<string[]> => {
+    if (!partialUpdates || !existingEntity || Option.isNone(changes)) {
+      return Option.none();
+    }
+    // Relations are written by syncChildren
+    const columns = DiffTrait.changedProps(changes.value)
+      .map((prop) => resolveFieldPath(prop, specification))
+      .filter((column) => !relations.includes(column));
+    return columns.every((column) => ormEntity[column] !== undefined)
+      ? Option.some(columns)
+      : Option.none();
+  };
+
+  const saveFailed = (ormEntity: OrmEntity) => (error: unknown) =>
+    OperationException.new(
+      'FAILED_TO_SAVE_ENTITY',
+      `Failed to save entity: ${error}`,
+      {
+        context: {
+          entity: ormEntity,
+        },
+      },
+    );
+
+  const updateColumns = (
+    ormEntity: OrmEntity,
+    columns: ReadonlyArray<string>,
+  ): Effect.Effect<void, BaseException> => {
+    if (columns.length === 0) {
+      return Effect.void;
+    }
+    const auditColumns = audit ? [audit.updatedByColumn ?? 'updatedBy'] : [];
+    return Effect.asVoid(
+      Effect.tryPromise({
+        try: () =>
+          getRepository().update(
+            { id: ormEntity.id } as any,
+            Object.fromEntries(
+              [...columns, ...auditColumns].map((column) => [
+                column,
+                ormEntity[column],
+              ]),
+            ) as any,
+          ),
+        catch: saveFailed(ormEntity),
+      }),
+    );
+  };
+
+  /**
+   * Write the row of a saved aggregate. With partial updates an existing row
+   * only gets the columns of the changed props; child collections are synced
+   * separately.
+   */
+  const writeRow = (
+    ormEntity: OrmEntity,
+    existingEntity: OrmEntity | null,
+    changes: Option.Option<PropsDiff>,
+  ): Effect.Effect<void, BaseException> =>
+    Option.match(changedColumns(ormEntity, existingEntity, changes), {
+      onNone: () =>
+        Effect.asVoid(
+          Effect.tryPromise({
+            try: () => getRepository().save(ormEntity),
+            catch: saveFailed(ormEntity),
+          }),
+        ),
+      onSome: (columns) => updateColumns(ormEntity, columns),
+    });
+
+  /**
+   * Run the writes of a save in one transaction. In outbox mode the events
+   * are written in it too and a relay publishes them; otherwise they are
+   * published once the writes are committed.
+   */
+  const persist = <A>(
+    writes: Effect.Effect<A, BaseException>,
+    events: ReadonlyArray<IDomainEvent>,
+  ): Effect.Effect<A, BaseException> =>
+    pipe(
+      inTransaction(
+        outbox && events.length > 0
+          ? Effect.tap(writes, () => outbox.saveAll(events))
+          : writes,
+      ),
+      // Publishers are only called once the transaction has committed
+      Effect.tap(
+        Effect.suspend(() =>
+          !outbox && events.length > 0
+            ? publisher.publishAll(events)
+            : Effect.void,
+        ),
+      ),
+    );
+
+  // A saved aggregate has no pending events and was stored at its version
+  const markPersisted = (aggregateRoot: DM): DM => ({
+    ...aggregateRoot,
+    domainEvents: [],
+    persistedVersion: aggregateRoot.version,
+  });
+
+  // Child rows are written by syncChildren, not cascaded from the parent save
+  const detachChildren = (ormEntity: OrmEntity): OrmEntity =>
+    childCollections.length === 0
+      ? ormEntity
+      : Object.assign(
+          ormEntity,
+          Object.fromEntries(
+            childCollections.map((collection) => [
+              collection.relation,
+              undefined,
+            ]),
+          ),
+        );
+
+  /**
+   * Diff each child collection against the rows loaded with the parents, then
+   * delete the removed rows and save the rest: one query of each per collection.
+   */
+  const syncChildren = (
+    entries: ReadonlyArray<[DM, OrmEntity | null]>,
+  ): Effect.Effect<void, BaseException> =>
+    Effect.forEach(
+      childCollections,
+      (collection) => {
+        const repository = getEntityManager().getRepository(
+          collection.entityClass,
+        );
+        const removedIds = entries.flatMap(([aggregate, existing]) => {
+          const currentIds = new Set(
+            collection.children(aggregate).map((child) => child.id),
+          );
+          return ((existing?.[collection.relation] ?? []) as ObjectLiteral[])
+            .map((row) => row.id)
+            .filter((id) => !currentIds.has(id));
+        });
+        return pipe(
+          removedIds.length === 0
+            ? Effect.void
+            : Effect.asVoid(
+                Effect.tryPromise({
+                  try: () => repository.delete(removedIds),
+                  catch: (error) =>
+                    OperationException.new(
+                      'FAILED_TO_SAVE_ENTITY',
+                      `Failed to delete ${collection.relation}: ${error}`,
+                    ),
+                }),
+              ),
+          Effect.flatMap(() =>
+            Effect.forEach(entries, ([aggregate, existing]) => {
+              const existingRows = new Map(
+                (
+                  (existing?.[collection.relation] ?? []) as ObjectLiteral[]
+                ).map((row) => [row.id, row]),
+              );
+              return Effect.forEach(collection.children(aggregate), (child) =>
+                collection.toOrm(
+                  child,
+                  aggregate,
+                  Option.fromNullable(existingRows.get(child.id)),
+                ),
+              );
+            }),
+          ),
+          Effect.map((rows) => rows.flat()),
+          Effect.flatMap((rows) =>
+            rows.length === 0
+              ? Effect.void
+              : Effect.tryPromise({
+                  try: () => repository.save(rows),
+                  catch: (error) =>
+                    OperationException.new(
+                      'FAILED_TO_SAVE_ENTITY',
+                      `Failed to save ${collection.relation}: ${error}`,
+                    ),
+                }),
+          ),
+        );
+      },
+      { discard: true },
+    );
+
+  // With partial updates, a save that changes no prop writes nothing: no
+  // version claim, no row and no child rows, so version and updatedAt stay
+  const isUnchanged = (changes: Option.Option<PropsDiff>) =>
+    partialUpdates === true && Option.exists(changes, DiffTrait.isEmpty);
+
+  // The aggregate as stored by a save that wrote nothing
+  const keptAsStored = (
+    aggregateRoot: DM,
+    existingEntity: OrmEntity,
+  ): Effect.Effect<DM, BaseException> =>
+    isVersioned(getRepository()) &&
+    existingEntity[VERSION_PROPERTY] !== aggregateRoot.persistedVersion
+      ? Effect.fail(
+          versionConflict(aggregateRoot, existingEntity[VERSION_PROPERTY]),
+        )
+      : Effect.succeed({
+          ...aggregateRoot,
+          domainEvents: [],
+          version: aggregateRoot.persistedVersion,
+        });
+
+  const writeAggregate = (
+    aggregateRoot: DM,
+    tenant: Option.Option<string>,
+    correlation: Option.Option<CorrelationContext>,
+  ): Effect.Effect<DM, BaseException> =>
+    pipe(
+      // Not scoped, so a row of another tenant is detected rather than overwritten
       Effect.tryPromise({
         try: () =>
           getRepository().findOne({
             where: { id: aggregateRoot.id } as any,
             relations,
+            withDeleted: true,
           }),
         catch: (error) =>
           OperationException.new('ENTITY_DO_NOT_EXIST', `${error}`),
       }),
+      Effect.tap((existingEntity) =>
+        checkTenant(aggregateRoot, existingEntity, tenant),
+      ),
       Effect.flatMap((existingEntity) =>
-        toOrm(
-          aggregateRoot,
-          Option.fromNullable(existingEntity),
-          getRepository(),
+        Effect.flatMap(
+          diffWithStored(aggregateRoot, existingEntity),
+          (changes) =>
+            existingEntity && isUnchanged(changes)
+              ? keptAsStored(aggregateRoot, existingEntity)
+              : pipe(
+                  claimVersion(aggregateRoot, existingEntity),
+                  Effect.zipRight(
+                    toOrm(
+                      aggregateRoot,
+                      Option.fromNullable(existingEntity),
+                      getRepository(),
+                    ),
+                  ),
+                  Effect.flatMap(withTenant(aggregateRoot, tenant)),
+                  Effect.map(withAuditFields(existingEntity, correlation)),
+                  Effect.map(withVersion(aggregateRoot)),
+                  Effect.map(detachChildren),
+                  Effect.flatMap((ormEntity) =>
+                    writeRow(ormEntity, existingEntity, changes),
+                  ),
+                  Effect.flatMap(() =>
+                    syncChildren([[aggregateRoot, existingEntity]]),
+                  ),
+                  Effect.flatMap(() =>
+                    recordChanges(
+                      [[aggregateRoot, existingEntity, changes]],
+                      correlation,
+                    ),
+                  ),
+                  Effect.as(markPersisted(aggregateRoot)),
+                ),
         ),
       ),
-      Effect.flatMap((ormEntity) =>
-        Effect.tryPromise({
-          try: () => getRepository().save(ormEntity),
-          catch: (error) =>
-            OperationException.new(
-              'FAILED_TO_SAVE_ENTITY',
-              `Failed to save entity: ${error}`,
-              {
-                context: {
-                  entity: ormEntity,
-                },
-              },
-            ),
-        }),
+    );
+
+  // The version claim and the row are written in the same transaction
+  const save = (
+    aggregateRoot: DM,
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<DM, BaseException> =>
+    Effect.flatMap(resolveTenant(), (tenant) =>
+      persist(
+        writeAggregate(aggregateRoot, tenant, correlationOf(options)),
+        aggregateRoot.domainEvents,
       ),
-      Effect.flatMap(() => {
-        const events = aggregateRoot.domainEvents;
-        if (events.length > 0) {
-          return publisher.publishAll(events);
-        }
-        return Effect.succeed(undefined as void);
-      }),
     );
-  };
 
-  const add = (entity: DM): Effect.Effect<void, BaseException> => {
-    return pipe(
-      toOrm(entity, Option.none(), getRepository()),
+  const add = (
+    entity: DM,
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<DM, BaseException> => {
+    const correlation = correlationOf(options);
+    const writes = pipe(
+      resolveTenant(),
+      Effect.flatMap((tenant) =>
+        pipe(
+          toOrm(entity, Option.none(), getRepository()),
+          Effect.flatMap(withTenant(entity, tenant)),
+        ),
+      ),
+      Effect.map(withAuditFields(null, correlation)),
+      Effect.map(withVersion(entity)),
+      Effect.map(detachChildren),
       Effect.flatMap((ormEntity) =>
         Effect.tryPromise({
           try: () => getRepository().save(ormEntity),
@@ -191,48 +942,203 @@ export function createTypeormRepository<
             ),
         }),
       ),
-      Effect.flatMap(() => {
-        const events = entity.domainEvents;
-        if (events.length > 0) {
-          return publisher.publishAll(events);
-        }
-        return Effect.succeed(undefined as void);
-      }),
+      Effect.flatMap(() => syncChildren([[entity, null]])),
+      Effect.flatMap(() =>
+        recordChanges([[entity, null, Option.none()]], correlation),
+      ),
     );
-  };
-
-  const saveMultiple = (entities: DM[]): Effect.Effect<void, BaseException> => {
-    if (entities.length === 0) {
-      return Effect.succeed(undefined as void);
-    }
     return pipe(
-      Effect.forEach(entities, (aggregate) => save(aggregate)),
-      Effect.map(() => undefined as void),
+      persist(writes, entity.domainEvents),
+      Effect.as(markPersisted(entity)),
     );
   };
 
-  const findOne = (
-    params: QueryParams,
-  ): Effect.Effect<Option.Option<DM>, BaseException> => {
-    return pipe(
+  /**
+   * Persist one chunk: a single IN query preloads the existing rows, a single
+   * UPDATE claims their versions and a single save writes the whole rows.
+   * Saves are handled as by `save`: unchanged aggregates are not written and
+   * partial updates only write the changed columns.
+   */
+  const saveChunk = (
+    chunk: DM[],
+    tenant: Option.Option<string>,
+    correlation: Option.Option<CorrelationContext>,
+  ): Effect.Effect<DM[], BaseException> =>
+    pipe(
       Effect.tryPromise({
         try: () =>
-          getRepository().findOne({
-            where: prepareQuery(params),
+          getRepository().find({
+            where: { id: In(chunk.map((aggregate) => aggregate.id)) } as any,
             relations,
+            withDeleted: true,
           }),
         catch: (error) =>
           OperationException.new(
-            'FAILED_FIND_ENTITY',
-            `Failed to find entity: ${error}`,
+            'FIND_MANY_FAILED',
+            `Failed to preload entities: ${error}`,
+          ),
+      }),
+      Effect.map((existing) => {
+        const existingById = new Map(
+          existing.map((entity) => [entity.id as Identifier, entity]),
+        );
+        return chunk.map((aggregate): [DM, OrmEntity | null] => [
+          aggregate,
+          existingById.get(aggregate.id) ?? null,
+        ]);
+      }),
+      Effect.tap((entries) =>
+        Effect.forEach(
+          entries,
+          ([aggregate, existing]) => checkTenant(aggregate, existing, tenant),
+          { discard: true },
+        ),
+      ),
+      // Diff against the rows as loaded, before toOrm or the write touch them
+      Effect.flatMap((entries) =>
+        Effect.forEach(entries, ([aggregate, existing]) =>
+          Effect.map(
+            diffWithStored(aggregate, existing),
+            (changes): [DM, OrmEntity | null, Option.Option<PropsDiff>] => [
+              aggregate,
+              existing,
+              changes,
+            ],
+          ),
+        ),
+      ),
+      Effect.flatMap((entries) => {
+        const changed = entries.filter(
+          ([, existing, changes]) => !(existing && isUnchanged(changes)),
+        );
+        const rows = changed.map(
+          ([aggregate, existing]): [DM, OrmEntity | null] => [
+            aggregate,
+            existing,
+          ],
+        );
+        return pipe(
+          Effect.forEach(entries, ([aggregate, existing, changes]) =>
+            existing && isUnchanged(changes)
+              ? keptAsStored(aggregate, existing)
+              : Effect.succeed(markPersisted(aggregate)),
+          ),
+          Effect.tap(() => claimVersions(rows)),
+          Effect.tap(() =>
+            pipe(
+              Effect.forEach(changed, ([aggregate, existing]) =>
+                pipe(
+                  toOrm(
+                    aggregate,
+                    Option.fromNullable(existing),
+                    getRepository(),
+                  ),
+                  Effect.flatMap(withTenant(aggregate, tenant)),
+                  Effect.map(withAuditFields(existing, correlation)),
+                  Effect.map(withVersion(aggregate)),
+                  Effect.map(detachChildren),
+                ),
+              ),
+              Effect.flatMap((ormEntities) => {
+                const partial = ormEntities.flatMap((ormEntity, index) =>
+                  Option.match(
+                    changedColumns(
+                      ormEntity,
+                      changed[index][1],
+                      changed[index][2],
+                    ),
+                    {
+                      onNone: () => [],
+                      onSome: (columns) => [[ormEntity, columns] as const],
+                    },
+                  ),
+                );
+                const whole = ormEntities.filter(
+                  (ormEntity) =>
+                    !partial.some(([updated]) => updated === ormEntity),
+                );
+                return pipe(
+                  whole.length === 0
+                    ? Effect.void
+                    : Effect.tryPromise({
+                        try: () => getRepository().save(whole),
+                        catch: (error) =>
+                          OperationException.new(
+                            'FAILED_TO_SAVE_ENTITY',
+                            `Failed to save ${whole.length} entities: ${error}`,
+                          ),
+                      }),
+                  Effect.zipRight(
+                    Effect.forEach(
+                      partial,
+                      ([ormEntity, columns]) =>
+                        updateColumns(ormEntity, columns),
+                      { discard: true },
+                    ),
+                  ),
+                );
+              }),
+            ),
           ),
+          Effect.tap(() => syncChildren(rows)),
+          Effect.tap(() => recordChanges(changed, correlation)),
+        );
       }),
+    );
+
+  // The whole batch is one transaction: all chunks are stored or none
+  const saveMultiple = (
+    entities: DM[],
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<DM[], BaseException> => {
+    if (entities.length === 0) {
+      return Effect.succeed([]);
+    }
+    const chunks = Array.from(
+      { length: Math.ceil(entities.length / batchSize) },
+      (_, index) => entities.slice(index * batchSize, (index + 1) * batchSize),
+    );
+    return pipe(
+      resolveTenant(),
+      Effect.flatMap((tenant) =>
+        persist(
+          Effect.forEach(chunks, (chunk) =>
+            saveChunk(chunk, tenant, correlationOf(options)),
+          ),
+          entities.flatMap((aggregate) => aggregate.domainEvents),
+        ),
+      ),
+      Effect.map((saved) => saved.flat()),
+    );
+  };
+
+  const findOne = (
+    params: RepositoryQuery<DM, QueryParams>,
+    options: RepositoryReadOptions = {},
+  ): Effect.Effect<Option.Option<DM>, BaseException> => {
+    return pipe(
+      resolveTenant(),
+      Effect.flatMap((tenant) =>
+        Effect.tryPromise({
+          try: () =>
+            getRepository().findOne({
+              where: toWhere(params, tenant),
+              relations,
+              withDeleted: options.includeDeleted,
+            }),
+          catch: (error) =>
+            OperationException.new(
+              'FAILED_FIND_ENTITY',
+              `Failed to find entity: ${error}`,
+            ),
+        }),
+      ),
       Effect.flatMap((entity) => {
         if (!entity) {
           return Effect.succeed(Option.none());
         }
         return pipe(
-          toDomain(entity),
+          toVersionedDomain(entity),
           Effect.mapError((err) =>
             OperationException.new(
               'TO_DOMAIN_MAPPING_FAILED',
@@ -248,10 +1154,11 @@ export function createTypeormRepository<
   };
 
   const findOneOrThrow = (
-    params: QueryParams,
+    params: RepositoryQuery<DM, QueryParams>,
+    options?: RepositoryReadOptions,
   ): Effect.Effect<DM, BaseException> => {
     return pipe(
-      findOne(params),
+      findOne(params, options),
       Effect.flatMap(
         Option.match({
           onNone: () =>
@@ -269,32 +1176,38 @@ export function createTypeormRepository<
 
   const findOneByIdOrThrow = (
     id: Identifier,
+    options?: RepositoryReadOptions,
   ): Effect.Effect<DM, BaseException> => {
-    return findOneOrThrow({ id } as unknown as QueryParams);
+    return findOneOrThrow({ id } as unknown as QueryParams, options);
   };
 
   const findMany = (
-    params: QueryParams,
+    params: RepositoryQuery<DM, QueryParams>,
+    options: RepositoryReadOptions = {},
   ): Effect.Effect<DM[], BaseException> => {
     return pipe(
-      Effect.tryPromise({
-        try: () =>
-          getRepository().find({
-            where: prepareQuery(params),
-            relations,
-          }),
-        catch: (error) =>
-          OperationException.new(
-            'FIND_MANY_FAILED',
-            `Failed to find entities: ${error}`,
-          ),
-      }),
+      resolveTenant(),
+      Effect.flatMap((tenant) =>
+        Effect.tryPromise({
+          try: () =>
+            getRepository().find({
+              where: toWhere(params, tenant),
+              relations,
+              withDeleted: options.includeDeleted,
+            }),
+          catch: (error) =>
+            OperationException.new(
+              'FIND_MANY_FAILED',
+              `Failed to find entities: ${error}`,
+            ),
+        }),
+      ),
       Effect.flatMap((entities) =>
         Effect.forEach(
           entities,
           (entity) =>
             pipe(
-              toDomain(entity),
+              toVersionedDomain(entity),
               Effect.mapError((err) =>
                 OperationException.new(
                   'TO_DOMAIN_MAPPING_FAILED',
@@ -311,7 +1224,7 @@ export function createTypeormRepository<
   };
 
   const findManyPaginated = (
-    options: FindManyPaginatedParams<QueryParams>,
+    options: FindManyPaginatedParams<RepositoryQuery<DM, QueryParams>, DM>,
   ): Effect.Effect<DataWithPaginationMeta<DM[]>, BaseException> => {
     const params = options.params || ({} as QueryParams);
     const pagination = options.pagination || { skip: 0, limit: 10 };
@@ -321,41 +1234,49 @@ export function createTypeormRepository<
     const take = pagination.limit ?? 10;
 
     return pipe(
-      Effect.all({
-        total: Effect.tryPromise({
-          try: () =>
-            getRepository().count({
-              where: prepareQuery(params),
-            }),
-          catch: (error) =>
-            OperationException.new(
-              'COUNT_FAILED',
-              `Failed to count entities: ${error}`,
-            ),
-        }),
-        entities: Effect.tryPromise({
-          try: () =>
-            getRepository().find({
-              where: prepareQuery(params),
-              skip,
-              take,
-              order: options.orderBy as FindOptionsOrder<OrmEntity>,
-              relations,
-            }),
-          catch: (error) =>
-            OperationException.new(
-              'FIND_PAGINATED_FAILED',
-              `Failed to find paginated entities: ${error}`,
-            ),
+      resolveTenant(),
+      Effect.flatMap((tenant) =>
+        Effect.all({
+          total: Effect.tryPromise({
+            try: () =>
+              getRepository().count({
+                where: toWhere(params, tenant),
+                withDeleted: options.includeDeleted,
+              }),
+            catch: (error) =>
+              OperationException.new(
+                'COUNT_FAILED',
+                `Failed to count entities: ${error}`,
+              ),
+          }),
+          entities: Effect.tryPromise({
+            try: () =>
+              getRepository().find({
+                where: toWhere(params, tenant),
+                skip,
+                take,
+                order: orderByToFindOptions<OrmEntity>(
+                  options.orderBy,
+                  specification,
+                ),
+                relations,
+                withDeleted: options.includeDeleted,
+              }),
+            catch: (error) =>
+              OperationException.new(
+                'FIND_PAGINATED_FAILED',
+                `Failed to find paginated entities: ${error}`,
+              ),
+          }),
         }),
-      }),
+      ),
       Effect.flatMap(({ total, entities }) =>
         pipe(
           Effect.forEach(
             entities,
             (entity) =>
               pipe(
-                toDomain(entity),
+                toVersionedDomain(entity),
                 Effect.mapError((err) =>
                   OperationException.new(
                     'TO_DOMAIN_MAPPING_FAILED',
@@ -378,19 +1299,225 @@ export function createTypeormRepository<
     );
   };
 
-  const del = (entity: DM): Effect.Effect<void, BaseException> => {
+  /**
+   * Sort key values of a row for a cursor. Timestamps are read back as the
+   * database's own text so the cursor keeps the column's full precision,
+   * which a JS Date (milliseconds) would truncate.
+   */
+  const cursorValues = (
+    row: OrmEntity,
+    keys: ReadonlyArray<[string, SortDirection]>,
+  ): Effect.Effect<unknown[], BaseException> => {
+    const values = keys.map(([key]) =>
+      resolveFieldPath(key, specification)
+        .split('.')
+        .reduce((value: any, property) => value?.[property], row),
+    );
+    const timestamps = keys.flatMap(([key], index) => {
+      const path = resolveFieldPath(key, specification);
+      return values[index] instanceof Date && !path.includes('.')
+        ? [{ index, path }]
+        : [];
+    });
+    if (timestamps.length === 0) {
+      return Effect.succeed(values);
+    }
+
     return Effect.tryPromise({
       try: async () => {
-        await getRepository().delete(entity.id);
+        const query = getRepository()
+          .createQueryBuilder('row')
+          .select('row.id', 'id')
+          .where('row.id = :id', { id: (row as any).id })
+          .withDeleted();
+        timestamps.forEach(({ path }, i) =>
+          query.addSelect(`CAST(row.${path} AS text)`, `key${i}`),
+        );
+        const stored = await query.getRawOne();
+        timestamps.forEach(({ index }, i) => {
+          values[index] = stored?.[`key${i}`] ?? values[index];
+        });
+        return values;
       },
       catch: (error) =>
         OperationException.new(
-          'DELETE_FAILED',
-          `Failed to delete entity: ${error}`,
+          'FIND_BY_CURSOR_FAILED',
+          `Failed to read the cursor position: ${error}`,
         ),
     });
   };
 
+  /**
+   * Keyset pagination: rows are read after the cursor position instead of
+   * skipped, and one extra row tells whether another page exists.
+   */
+  const findManyByCursor = (
+    options: FindManyByCursorParams<RepositoryQuery<DM, QueryParams>, DM>,
+  ): Effect.Effect<DataWithCursorMeta<DM[]>, BaseException> => {
+    const params = options.params || ({} as QueryParams);
+    const limit = options.limit ?? 10;
+    const keys = cursorSortKeys(options.orderBy);
+
+    return pipe(
+      Effect.all([
+        options.cursor
+          ? Effect.map(decodeCursor(options.cursor, keys.length), Option.some)
+          : Effect.succeed(Option.none<unknown[]>()),
+        resolveTenant(),
+      ]),
+      Effect.flatMap(([cursor, tenant]) =>
+        Effect.all({
+          count: options.withCount
+            ? Effect.tryPromise({
+                try: () =>
+                  getRepository().count({
+                    where: toWhere(params, tenant),
+                    withDeleted: options.includeDeleted,
+                  }),
+                catch: (error) =>
+                  OperationException.new(
+                    'COUNT_FAILED',
+                    `Failed to count entities: ${error}`,
+                  ),
+              })
+            : Effect.succeed(undefined),
+          entities: Effect.tryPromise({
+            try: () =>
+              getRepository().find({
+                where: Option.match(cursor, {
+                  onNone: () => toWhere(params, tenant),
+                  onSome: (values) =>
+                    afterKeyset(
+                      toWhere(params, tenant),
+                      keys,
+                      values,
+                      specification,
+                    ),
+                }),
+                order: keysetOrder<OrmEntity>(keys, specification),
+                take: limit + 1,
+                relations,
+                withDeleted: options.includeDeleted,
+              }),
+            catch: (error) =>
+              OperationException.new(
+                'FIND_BY_CURSOR_FAILED',
+                `Failed to find entities by cursor: ${error}`,
+              ),
+          }),
+        }),
+      ),
+      Effect.flatMap(({ count, entities }) => {
+        const page = entities.slice(0, limit);
+        const hasNext = entities.length > limit;
+        const last = page[page.length - 1];
+
+        return pipe(
+          Effect.forEach(
+            page,
+            (entity) =>
+              pipe(
+                toVersionedDomain(entity),
+                Effect.mapError((err) =>
+                  OperationException.new(
+                    'TO_DOMAIN_MAPPING_FAILED',
+                    `[${entityClass.name}] Failed to map entity (id=${
+                      (entity as any).id
+                    }) to domain: ${err.message}`,
+                  ),
+                ),
+              ),
+            { concurrency: 'unbounded' },
+          ),
+          Effect.zip(
+            hasNext && last
+              ? Effect.map(cursorValues(last, keys), encodeCursor)
+              : Effect.succeed(undefined),
+          ),
+          Effect.map(([data, nextCursor]) => ({
+            data,
+            hasNext,
+            nextCursor,
+            limit,
+            count,
+          })),
+        );
+      }),
+    );
+  };
+
+  // Only a row that was actually deleted is audited, in the same transaction
+  const del = (
+    entity: DM,
+    options?: RepositoryWriteOptions,
+  ): Effect.Effect<void, BaseException> => {
+    const deleteRow = Effect.flatMap(resolveTenant(), (tenant) =>
+      Effect.tryPromise({
+        try: () =>
+          softDelete
+            ? getRepository().softDelete(byId(entity.id, tenant))
+            : getRepository().delete(byId(entity.id, tenant)),
+        catch: (error) =>
+          OperationException.new(
+            'DELETE_FAILED',
+            `Failed to delete entity: ${error}`,
+          ),
+      }),
+    );
+    const log = audit?.log;
+    if (!log) {
+      return Effect.asVoid(deleteRow);
+    }
+    return inTransaction(
+      Effect.flatMap(deleteRow, ({ affected }) =>
+        (affected ?? 0) > 0
+          ? log.append([
+              AuditTrait.entry({
+                action: 'delete',
+                aggregate: entity,
+                changes: {},
+                correlation: correlationOf(options),
+              }),
+            ])
+          : Effect.void,
+      ),
+    );
+  };
+
+  const restore = (entity: DM): Effect.Effect<void, BaseException> => {
+    if (!softDelete) {
+      return Effect.fail(
+        OperationException.new(
+          'SOFT_DELETE_DISABLED',
+          `[${entityClass.name}] Repository is not configured for soft delete`,
+        ),
+      );
+    }
+    return pipe(
+      resolveTenant(),
+      Effect.flatMap((tenant) =>
+        Effect.tryPromise({
+          try: () => getRepository().restore(byId(entity.id, tenant)),
+          catch: (error) =>
+            OperationException.new(
+              'RESTORE_FAILED',
+              `Failed to restore entity: ${error}`,
+            ),
+        }),
+      ),
+      Effect.flatMap((result) =>
+        result.affected === 0
+          ? Effect.fail(
+              OperationException.new(
+                'ENTITY_NOT_FOUND',
+                `Entity not found with id: ${entity.id}`,
+              ),
+            )
+          : Effect.void,
+      ),
+    );
+  };
+
   const repository: RepositoryPort<DM> = {
     save,
     add,
@@ -400,7 +1527,9 @@ export function createTypeormRepository<
     findOneByIdOrThrow,
     findMany,
     findManyPaginated,
+    findManyByCursor,
     delete: del,
+    restore,
     setCorrelationId: (correlationId: string): typeof repository => {
       // Store correlation ID for tracking (placeholder)
       return repository;
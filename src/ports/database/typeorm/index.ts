@@ -1,6 +1,14 @@
 export * from './base-entity';
 export * from './columns';
 export * from './repository.factory';
+export * from './outbox.entity';
+export * from './outbox.repository';
+export * from './projection-checkpoint.entity';
+export * from './projection.store';
+export * from './process-state.entity';
+export * from './process-state.repository';
+export * from './audit-log.entity';
+export * from './audit-log.repository';
 
 // Effect repository factory for NestJS DI
 export {
@@ -10,4 +18,19 @@ export {
   type TypeormRepositoryProviderConfig,
   type TypeormRepositoryProvider,
   type BaseTypeormQueryParams,
+  type ChildCollectionConfig,
+  type TenancyConfig,
+  type AuditConfig,
 } from './effect-repository.factory';
+export {
+  specificationToFindOptions,
+  specificationToSql,
+  applySpecification,
+  type SpecificationCompileOptions,
+} from './specification.compiler';
+export {
+  createSchemaMappers,
+  columnName,
+  ColumnNameAnnotationId,
+  type SchemaMappers,
+} from './schema-mapper';
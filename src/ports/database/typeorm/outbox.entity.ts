@@ -0,0 +1,80 @@
+import {
+  Column,
+  Entity,
+  Generated,
+  Index,
+  PrimaryColumn,
+  ValueTransformer,
+} from 'typeorm';
+import { IDomainEvent } from '@model/interfaces';
+import { Column255Char, ColumnJsonB, ColumnUUID } from './columns';
+
+// bigint values arrive as strings; sequences and transaction ids stay below 2^53
+const BigIntNumber: ValueTransformer = {
+  to: (value?: number) => value,
+  from: (value: string | null) => (value === null ? null : Number(value)),
+};
+
+/**
+ * Outbox table for domain events waiting to be dispatched.
+ * Register it in the DataSource entities when using the outbox mode.
+ */
+@Entity('domain_event_outbox')
+@Index(['dispatchedAt', 'sequence'])
+@Index(['transactionId', 'sequence'])
+export class OutboxEventEntity {
+  // Same as the domain event id
+  @PrimaryColumn('uuid')
+  id: string;
+
+  // Assigned by the database on insert; orders the relay
+  @Column({
+    type: 'bigint',
+    unique: true,
+    transformer: BigIntNumber,
+  })
+  @Generated('increment')
+  sequence: number;
+
+  // Id of the inserting transaction (PostgreSQL 13+); orders projections
+  @Column({
+    type: 'bigint',
+    default: () => 'pg_current_xact_id()::text::bigint',
+    insert: false,
+    update: false,
+    transformer: BigIntNumber,
+  })
+  transactionId: number;
+
+  @Column255Char()
+  name: string;
+
+  @Column({
+    type: 'integer',
+    default: 1,
+  })
+  version: number;
+
+  @ColumnUUID({})
+  aggregateId: string | null;
+
+  @Column255Char()
+  aggregateType: string | null;
+
+  @ColumnJsonB()
+  payload: any;
+
+  @ColumnJsonB()
+  metadata: IDomainEvent['metadata'];
+
+  @Column({
+    type: 'timestamptz',
+  })
+  occurredAt: Date;
+
+  @Column({
+    type: 'timestamptz',
+    nullable: true,
+  })
+  dispatchedAt: Date | null;
+}
@@ -0,0 +1,211 @@
+import { Effect, Option, pipe } from 'effect';
+import { DataSource, EntityManager, IsNull, Repository } from 'typeorm';
+import {
+  ENTITY_MANAGER_KEY,
+  getNamespaceInstance,
+} from '../../../infra/nestjs/cls.middleware';
+import { BaseException, OperationException } from '@model/exception';
+import {
+  IDomainEvent,
+  IOutboxRepository,
+  OutboxMessage,
+} from '@model/interfaces';
+import { EventUpcasterRegistry, ProjectionEventSource } from '@model/event';
+import { Identifier } from '../../../typeclasses/obj-with-id';
+import { OutboxEventEntity } from './outbox.entity';
+
+export interface TypeormOutboxOptions {
+  /**
+   * Migrates stored payloads to their latest version when read back
+   */
+  upcasters?: EventUpcasterRegistry;
+}
+
+const toOutboxRow = (
+  event: IDomainEvent,
+): Omit<OutboxEventEntity, 'sequence' | 'transactionId'> => ({
+  id: event.id,
+  name: event.name,
+  version: event.version,
+  aggregateId: event.aggregateId ?? null,
+  aggregateType: event.aggregateType ?? null,
+  payload: event.payload,
+  metadata: event.metadata,
+  occurredAt: new Date(event.metadata.timestamp),
+  dispatchedAt: null,
+});
+
+const toDomainEvent = (row: OutboxEventEntity): IDomainEvent => ({
+  id: row.id,
+  name: row.name,
+  version: row.version,
+  metadata: row.metadata,
+  payload: row.payload,
+  aggregateId: (row.aggregateId ?? undefined) as Identifier | undefined,
+  aggregateType: row.aggregateType ?? undefined,
+  getPayload: () => row.payload,
+});
+
+/**
+ * Create a domain event repository that writes to the outbox table.
+ *
+ * Writes go through the EntityManager stored in CLS, so events are committed
+ * in the same transaction as the aggregate that raised them.
+ *
+ * Usage:
+ * ```typescript
+ * const outbox = createTypeormOutboxRepository(dataSource);
+ *
+ * createTypeormRepository({ ...config, outbox });
+ * createOutboxRelay(outbox, publisher).run('1 second');
+ * ```
+ */
+export function createTypeormOutboxRepository(
+  dataSource: DataSource,
+  options: TypeormOutboxOptions = {},
+): IOutboxRepository {
+  const toOutboxMessage = (row: OutboxEventEntity): OutboxMessage => {
+    const event = toDomainEvent(row);
+    return {
+      id: row.id,
+      event: options.upcasters ? options.upcasters.upcast(event) : event,
+    };
+  };
+
+  const getEntityManager = (): EntityManager => {
+    const namespace = getNamespaceInstance();
+    return namespace?.get(ENTITY_MANAGER_KEY) ?? dataSource.manager;
+  };
+
+  const getRepository = (): Repository<OutboxEventEntity> =>
+    getEntityManager().getRepository(OutboxEventEntity);
+
+  const saveAll = (
+    events: ReadonlyArray<IDomainEvent>,
+  ): Effect.Effect<void, BaseException> =>
+    events.length === 0
+      ? Effect.void
+      : Effect.tryPromise({
+          try: async () => {
+            await getRepository().insert(events.map(toOutboxRow));
+          },
+          catch: (error) =>
+            OperationException.new(
+              'SAVE_EVENT_FAILED',
+              `Failed to write events to the outbox: ${error}`,
+            ),
+        });
+
+  const getPendingMessages = (
+    limit?: number,
+  ): Effect.Effect<OutboxMessage[], BaseException> =>
+    pipe(
+      Effect.tryPromise({
+        try: () =>
+          getRepository().find({
+            where: { dispatchedAt: IsNull() },
+            order: { sequence: 'ASC' },
+            take: limit,
+          }),
+        catch: (error) =>
+          OperationException.new(
+            'GET_UNHANDLED_EVENT_FAILED',
+            `Failed to read pending outbox events: ${error}`,
+          ),
+      }),
+      Effect.map((rows) => rows.map(toOutboxMessage)),
+    );
+
+  const markAsHandled = (eventId: string): Effect.Effect<void, BaseException> =>
+    pipe(
+      Effect.tryPromise({
+        try: () =>
+          getRepository().update(
+            { id: eventId, dispatchedAt: IsNull() },
+            { dispatchedAt: new Date() },
+          ),
+        catch: (error) =>
+          OperationException.new(
+            'MARK_EVENT_AS_HANDLED_FAILED',
+            `Failed to mark outbox event as dispatched: ${error}`,
+          ),
+      }),
+      Effect.asVoid,
+    );
+
+  return {
+    save: (event) => saveAll([event]),
+    saveAll,
+    getUnhandledEvents: () =>
+      pipe(
+        getPendingMessages(),
+        Effect.map((messages) => messages.map(({ event }) => event)),
+      ),
+    getPendingMessages,
+    markAsHandled,
+  };
+}
+
+/**
+ * Read the outbox table as an ordered event log for projections.
+ *
+ * Rows are kept after dispatch, so the outbox can replay every event since it
+ * was introduced. Sequences are assigned on insert, not on commit, so a
+ * transaction can commit a lower sequence after a higher one was read.
+ * Events are therefore ordered by (inserting transaction id, sequence), and
+ * only rows of transactions older than every transaction still in flight are
+ * read: no row can commit behind them any more. That pair is the checkpoint
+ * position. A long-running transaction holds projections back until it ends.
+ *
+ * Usage:
+ * ```typescript
+ * createProjectionRunner(projectors, createOutboxEventSource(dataSource), store);
+ * ```
+ */
+export function createOutboxEventSource(
+  dataSource: DataSource,
+  options: TypeormOutboxOptions = {},
+): ProjectionEventSource {
+  return {
+    readAfter: (checkpoint, limit) =>
+      pipe(
+        Effect.tryPromise({
+          try: () => {
+            const query = dataSource.manager
+              .getRepository(OutboxEventEntity)
+              .createQueryBuilder('event')
+              .where(
+                'event.transactionId < pg_snapshot_xmin(pg_current_snapshot())::text::bigint',
+              )
+              .orderBy('event.transactionId', 'ASC')
+              .addOrderBy('event.sequence', 'ASC')
+              .limit(limit);
+            if (Option.isSome(checkpoint)) {
+              const [transactionId, sequence] = checkpoint.value.position;
+              query.andWhere(
+                '(event.transactionId, event.sequence) > (:transactionId, :sequence)',
+                { transactionId, sequence },
+              );
+            }
+            return query.getMany();
+          },
+          catch: (error) =>
+            OperationException.new(
+              'READ_EVENTS_FAILED',
+              `Failed to read outbox events: ${error}`,
+            ),
+        }),
+        Effect.map((rows) =>
+          rows.map((row) => {
+            const event = toDomainEvent(row);
+            return {
+              event: options.upcasters
+                ? options.upcasters.upcast(event)
+                : event,
+              position: [row.transactionId, row.sequence],
+            };
+          }),
+        ),
+      ),
+  };
+}
@@ -0,0 +1,38 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+import { ProcessCommand, ProcessStatus } from '@application/process-manager';
+import { ColumnJsonB } from './columns';
+
+/**
+ * State of running process managers (sagas).
+ * Register it in the DataSource entities when using process managers.
+ */
+@Entity('process_manager_state')
+@Index(['process', 'status', 'deadline'])
+export class ProcessStateEntity {
+  @PrimaryColumn('varchar', { length: 255 })
+  process: string;
+
+  @PrimaryColumn('varchar', { length: 255 })
+  correlationId: string;
+
+  @ColumnJsonB()
+  state: any;
+
+  @Column('varchar', { length: 16 })
+  status: ProcessStatus;
+
+  @Column({
+    type: 'timestamptz',
+    nullable: true,
+  })
+  deadline: Date | null;
+
+  @ColumnJsonB()
+  compensations: ProcessCommand<any>[];
+
+  @Column({
+    type: 'integer',
+    default: 0,
+  })
+  version: number;
+}
@@ -0,0 +1,135 @@
+import { Effect, Option, pipe } from 'effect';
+import { DataSource, EntityManager, LessThan, Repository } from 'typeorm';
+import {
+  ENTITY_MANAGER_KEY,
+  getNamespaceInstance,
+} from '../../../infra/nestjs/cls.middleware';
+import {
+  BaseException,
+  ConcurrencyException,
+  OperationException,
+} from '@model/exception';
+import {
+  IProcessStateRepository,
+  ProcessInstance,
+} from '@application/process-manager';
+import { ProcessStateEntity } from './process-state.entity';
+
+const toInstance = <S>(row: ProcessStateEntity): ProcessInstance<S> => ({
+  process: row.process,
+  correlationId: row.correlationId,
+  state: row.state,
+  status: row.status,
+  deadline: Option.fromNullable(row.deadline),
+  compensations: row.compensations ?? [],
+  version: row.version,
+});
+
+const toRow = <S>(instance: ProcessInstance<S>): ProcessStateEntity => ({
+  process: instance.process,
+  correlationId: instance.correlationId,
+  state: instance.state,
+  status: instance.status,
+  deadline: Option.getOrNull(instance.deadline),
+  compensations: [...instance.compensations],
+  version: instance.version,
+});
+
+/**
+ * Create a process state repository on the `process_manager_state` table.
+ *
+ * Writes go through the EntityManager stored in CLS, so state changes commit
+ * in the same transaction as the work that triggered them.
+ */
+export function createTypeormProcessStateRepository<S>(
+  dataSource: DataSource,
+): IProcessStateRepository<S> {
+  const getEntityManager = (): EntityManager => {
+    const namespace = getNamespaceInstance();
+    return namespace?.get(ENTITY_MANAGER_KEY) ?? dataSource.manager;
+  };
+
+  const getRepository = (): Repository<ProcessStateEntity> =>
+    getEntityManager().getRepository(ProcessStateEntity);
+
+  const versionConflict = (instance: ProcessInstance<S>) =>
+    ConcurrencyException.new(
+      'VERSION_CONFLICT',
+      `Process ${instance.process}:${instance.correlationId} was modified concurrently`,
+      {
+        aggregateId: instance.correlationId,
+        expectedVersion: instance.version - 1,
+      },
+    );
+
+  const save = (
+    instance: ProcessInstance<S>,
+  ): Effect.Effect<void, BaseException> =>
+    instance.version === 1
+      ? Effect.tryPromise({
+          try: async () => {
+            await getRepository().insert(toRow(instance));
+          },
+          // A concurrent start inserted the same key first
+          catch: () => versionConflict(instance),
+        })
+      : pipe(
+          Effect.tryPromise({
+            try: () =>
+              getRepository().update(
+                {
+                  process: instance.process,
+                  correlationId: instance.correlationId,
+                  version: instance.version - 1,
+                },
+                toRow(instance),
+              ),
+            catch: (error) =>
+              OperationException.new(
+                'SAVE_PROCESS_FAILED',
+                `Failed to save process state: ${error}`,
+              ),
+          }),
+          Effect.flatMap((result) =>
+            result.affected === 0
+              ? Effect.fail(versionConflict(instance))
+              : Effect.void,
+          ),
+        );
+
+  return {
+    findOne: (process, correlationId) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            getRepository().findOne({ where: { process, correlationId } }),
+          catch: (error) =>
+            OperationException.new(
+              'FIND_PROCESS_FAILED',
+              `Failed to read process state: ${error}`,
+            ),
+        }),
+        Effect.map((row) =>
+          Option.map(Option.fromNullable(row), (r) => toInstance<S>(r)),
+        ),
+      ),
+
+    save,
+
+    findExpired: (process, now) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            getRepository().find({
+              where: { process, status: 'running', deadline: LessThan(now) },
+            }),
+          catch: (error) =>
+            OperationException.new(
+              'FIND_PROCESS_FAILED',
+              `Failed to read expired processes: ${error}`,
+            ),
+        }),
+        Effect.map((rows) => rows.map((row) => toInstance<S>(row))),
+      ),
+  };
+}
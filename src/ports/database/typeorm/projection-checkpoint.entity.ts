@@ -0,0 +1,34 @@
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+
+/**
+ * Last event applied by each projector.
+ * Register it in the DataSource entities when using projections.
+ */
+@Entity('projection_checkpoint')
+export class ProjectionCheckpointEntity {
+  @PrimaryColumn('varchar', { length: 255 })
+  projector: string;
+
+  @Column({
+    type: 'uuid',
+    nullable: true,
+  })
+  eventId: string | null;
+
+  // Position of the event in its source, e.g. the outbox [transaction id, sequence]
+  @Column({
+    type: 'bigint',
+    array: true,
+    nullable: true,
+    transformer: {
+      to: (value: number[] | null) => value,
+      from: (value: string[] | null) => value?.map(Number) ?? null,
+    },
+  })
+  position: number[] | null;
+
+  @Column({
+    type: 'timestamptz',
+  })
+  updatedAt: Date;
+}
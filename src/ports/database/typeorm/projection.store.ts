@@ -0,0 +1,109 @@
+import { Effect, Exit, Option, pipe } from 'effect';
+import { DataSource, EntityManager } from 'typeorm';
+import { OperationException } from '@model/exception';
+import { ProjectionStore } from '@model/event';
+import { ProjectionCheckpointEntity } from './projection-checkpoint.entity';
+
+/**
+ * Keep projection checkpoints in the `projection_checkpoint` table.
+ *
+ * Each batch runs in its own transaction; projector handlers receive its
+ * EntityManager so read-model writes commit together with the checkpoint.
+ *
+ * Usage:
+ * ```typescript
+ * const runner = createProjectionRunner(
+ *   projectors,
+ *   createOutboxEventSource(dataSource),
+ *   createTypeormProjectionStore(dataSource),
+ * );
+ * ```
+ */
+export function createTypeormProjectionStore(
+  dataSource: DataSource,
+): ProjectionStore<EntityManager> {
+  return {
+    transaction: (work) =>
+      Effect.acquireUseRelease(
+        Effect.tryPromise({
+          try: async () => {
+            const queryRunner = dataSource.createQueryRunner();
+            await queryRunner.connect();
+            await queryRunner.startTransaction();
+            return queryRunner;
+          },
+          catch: (error) =>
+            OperationException.new(
+              'TRANSACTION_BEGIN_FAILED',
+              `Failed to start projection transaction: ${error}`,
+            ),
+        }),
+        (queryRunner) =>
+          pipe(
+            work(queryRunner.manager),
+            Effect.tap(() =>
+              Effect.tryPromise({
+                try: () => queryRunner.commitTransaction(),
+                catch: (error) =>
+                  OperationException.new(
+                    'TRANSACTION_COMMIT_FAILED',
+                    `Failed to commit projection transaction: ${error}`,
+                  ),
+              }),
+            ),
+          ),
+        (queryRunner, exit) =>
+          Effect.promise(async () => {
+            if (Exit.isFailure(exit) && queryRunner.isTransactionActive) {
+              await queryRunner.rollbackTransaction();
+            }
+            await queryRunner.release();
+          }),
+      ),
+
+    getCheckpoint: (manager, projector) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            manager
+              .getRepository(ProjectionCheckpointEntity)
+              .findOne({ where: { projector } }),
+          catch: (error) =>
+            OperationException.new(
+              'GET_CHECKPOINT_FAILED',
+              `Failed to read checkpoint of ${projector}: ${error}`,
+            ),
+        }),
+        Effect.map((row) =>
+          row?.eventId && row.position
+            ? Option.some({ eventId: row.eventId, position: row.position })
+            : Option.none(),
+        ),
+      ),
+
+    saveCheckpoint: (manager, projector, checkpoint) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            manager.getRepository(ProjectionCheckpointEntity).save({
+              projector,
+              eventId: Option.match(checkpoint, {
+                onNone: () => null,
+                onSome: ({ eventId }) => eventId,
+              }),
+              position: Option.match(checkpoint, {
+                onNone: () => null,
+                onSome: ({ position }) => [...position],
+              }),
+              updatedAt: new Date(),
+            }),
+          catch: (error) =>
+            OperationException.new(
+              'SAVE_CHECKPOINT_FAILED',
+              `Failed to save checkpoint of ${projector}: ${error}`,
+            ),
+        }),
+        Effect.asVoid,
+      ),
+  };
+}
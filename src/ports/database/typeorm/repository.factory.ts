@@ -1,27 +1,46 @@
 // src/model/effect/factories/repository.factory.ts
 
-import { Effect, pipe, Option } from 'effect';
+import { Effect, pipe, Option, Schema } from 'effect';
 import { DataSource, FindOptionsWhere, Repository } from 'typeorm';
 import {
   AggregateRoot,
   AggregateRootTrait,
   IDomainEventPublisher,
+  IOutboxRepository,
   RepositoryPort,
 } from '@model/interfaces';
 import {
   BaseTypeormQueryParams,
   createTypeormRepository,
+  TypeormRepositoryConfig,
 } from '../../../ports/database/typeorm/effect-repository.factory';
 import { BaseException, OperationException } from '@model/exception';
 import { AggregateTypeORMEntityBase } from './base-entity';
+import { createSchemaMappers } from './schema-mapper';
 
 // ===== TYPES =====
 
+/**
+ * Options every config passes through unchanged to `createTypeormRepository`
+ */
+export type RepositoryOptions<DM extends AggregateRoot> = Readonly<
+  Pick<
+    TypeormRepositoryConfig<DM, AggregateTypeORMEntityBase>,
+    | 'specification'
+    | 'softDelete'
+    | 'batchSize'
+    | 'childCollections'
+    | 'tenancy'
+    | 'audit'
+    | 'partialUpdates'
+  >
+>;
+
 export interface RepositoryConfig<
   DM extends AggregateRoot,
   OrmEntity extends AggregateTypeORMEntityBase,
   QueryParams = any,
-> {
+> extends RepositoryOptions<DM> {
   readonly entityClass: new () => OrmEntity;
   readonly relations: readonly string[];
   readonly mappers: {
@@ -41,7 +60,7 @@ export interface PartialRepositoryConfig<
   DM extends AggregateRoot,
   OrmEntity extends AggregateTypeORMEntityBase,
   QueryParams = any,
-> {
+> extends RepositoryOptions<DM> {
   readonly entityClass: new () => OrmEntity;
   readonly relations?: readonly string[];
   readonly mappers?: {
@@ -62,9 +81,11 @@ export interface ConventionConfig<
   OrmEntity extends AggregateTypeORMEntityBase,
   QueryParams = any,
   Trait extends AggregateRootTrait<DM, any, any> = AggregateRootTrait<DM>,
-> {
+> extends RepositoryOptions<DM> {
   readonly entityClass: new () => OrmEntity;
   readonly domainTrait: Trait;
+  // Props schema for the generated mappers; defaults to the trait's `withSchema`
+  readonly schema?: Schema.Schema<any, any, never>;
   readonly relations?: readonly string[];
   readonly prepareQuery?: (params: QueryParams) => FindOptionsWhere<OrmEntity>;
   readonly customMappings?: Partial<
@@ -179,20 +200,27 @@ const completeRepositoryConfig = <
   QueryParams = any,
 >(
   partial: PartialRepositoryConfig<DM, OrmEntity, QueryParams>,
-): RepositoryConfig<DM, OrmEntity, QueryParams> => ({
-  entityClass: partial.entityClass,
-  relations: partial.relations || [],
-  mappers: {
-    toDomain:
-      partial.mappers?.toDomain || createAutoToDomainMapper<DM, OrmEntity>(),
-    toOrm: partial.mappers?.toOrm || createAutoToOrmMapper<DM, OrmEntity>(),
-  },
-  prepareQuery:
-    partial.prepareQuery || createAutoPrepareQuery<OrmEntity, QueryParams>(),
-});
+): RepositoryConfig<DM, OrmEntity, QueryParams> => {
+  const { entityClass, relations, mappers, prepareQuery, ...options } = partial;
+
+  return {
+    ...options,
+    entityClass,
+    relations: relations || [],
+    mappers: {
+      toDomain: mappers?.toDomain || createAutoToDomainMapper<DM, OrmEntity>(),
+      toOrm: mappers?.toOrm || createAutoToOrmMapper<DM, OrmEntity>(),
+    },
+    prepareQuery:
+      prepareQuery || createAutoPrepareQuery<OrmEntity, QueryParams>(),
+  };
+};
 
 /**
- * Create configuration from convention-based setup
+ * Create configuration from convention-based setup.
+ *
+ * Mappers are generated from the props schema when there is one; otherwise ORM
+ * properties are copied by name.
  */
 const createConventionConfig = <
   DM extends AggregateRoot,
@@ -200,28 +228,58 @@ const createConventionConfig = <
   QueryParams = any,
 >(
   config: ConventionConfig<DM, OrmEntity, QueryParams>,
-): RepositoryConfig<DM, OrmEntity, QueryParams> => ({
-  entityClass: config.entityClass,
-  relations: config.relations || [],
-  mappers: {
-    toDomain: (ormEntity: OrmEntity): Effect.Effect<DM, BaseException, never> =>
-      pipe(
-        {
-          id: ormEntity.id,
-          createdAt: Option.fromNullable(ormEntity.createdAt),
-          updatedAt: Option.fromNullable(ormEntity.updatedAt),
-        },
-        config.domainTrait.parse,
-        Effect.mapError((error) =>
-          OperationException.new('TO_ORM_FAILED', error.toString()),
-        ),
-      ),
-    toOrm: createAutoToOrmMapper<DM, OrmEntity>(),
-    ...config.customMappings,
-  },
-  prepareQuery:
-    config.prepareQuery ?? createAutoPrepareQuery<OrmEntity, QueryParams>(),
-});
+): RepositoryConfig<DM, OrmEntity, QueryParams> => {
+  const {
+    entityClass,
+    domainTrait,
+    schema: configSchema,
+    relations,
+    prepareQuery,
+    customMappings,
+    ...options
+  } = config;
+  const schema = configSchema ?? domainTrait.schema;
+  const schemaMappers = schema
+    ? createSchemaMappers<DM, OrmEntity>(domainTrait, schema)
+    : undefined;
+
+  return {
+    ...options,
+    entityClass,
+    relations: relations || [],
+    mappers: {
+      toDomain:
+        schemaMappers?.toDomain ??
+        ((ormEntity: OrmEntity): Effect.Effect<DM, BaseException, never> =>
+          pipe(
+            {
+              ...convertOrmToDomainProps(ormEntity),
+              id: ormEntity.id,
+              createdAt: Option.fromNullable(ormEntity.createdAt),
+              updatedAt: Option.fromNullable(ormEntity.updatedAt),
+              version: ormEntity.version,
+            },
+            domainTrait.parse,
+            Effect.mapError((error) =>
+              OperationException.new('TO_ORM_FAILED', error.toString()),
+            ),
+          )),
+      toOrm: schemaMappers?.toOrm ?? createAutoToOrmMapper<DM, OrmEntity>(),
+      ...customMappings,
+    },
+    prepareQuery:
+      prepareQuery ?? createAutoPrepareQuery<OrmEntity, QueryParams>(),
+    specification: schemaMappers
+      ? {
+          ...options.specification,
+          fieldMap: {
+            ...schemaMappers.fieldMap,
+            ...options.specification?.fieldMap,
+          },
+        }
+      : options.specification,
+  };
+};
 
 // ===== REPOSITORY DEPENDENCIES =====
 
@@ -231,6 +289,7 @@ const createConventionConfig = <
 export interface RepositoryDependencies {
   dataSource: DataSource;
   publisher: IDomainEventPublisher;
+  outbox?: IOutboxRepository;
 }
 
 // ===== REPOSITORY FACTORIES =====
@@ -246,16 +305,19 @@ export const createRepository = <
 >(
   config: RepositoryConfig<DM, OrmEntity, QueryParams>,
   deps: RepositoryDependencies,
-): RepositoryPort<DM> =>
-  createTypeormRepository({
+): RepositoryPort<DM> => {
+  const { relations, mappers, ...options } = config;
+
+  return createTypeormRepository({
+    ...options,
     dataSource: deps.dataSource,
     publisher: deps.publisher,
-    entityClass: config.entityClass,
-    relations: [...config.relations],
-    toDomain: config.mappers.toDomain,
-    toOrm: config.mappers.toOrm,
-    prepareQuery: config.prepareQuery,
+    relations: [...relations],
+    toDomain: mappers.toDomain,
+    toOrm: mappers.toOrm,
+    outbox: deps.outbox,
   });
+};
 
 /**
  * Create a repository with partial configuration (auto-complete with defaults)
@@ -0,0 +1,299 @@
+import { Effect, Either, Option, pipe, Schema, SchemaAST } from 'effect';
+import { Repository } from 'typeorm';
+import { AggregateRoot, DomainModelTrait } from '@model/interfaces';
+import { BaseException, OperationException } from '@model/exception';
+import { AggregateTypeORMEntityBase } from './base-entity';
+
+export const ColumnNameAnnotationId = Symbol.for('effect-ddd/ColumnName');
+
+/**
+ * Store a props field under another ORM property name
+ *
+ * Usage:
+ * ```typescript
+ * const OrderSchema = Schema.Struct({
+ *   total: Schema.Number.pipe(columnName('totalAmount')),
+ * });
+ * ```
+ */
+export const columnName =
+  (name: string) =>
+  <S extends Schema.Annotable.All>(self: S): Schema.Annotable.Self<S> =>
+    self.annotations({
+      [ColumnNameAnnotationId]: name,
+    }) as Schema.Annotable.Self<S>;
+
+/**
+ * ORM mappers generated from an aggregate props schema
+ */
+export interface SchemaMappers<
+  DM extends AggregateRoot,
+  OrmEntity extends AggregateTypeORMEntityBase,
+> {
+  readonly toDomain: (
+    ormEntity: OrmEntity,
+  ) => Effect.Effect<DM, BaseException, never>;
+  readonly toOrm: (
+    domain: DM,
+    existing: Option.Option<OrmEntity>,
+    repo: Repository<OrmEntity>,
+  ) => Effect.Effect<OrmEntity, BaseException, never>;
+  // Domain field -> ORM property, for fields renamed with `columnName`
+  readonly fieldMap: Record<string, string>;
+}
+
+interface FieldMapping {
+  readonly field: string;
+  readonly encodedKey: string;
+  readonly column: string;
+  // Single-field struct, so property signatures (optional, fromKey) keep working
+  readonly schema: Schema.Schema<any, any, never>;
+  // Encoded form of Option.none() when the field holds an Option
+  readonly encodedNone: Option.Option<unknown>;
+}
+
+const findColumnName = (ast: SchemaAST.AST): Option.Option<string> =>
+  pipe(
+    SchemaAST.getAnnotation<string>(ColumnNameAnnotationId)(ast),
+    Option.orElse(() => {
+      switch (ast._tag) {
+        case 'Union':
+          return Option.firstSomeOf(ast.types.map(findColumnName));
+        case 'Refinement':
+          return findColumnName(ast.from);
+        case 'Transformation':
+          return pipe(
+            findColumnName(ast.to),
+            Option.orElse(() => findColumnName(ast.from)),
+          );
+        default:
+          return Option.none();
+      }
+    }),
+  );
+
+const propertySignatures = (
+  ast: SchemaAST.AST,
+): ReadonlyArray<SchemaAST.PropertySignature> =>
+  ast._tag === 'TypeLiteral'
+    ? ast.propertySignatures
+    : ast._tag === 'Transformation'
+      ? [...propertySignatures(ast.to), ...propertySignatures(ast.from)]
+      : [];
+
+const fieldColumnName = (
+  schema: Schema.Schema<any, any, never>,
+  field: string,
+): string =>
+  pipe(
+    Option.firstSomeOf(
+      propertySignatures(schema.ast).map((signature) =>
+        pipe(
+          SchemaAST.getAnnotation<string>(ColumnNameAnnotationId)(signature),
+          Option.orElse(() => findColumnName(signature.type)),
+        ),
+      ),
+    ),
+    Option.getOrElse(() => field),
+  );
+
+const toFieldMapping = (field: string, fieldSchema: unknown): FieldMapping => {
+  const schema = Schema.Struct({
+    [field]: fieldSchema as Schema.Schema<any, any, never>,
+  }) as unknown as Schema.Schema<any, any, never>;
+  const encoded = SchemaAST.encodedAST(schema.ast);
+  const encodedKey =
+    encoded._tag === 'TypeLiteral' && encoded.propertySignatures.length === 1
+      ? String(encoded.propertySignatures[0].name)
+      : field;
+  const holdsOption = Schema.is(Schema.typeSchema(schema))({
+    [field]: Option.none(),
+  });
+
+  return {
+    field,
+    encodedKey,
+    column: fieldColumnName(schema, field),
+    schema,
+    encodedNone: holdsOption
+      ? Option.some(
+          Schema.encodeSync(schema)({ [field]: Option.none() })[encodedKey],
+        )
+      : Option.none(),
+  };
+};
+
+const isTaggedOption = (value: unknown): value is { _tag: string } =>
+  value !== null &&
+  typeof value === 'object' &&
+  ((value as { _tag?: unknown })._tag === 'None' ||
+    (value as { _tag?: unknown })._tag === 'Some');
+
+/**
+ * Collapse an encoded Option (`Option`, `{ _tag: 'Some' }`, null/undefined)
+ * to its value or null
+ */
+const flattenOption = (encoded: unknown): unknown => {
+  if (Option.isOption(encoded)) return Option.getOrNull(encoded);
+  if (isTaggedOption(encoded)) {
+    return encoded._tag === 'Some'
+      ? (encoded as unknown as { value: unknown }).value
+      : null;
+  }
+  return encoded ?? null;
+};
+
+/**
+ * Wrap a column value in the encoded Option shape of the field
+ */
+const wrapSome = (mapping: FieldMapping, raw: unknown): unknown =>
+  pipe(
+    mapping.encodedNone,
+    Option.match({
+      onNone: () => raw,
+      onSome: (none) =>
+        Option.isOption(none)
+          ? Option.some(raw)
+          : isTaggedOption(none)
+            ? { _tag: 'Some', value: raw }
+            : raw,
+    }),
+  );
+
+const writeField = (
+  mapping: FieldMapping,
+  props: Record<string, unknown>,
+): unknown => {
+  const value = Schema.encodeSync(mapping.schema)({
+    [mapping.field]: props[mapping.field],
+  })[mapping.encodedKey];
+  return Option.isSome(mapping.encodedNone)
+    ? flattenOption(value)
+    : value ?? null;
+};
+
+/**
+ * Column values are usually decoded values (Date, number, ...) but may already
+ * be encoded (JSON columns), so try encoding them first and fall back to the
+ * raw value.
+ */
+const readField = (
+  mapping: FieldMapping,
+  ormEntity: Record<string, unknown>,
+): unknown => {
+  const raw = ormEntity[mapping.column];
+  if (raw === null || raw === undefined) {
+    return Option.getOrUndefined(mapping.encodedNone);
+  }
+  return pipe(
+    Schema.encodeUnknownEither(mapping.schema)({
+      [mapping.field]: Option.isSome(mapping.encodedNone)
+        ? Option.some(raw)
+        : raw,
+    }),
+    Either.match({
+      onLeft: () => wrapSome(mapping, raw),
+      onRight: (encoded) => encoded[mapping.encodedKey],
+    }),
+  );
+};
+
+/**
+ * Generate ORM mappers from the props schema of an aggregate.
+ *
+ * Each props field maps to the ORM property of the same name, or the one set
+ * with `columnName`. Writing encodes props with the schema and stores Options
+ * as their value or null; reading rebuilds the encoded props and hands them to
+ * `trait.parse`, so brands, dates and validators are applied as usual.
+ *
+ * Usage:
+ * ```typescript
+ * const { toDomain, toOrm, fieldMap } = createSchemaMappers<Order, OrderEntity>(
+ *   OrderTrait,
+ *   OrderSchema,
+ * );
+ * ```
+ */
+export const createSchemaMappers = <
+  DM extends AggregateRoot,
+  OrmEntity extends AggregateTypeORMEntityBase,
+>(
+  trait: Pick<DomainModelTrait<DM>, 'parse'>,
+  schema: Schema.Schema<any, any, never>,
+): SchemaMappers<DM, OrmEntity> => {
+  if (!('fields' in schema)) {
+    throw new Error('Schema mapping needs a Schema.Struct props schema');
+  }
+  const mappings = Object.entries(
+    (schema as unknown as Schema.Struct<Schema.Struct.Fields>).fields,
+  ).map(([field, fieldSchema]) => toFieldMapping(field, fieldSchema));
+
+  const toDomain = (
+    ormEntity: OrmEntity,
+  ): Effect.Effect<DM, BaseException, never> =>
+    pipe(
+      Effect.try({
+        try: () =>
+          Object.fromEntries(
+            mappings
+              .map((mapping) => [
+                mapping.encodedKey,
+                readField(
+                  mapping,
+                  ormEntity as unknown as Record<string, unknown>,
+                ),
+              ])
+              .filter(([, value]) => value !== undefined),
+          ),
+        catch: (error): BaseException =>
+          OperationException.new(
+            'DOMAIN_MAPPING_FAILED',
+            `Failed to map ORM entity to domain: ${error}`,
+          ),
+      }),
+      Effect.flatMap((props) =>
+        trait.parse({
+          ...props,
+          id: ormEntity.id,
+          createdAt: Option.fromNullable(ormEntity.createdAt),
+          updatedAt: Option.fromNullable(ormEntity.updatedAt),
+          version: ormEntity.version,
+        }),
+      ),
+    );
+
+  const toOrm = (
+    domain: DM,
+    existing: Option.Option<OrmEntity>,
+  ): Effect.Effect<OrmEntity, BaseException, never> =>
+    Effect.try({
+      try: (): OrmEntity =>
+        ({
+          ...Option.getOrElse(existing, () => ({})),
+          ...Object.fromEntries(
+            mappings.map((mapping) => [
+              mapping.column,
+              writeField(mapping, domain.props),
+            ]),
+          ),
+          id: domain.id,
+          createdAt: domain.createdAt,
+          updatedAt: Option.getOrUndefined(domain.updatedAt),
+        }) as unknown as OrmEntity,
+      catch: (error): BaseException =>
+        OperationException.new(
+          'ORM_MAPPING_FAILED',
+          `Failed to map domain to ORM entity: ${error}`,
+        ),
+    });
+
+  return {
+    toDomain,
+    toOrm,
+    fieldMap: Object.fromEntries(
+      mappings
+        .filter((mapping) => mapping.column !== mapping.field)
+        .map((mapping) => [mapping.field, mapping.column]),
+    ),
+  };
+};
@@ -0,0 +1,412 @@
+import {
+  And,
+  Equal,
+  FindOperator,
+  FindOptionsOrder,
+  FindOptionsWhere,
+  ILike,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Like,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  ObjectLiteral,
+  SelectQueryBuilder,
+} from 'typeorm';
+import {
+  AggregateRoot,
+  FieldSpecification,
+  OrderBy,
+  SortDirection,
+  Specification,
+} from '@model/interfaces';
+
+/**
+ * Options for compiling specifications to TypeORM queries
+ */
+export interface SpecificationCompileOptions {
+  // Domain field path -> ORM property path, for fields stored under another name
+  fieldMap?: Record<string, string>;
+  // Use ILIKE for `like` specifications
+  caseInsensitiveLike?: boolean;
+}
+
+type FieldLeaf = { spec: FieldSpecification<any>; negated: boolean };
+
+// Disjunctive normal form: OR of ANDs of (possibly negated) field comparisons
+type Dnf = ReadonlyArray<ReadonlyArray<FieldLeaf>>;
+
+const toDnf = (spec: Specification<any>, negated = false): Dnf => {
+  switch (spec._tag) {
+    case 'Field':
+      return [[{ spec, negated }]];
+    case 'Not':
+      return toDnf(spec.spec, !negated);
+    case 'And':
+    case 'Or': {
+      // De Morgan: a negated AND is an OR of negations and vice versa
+      const conjunctive = (spec._tag === 'And') !== negated;
+      const parts = spec.specs.map((s) => toDnf(s, negated));
+      return conjunctive
+        ? parts.reduce<Dnf>(
+            (acc, part) =>
+              acc.flatMap((left) => part.map((right) => [...left, ...right])),
+            [[]],
+          )
+        : parts.flat();
+    }
+  }
+};
+
+/**
+ * ORM property path for a domain field
+ */
+export const resolveFieldPath = (
+  field: string,
+  options: SpecificationCompileOptions = {},
+): string => options.fieldMap?.[field] ?? field;
+
+const isNullCheck = ({ spec }: FieldLeaf): boolean =>
+  spec.operator === 'isNull' ||
+  ((spec.operator === 'eq' || spec.operator === 'ne') && spec.value === null);
+
+// Whether a NULL field satisfies the leaf, as `SpecificationTrait.isSatisfiedBy`
+// decides: NULL fails every comparison but `ne`, and satisfies their negation
+const acceptsNull = ({ spec, negated }: FieldLeaf): boolean =>
+  (spec.operator === 'isNull' ||
+    (spec.operator === 'eq' && spec.value === null) ||
+    (spec.operator === 'ne' && spec.value !== null)) !== negated;
+
+const toFindOperator = (
+  { spec, negated }: FieldLeaf,
+  options: SpecificationCompileOptions,
+): FindOperator<any> => {
+  const operator = ((): FindOperator<any> => {
+    switch (spec.operator) {
+      case 'eq':
+        return spec.value === null ? IsNull() : Equal(spec.value);
+      case 'ne':
+        return spec.value === null ? Not(IsNull()) : Not(Equal(spec.value));
+      case 'gt':
+        return MoreThan(spec.value);
+      case 'gte':
+        return MoreThanOrEqual(spec.value);
+      case 'lt':
+        return LessThan(spec.value);
+      case 'lte':
+        return LessThanOrEqual(spec.value);
+      case 'in':
+        return In([...(spec.value as ReadonlyArray<unknown>)]);
+      case 'like':
+        return options.caseInsensitiveLike
+          ? ILike(spec.value)
+          : Like(spec.value);
+      case 'isNull':
+        return IsNull();
+    }
+  })();
+  return negated ? Not(operator) : operator;
+};
+
+const toOperator = (value: unknown): FindOperator<any> =>
+  value instanceof FindOperator ? value : Equal(value);
+
+// Two conditions on the same property must both hold
+const andOperators = (
+  existing: unknown,
+  operator: unknown,
+): FindOperator<any> =>
+  And(toOperator(existing), operator as FindOperator<any>);
+
+const isNestedCondition = (value: unknown): value is ObjectLiteral =>
+  value !== null &&
+  typeof value === 'object' &&
+  !(value instanceof FindOperator) &&
+  !(value instanceof Date) &&
+  !Array.isArray(value);
+
+const cloneCondition = (where: ObjectLiteral): ObjectLiteral =>
+  Object.fromEntries(
+    Object.entries(where).map(([key, value]) => [
+      key,
+      isNestedCondition(value) ? cloneCondition(value) : value,
+    ]),
+  );
+
+const assignPath = (
+  target: ObjectLiteral,
+  path: string,
+  value: unknown,
+  combine: (existing: unknown, value: unknown) => unknown = (_, v) => v,
+): void => {
+  const [head, ...rest] = path.split('.');
+  if (rest.length > 0) {
+    target[head] = target[head] ?? {};
+    assignPath(target[head], rest.join('.'), value, combine);
+    return;
+  }
+  target[head] =
+    target[head] === undefined ? value : combine(target[head], value);
+};
+
+/**
+ * Compile a specification into TypeORM `find` conditions.
+ *
+ * The specification is normalized to an OR of ANDs, so the result is an array
+ * of conditions TypeORM combines with OR. Dotted fields become nested
+ * relation conditions.
+ *
+ * Usage:
+ * ```typescript
+ * const where = specificationToFindOptions<OrderEntity>(
+ *   SpecificationTrait.or(Order.eq('status', 'open'), Order.gt('total', 100)),
+ * );
+ * const orders = await repository.find({ where });
+ * ```
+ */
+export const specificationToFindOptions = <OrmEntity extends ObjectLiteral>(
+  spec: Specification<AggregateRoot<any>>,
+  options: SpecificationCompileOptions = {},
+): FindOptionsWhere<OrmEntity>[] => {
+  const dnf = toDnf(spec);
+  if (dnf.length === 0) {
+    // An empty OR matches nothing; TypeORM would read an empty array as "no filter"
+    return [{ id: In([]) } as unknown as FindOptionsWhere<OrmEntity>];
+  }
+  return dnf.flatMap((conjunction) => {
+    const leavesByPath = new Map<string, FieldLeaf[]>();
+    conjunction.forEach((leaf) => {
+      const path = resolveFieldPath(leaf.spec.field, options);
+      leavesByPath.set(path, [...(leavesByPath.get(path) ?? []), leaf]);
+    });
+    // SQL comparisons never match NULL, so a field whose leaves all accept
+    // NULL gets its own `IS NULL` branch
+    return [...leavesByPath].reduce<ObjectLiteral[]>(
+      (wheres, [path, leaves]) => {
+        const operator = leaves
+          .map((leaf) => toFindOperator(leaf, options))
+          .reduce((existing, next) => andOperators(existing, next));
+        const alternatives =
+          leaves.every(acceptsNull) && !leaves.every(isNullCheck)
+            ? [operator, IsNull()]
+            : [operator];
+        return wheres.flatMap((where) =>
+          alternatives.map((alternative) => {
+            const next = cloneCondition(where);
+            assignPath(next, path, alternative);
+            return next;
+          }),
+        );
+      },
+      [{}],
+    ) as FindOptionsWhere<OrmEntity>[];
+  });
+};
+
+/**
+ * Translate a domain sort order into TypeORM `order`, nesting dotted paths
+ */
+export const orderByToFindOptions = <OrmEntity extends ObjectLiteral>(
+  orderBy: OrderBy<AggregateRoot<any>> = {},
+  options: SpecificationCompileOptions = {},
+): FindOptionsOrder<OrmEntity> => {
+  const order: ObjectLiteral = {};
+  Object.entries(orderBy).forEach(([field, direction]) =>
+    assignPath(order, resolveFieldPath(field, options), direction),
+  );
+  return order as FindOptionsOrder<OrmEntity>;
+};
+
+/**
+ * Sort order for keyset pagination. NULL sorts as the largest value, as in
+ * memory: last for ascending keys and first for descending ones.
+ */
+export const keysetOrder = <OrmEntity extends ObjectLiteral>(
+  keys: ReadonlyArray<[string, SortDirection]>,
+  options: SpecificationCompileOptions = {},
+): FindOptionsOrder<OrmEntity> => {
+  const order: ObjectLiteral = {};
+  keys.forEach(([key, direction]) =>
+    assignPath(order, resolveFieldPath(key, options), {
+      direction,
+      nulls: direction === 'DESC' ? 'FIRST' : 'LAST',
+    }),
+  );
+  return order as FindOptionsOrder<OrmEntity>;
+};
+
+// Conditions, combined with OR, for values after `value` in `keysetOrder`
+const afterValue = (
+  direction: SortDirection,
+  value: unknown,
+  nullable: boolean,
+): FindOperator<any>[] => {
+  if (value === null || value === undefined) {
+    return direction === 'DESC' ? [Not(IsNull())] : [];
+  }
+  if (direction === 'DESC') {
+    return [LessThan(value)];
+  }
+  return nullable ? [MoreThan(value), IsNull()] : [MoreThan(value)];
+};
+
+/**
+ * Restrict `where` to rows after a keyset position in `keysetOrder`:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... for ascending keys, with
+ * explicit branches for NULL keys
+ */
+export const afterKeyset = <OrmEntity extends ObjectLiteral>(
+  where: FindOptionsWhere<OrmEntity> | FindOptionsWhere<OrmEntity>[],
+  keys: ReadonlyArray<[string, SortDirection]>,
+  values: ReadonlyArray<unknown>,
+  options: SpecificationCompileOptions = {},
+): FindOptionsWhere<OrmEntity>[] =>
+  (Array.isArray(where) ? where : [where]).flatMap((condition) =>
+    keys.flatMap(([key, direction], index) =>
+      // `id`, the tie-breaker, is never NULL
+      afterValue(direction, values[index], key !== 'id').map((after) => {
+        const clause = cloneCondition(condition);
+        keys
+          .slice(0, index)
+          .forEach(([previous], i) =>
+            assignPath(
+              clause,
+              resolveFieldPath(previous, options),
+              values[i] === null || values[i] === undefined
+                ? IsNull()
+                : Equal(values[i]),
+              andOperators,
+            ),
+          );
+        assignPath(clause, resolveFieldPath(key, options), after, andOperators);
+        return clause as FindOptionsWhere<OrmEntity>;
+      }),
+    ),
+  );
+
+const SQL_OPERATORS = {
+  eq: '=',
+  ne: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+} as const;
+
+/**
+ * Compile a specification into a SQL condition with named parameters.
+ *
+ * Top-level fields are qualified with `alias`; dotted fields are used as-is,
+ * so `profile.name` expects a joined relation aliased `profile`. NULL fields
+ * match as they do in memory: `ne` and negated comparisons include them.
+ *
+ * Parameters are named `<prefix>_<n>`; give each specification in one query
+ * its own `prefix`.
+ */
+export const specificationToSql = (
+  spec: Specification<AggregateRoot<any>>,
+  alias: string,
+  options: SpecificationCompileOptions = {},
+  prefix = `${alias}_spec`,
+): { sql: string; parameters: ObjectLiteral } => {
+  const parameters: ObjectLiteral = {};
+  let counter = 0;
+  const parameter = (value: unknown): string => {
+    const name = `${prefix}_${counter++}`;
+    parameters[name] = value;
+    return name;
+  };
+
+  const comparison = (node: FieldSpecification<any>, column: string) => {
+    switch (node.operator) {
+      case 'isNull':
+        return `${column} IS NULL`;
+      case 'in': {
+        const values = node.value as ReadonlyArray<unknown>;
+        return values.length === 0
+          ? '1=0'
+          : `${column} IN (:...${parameter([...values])})`;
+      }
+      case 'like':
+        return `${column} ${
+          options.caseInsensitiveLike ? 'ILIKE' : 'LIKE'
+        } :${parameter(node.value)}`;
+      default:
+        return `${column} ${SQL_OPERATORS[node.operator]} :${parameter(
+          node.value,
+        )}`;
+    }
+  };
+
+  // NOT is pushed down to the fields, so NULL handling is decided per field
+  const compile = (node: Specification<any>, negated: boolean): string => {
+    switch (node._tag) {
+      case 'And':
+      case 'Or': {
+        const conjunctive = (node._tag === 'And') !== negated;
+        if (node.specs.length === 0) {
+          return conjunctive ? '1=1' : '1=0';
+        }
+        return `(${node.specs
+          .map((s) => compile(s, negated))
+          .join(conjunctive ? ' AND ' : ' OR ')})`;
+      }
+      case 'Not':
+        return compile(node.spec, !negated);
+      case 'Field': {
+        const path = resolveFieldPath(node.field, options);
+        const column = path.includes('.') ? path : `${alias}.${path}`;
+        const leaf = { spec: node, negated };
+        if (isNullCheck(leaf)) {
+          return acceptsNull(leaf)
+            ? `${column} IS NULL`
+            : `${column} IS NOT NULL`;
+        }
+        const condition = negated
+          ? `NOT (${comparison(node, column)})`
+          : comparison(node, column);
+        return acceptsNull(leaf)
+          ? `(${condition} OR ${column} IS NULL)`
+          : condition;
+      }
+    }
+  };
+
+  return { sql: compile(spec, false), parameters };
+};
+
+/**
+ * Add a specification to a query builder as an AND condition, under a
+ * parameter prefix the query builder does not use yet
+ *
+ * Usage:
+ * ```typescript
+ * const orders = await applySpecification(
+ *   repository.createQueryBuilder('order'),
+ *   OpenOrders,
+ * ).getMany();
+ * ```
+ */
+export const applySpecification = <OrmEntity extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<OrmEntity>,
+  spec: Specification<AggregateRoot<any>>,
+  options: SpecificationCompileOptions = {},
+): SelectQueryBuilder<OrmEntity> => {
+  const used = Object.keys(queryBuilder.getParameters());
+  let index = 0;
+  while (
+    used.some((name) => name.startsWith(`${queryBuilder.alias}_spec${index}_`))
+  ) {
+    index++;
+  }
+  const { sql, parameters } = specificationToSql(
+    spec,
+    queryBuilder.alias,
+    options,
+    `${queryBuilder.alias}_spec${index}`,
+  );
+  return queryBuilder.andWhere(sql, parameters);
+};
@@ -6,4 +6,5 @@ export { RedisKeyValueRepository } from './database/keyvalue/implement/redis/red
 export { EventHandlingTracker } from './pubsub/event-handling-tracker.base';
 export { KVEventHandlingTracker } from './pubsub/implement/kv-even-handling-tracker';
 export * from './database/keyvalue';
+export * from './database/in-memory';
 export * from './json';
@@ -0,0 +1,53 @@
+import { Effect, pipe } from 'effect';
+import { Options } from 'amqplib';
+import { DomainEventCodec } from '@model/event/define-domain-event';
+import { ValidationException } from '@model/exception';
+import { IDomainEvent } from '@model/interfaces';
+
+/**
+ * A domain event encoded for an exchange, with the options that route and type it
+ */
+export interface DomainEventMessage {
+  readonly routingKey: string;
+  readonly content: Buffer;
+  readonly options: Options.Publish;
+}
+
+/**
+ * Encode a domain event with the codec; it is routed and typed by its name
+ */
+export const toDomainEventMessage = (
+  eventCodec: DomainEventCodec,
+  event: IDomainEvent,
+  persistent: boolean,
+): Effect.Effect<DomainEventMessage, ValidationException, never> =>
+  Effect.map(eventCodec.encode(event), (wire) => ({
+    routingKey: event.name,
+    content: Buffer.from(JSON.stringify(wire), 'utf-8'),
+    options: {
+      type: event.name,
+      messageId: event.id,
+      timestamp: event.metadata.timestamp,
+      contentType: 'application/json',
+      persistent,
+    },
+  }));
+
+/**
+ * Decode and validate the content of a received message as a domain event
+ */
+export const fromDomainEventMessage = (
+  eventCodec: DomainEventCodec,
+  content: string,
+): Effect.Effect<IDomainEvent, ValidationException, never> =>
+  pipe(
+    Effect.try({
+      try: (): unknown => JSON.parse(content),
+      catch: (error) =>
+        ValidationException.new(
+          'INVALID_EVENT_MESSAGE',
+          `Message is not valid JSON: ${error}`,
+        ),
+    }),
+    Effect.flatMap((wire) => eventCodec.decode(wire)),
+  );
@@ -1,3 +1,6 @@
+import { Effect } from 'effect';
+import { DomainEventCodec } from '@model/event/define-domain-event';
+import { IDomainEvent } from '@model/interfaces';
 import {
   ConsoleDomainLogger,
   getConsoleDomainLogger,
@@ -5,6 +8,7 @@ import {
 import { ArbFunction } from '@type_util/function';
 import { EventHandlingTracker } from '../event-handling-tracker.base';
 import { ConnectionSettings } from './connection-setting';
+import { fromDomainEventMessage } from './domain-event-message';
 import { Exchange, ExchangeType } from './exchange';
 import { MessageConsumer } from './message-consumer';
 import { MessageListener } from './message-listener';
@@ -22,6 +26,8 @@ export class ExchangeListener {
   label = '';
   logger: ConsoleDomainLogger;
   eventHandlingTracker: EventHandlingTracker;
+  // When set, messages are decoded and validated as domain events before dispatch
+  eventCodec?: DomainEventCodec;
 
   // Exchange Property
   exchangeDurable = true;
@@ -85,10 +91,32 @@ export class ExchangeListener {
     aMessage: string;
     aDeliveryTag: number;
     isRedelivery: boolean;
+    aDomainEvent?: IDomainEvent;
   }): Promise<void> {
     throw Error('This method need to be overridden' + params);
   }
 
+  /*
+  Decodes the message with my event codec, if any, and dispatches it.
+  An invalid event throws, so the message is rejected.
+  */
+  async dispatch(params: {
+    aType: string;
+    aMessageId: string;
+    aTimeStamp: Date;
+    aMessage: string;
+    aDeliveryTag: number;
+    isRedelivery: boolean;
+  }): Promise<void> {
+    if (!this.eventCodec) {
+      return this.filteredDispatch(params);
+    }
+    const aDomainEvent = await Effect.runPromise(
+      fromDomainEventMessage(this.eventCodec, params.aMessage),
+    );
+    return this.filteredDispatch({ ...params, aDomainEvent });
+  }
+
   /*
   Answers the kinds of messages I listen to.
   @return: List[str]
@@ -156,7 +184,7 @@ export class ExchangeListener {
   ) {
     const idempotentHandle = async (isHandled: boolean) => {
       if (!isHandled) {
-        await this.filteredDispatch({
+        await this.dispatch({
           aType,
           aMessageId,
           aTimeStamp,
@@ -0,0 +1,53 @@
+import { Effect, pipe } from 'effect';
+import { DomainEventCodec } from '@model/event/define-domain-event';
+import { OperationException } from '@model/exception';
+import { IDomainEvent, IDomainEventPublisher } from '@model/interfaces';
+import { toDomainEventMessage } from './domain-event-message';
+import { Exchange } from './exchange';
+
+export class ExchangePublisher implements IDomainEventPublisher {
+  /*
+  I publish domain events to an exchange. Each event is encoded with
+  my event codec, routed by its name and typed with it, so an
+  ExchangeListener can filter and decode it.
+  */
+  constructor(
+    private readonly exchange: Exchange,
+    private readonly eventCodec: DomainEventCodec,
+  ) {}
+
+  publish(event: IDomainEvent) {
+    return pipe(
+      toDomainEventMessage(this.eventCodec, event, this.exchange.isDurable()),
+      Effect.flatMap(({ routingKey, content, options }) =>
+        Effect.try({
+          try: () => {
+            const channel = this.exchange.getChannel();
+            if (!channel) {
+              throw new Error(
+                `Exchange ${this.exchange.getName()} is not open`,
+              );
+            }
+            channel.publish(
+              this.exchange.getName(),
+              routingKey,
+              content,
+              options,
+            );
+          },
+          catch: (error) =>
+            OperationException.new(
+              'PUBLISH_EVENT_FAILED',
+              `Failed to publish ${event.name}: ${error}`,
+            ),
+        }),
+      ),
+    );
+  }
+
+  publishAll(events: ReadonlyArray<IDomainEvent>) {
+    return Effect.forEach(events, (event) => this.publish(event), {
+      discard: true,
+    });
+  }
+}
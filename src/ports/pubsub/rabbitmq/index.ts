@@ -1,8 +1,10 @@
 export * from './message-type';
 export * from './broker-component';
 export * from './connection-setting';
+export * from './domain-event-message';
 export * from './exchange';
 export * from './exchange-listener';
+export * from './exchange-publisher';
 export * from './message-consumer';
 export * from './message-listener';
 export * from './message-type';